@@ -1,8 +1,11 @@
 import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { BarChart3, Activity, Bluetooth, Signal, Video, ChevronDown, ChevronUp } from 'lucide-react';
+import { BarChart3, Activity, Bluetooth, Signal, Video, ChevronDown, ChevronUp, Database } from 'lucide-react';
 import { DashboardPage } from '@/app/components/DashboardPage';
 import LiveMeasurementPage from '@/app/components/LiveMeasurementPage';
+import SessionsPage from '@/app/components/SessionsPage';
+import { formatDuration } from '@/app/services/sessionHelpers';
+import { acquisitionStore, useAcquisition } from '@/app/services/acquisitionStore';
 
 interface Activity {
   id: number;
@@ -11,6 +14,64 @@ interface Activity {
   description: string;
 }
 
+const activities: Activity[] = [
+  { id: 1, name: 'Activity 1', video: '/videos/tongue/tonguemovefront.mp4', description: 'Tongue Move Front' },
+  { id: 2, name: 'Activity 2', video: '/videos/tongue/tonguemoveup.mp4', description: 'Tongue Move Up' },
+  { id: 3, name: 'Activity 3', video: '/videos/tongue/tonguemovedown.mp4', description: 'Tongue Move Down' },
+  { id: 4, name: 'Activity 4', video: '/videos/tongue/tonguemoveleft.mp4', description: 'Tongue Move Left' },
+  { id: 5, name: 'Activity 5', video: '/videos/tongue/tonguemoveright.mp4', description: 'Tongue Move Right' },
+  { id: 6, name: 'Activity 6', video: '/videos/6 Push Chin With The Fist.mp4', description: 'Push Chin With The Fist' },
+  { id: 7, name: 'Activity 7', video: '/videos/7 Lips Hold The Stick Is Pushed Down.mp4', description: 'Lips Hold The Stick Is Pushed Down' },
+  { id: 8, name: 'Activity 8', video: '/videos/8Lips Hold Stick While Finger Push Up.mp4', description: 'Lips Hold Stick While Finger Push Up' },
+  { id: 9, name: 'Activity 9', video: '/videos/9Lips Hold Stick While Finger Push Down.mp4', description: 'Lips Hold Stick While Finger Push Down' },
+  { id: 10, name: 'Activity 10', video: '/videos/10Tongue Touch Palate (Uppper Mouth).mp4', description: 'Tongue Touch Palate (Uppper Mouth)' },
+  { id: 11, name: 'Activity 11', video: '/videos/11Tongue Push The Stick (Right).mp4', description: 'Tongue Push The Stick (Right)' },
+  { id: 12, name: 'Activity 12', video: '/videos/12Tongue Push The Stick (Left).mp4', description: 'Tongue Push The Stick (Left)' },
+  { id: 13, name: 'Activity 13', video: '/videos/Soft Palate  Uvula Elevation.mp4', description: 'Soft Palate Uvula Elevation' },
+  { id: 14, name: 'Activity 14', video: '/videos/Tongue Against Cheek.mp4', description: 'Tongue Against Cheek' },
+  { id: 15, name: 'Activity 15', video: '/videos/Tongue Protrusion & Retraction (Above Tongue).mp4', description: 'Tongue Protrusion & Retraction (Above Tongue)' },
+  { id: 16, name: 'Activity 16', video: '/videos/Tongue Protrusion & Retraction (Under Tongue).mp4', description: 'Tongue Protrusion & Retraction (Under Tongue)' },
+  { id: 17, name: 'Activity 17', video: '/videos/Tongue Retraction.mp4', description: 'Tongue Retraction' },
+  { id: 18, name: 'Activity 18', video: '/videos/Tongue Upward Push.mp4', description: 'Tongue Upward Push' },
+];
+
+/** Shown on every route while sensors stream, so a running session isn't forgotten */
+function AcquisitionIndicator() {
+  const acquisition = useAcquisition();
+  const [now, setNow] = useState(Date.now());
+
+  const recording = acquisition.isRecording;
+  const streaming = acquisition.isRunning;
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  if (!streaming) return null;
+
+  const startedAt = acquisition.recordingStartedAt;
+  const sensors = acquisition.channels.filter(c => c.streaming).length;
+
+  return (
+    <Link
+      to="/live"
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm font-medium ${
+        recording ? 'bg-red-50 border-red-200 text-red-700' : 'bg-green-50 border-green-200 text-green-700'
+      }`}
+      title="Go to Live Measurement"
+    >
+      <span className={`w-2.5 h-2.5 rounded-full ${recording ? 'bg-red-600 animate-pulse' : 'bg-green-600'}`} />
+      {recording ? 'Recording' : 'Streaming'}
+      {recording && startedAt !== null && (
+        <span className="font-mono">{formatDuration(Math.max(0, now - startedAt))}</span>
+      )}
+      {sensors > 1 && <span className="text-xs opacity-80">· {sensors} sensors</span>}
+    </Link>
+  );
+}
+
 function TopNavbar() {
   return (
     <nav className="fixed top-0 left-0 right-0 h-16 bg-white border-b border-border z-50 shadow-sm">
@@ -24,14 +85,19 @@ function TopNavbar() {
             <p className="text-xs text-muted-foreground">Medical Research System</p>
           </div>
         </div>
+        <AcquisitionIndicator />
       </div>
     </nav>
   );
 }
 
-function Sidebar() {
+interface SidebarProps {
+  selectedActivity: number;
+  setSelectedActivity: (id: number) => void;
+}
+
+function Sidebar({ selectedActivity, setSelectedActivity }: SidebarProps) {
   const location = useLocation();
-  const [selectedActivity, setSelectedActivity] = useState(1);
   const [isVideoExpanded, setIsVideoExpanded] = useState(false);
 
   // Listen for external toggle events
@@ -44,31 +110,13 @@ function Sidebar() {
     return () => window.removeEventListener('toggleSidebarVideo', handleToggle);
   }, []);
 
-  const activities: Activity[] = [
-    { id: 1, name: 'Activity 1', video: '/videos/tongue/tonguemovefront.mp4', description: 'Tongue Move Front' },
-    { id: 2, name: 'Activity 2', video: '/videos/tongue/tonguemoveup.mp4', description: 'Tongue Move Up' },
-    { id: 3, name: 'Activity 3', video: '/videos/tongue/tonguemovedown.mp4', description: 'Tongue Move Down' },
-    { id: 4, name: 'Activity 4', video: '/videos/tongue/tonguemoveleft.mp4', description: 'Tongue Move Left' },
-    { id: 5, name: 'Activity 5', video: '/videos/tongue/tonguemoveright.mp4', description: 'Tongue Move Right' },
-    { id: 6, name: 'Activity 6', video: '/videos/6 Push Chin With The Fist.mp4', description: 'Push Chin With The Fist' },
-    { id: 7, name: 'Activity 7', video: '/videos/7 Lips Hold The Stick Is Pushed Down.mp4', description: 'Lips Hold The Stick Is Pushed Down' },
-    { id: 8, name: 'Activity 8', video: '/videos/8Lips Hold Stick While Finger Push Up.mp4', description: 'Lips Hold Stick While Finger Push Up' },
-    { id: 9, name: 'Activity 9', video: '/videos/9Lips Hold Stick While Finger Push Down.mp4', description: 'Lips Hold Stick While Finger Push Down' },
-    { id: 10, name: 'Activity 10', video: '/videos/10Tongue Touch Palate (Uppper Mouth).mp4', description: 'Tongue Touch Palate (Uppper Mouth)' },
-    { id: 11, name: 'Activity 11', video: '/videos/11Tongue Push The Stick (Right).mp4', description: 'Tongue Push The Stick (Right)' },
-    { id: 12, name: 'Activity 12', video: '/videos/12Tongue Push The Stick (Left).mp4', description: 'Tongue Push The Stick (Left)' },
-    { id: 13, name: 'Activity 13', video: '/videos/Soft Palate  Uvula Elevation.mp4', description: 'Soft Palate Uvula Elevation' },
-    { id: 14, name: 'Activity 14', video: '/videos/Tongue Against Cheek.mp4', description: 'Tongue Against Cheek' },
-    { id: 15, name: 'Activity 15', video: '/videos/Tongue Protrusion & Retraction (Above Tongue).mp4', description: 'Tongue Protrusion & Retraction (Above Tongue)' },
-    { id: 16, name: 'Activity 16', video: '/videos/Tongue Protrusion & Retraction (Under Tongue).mp4', description: 'Tongue Protrusion & Retraction (Under Tongue)' },
-    { id: 17, name: 'Activity 17', video: '/videos/Tongue Retraction.mp4', description: 'Tongue Retraction' },
-    { id: 18, name: 'Activity 18', video: '/videos/Tongue Upward Push.mp4', description: 'Tongue Upward Push' },
-  ];
 
   const currentActivity = activities.find(a => a.id === selectedActivity) || activities[0];
 
   const navItems = [
+    { path: '/', label: 'Dashboard', icon: BarChart3, description: 'Session Analytics' },
     { path: '/live', label: 'Live Measurement', icon: Activity, description: 'Real-time Control' },
+    { path: '/sessions', label: 'Session Library', icon: Database, description: 'Recorded Sessions' },
   ];
 
   return (
@@ -249,15 +297,24 @@ function Sidebar() {
 }
 
 function App() {
+  const [selectedActivity, setSelectedActivity] = useState(1);
+  const currentActivity = activities.find(a => a.id === selectedActivity) || activities[0];
+
+  // Recordings are stamped with whatever exercise is selected when they start
+  useEffect(() => {
+    acquisitionStore.setActivity({ id: currentActivity.id, description: currentActivity.description });
+  }, [currentActivity]);
+
   return (
     <BrowserRouter>
       <div className="min-h-screen bg-background">
         <TopNavbar />
-        <Sidebar />
+        <Sidebar selectedActivity={selectedActivity} setSelectedActivity={setSelectedActivity} />
         <main className="ml-64 mt-16">
           <Routes>
             <Route path="/" element={<DashboardPage />} />
             <Route path="/live" element={<LiveMeasurementPage />} />
+            <Route path="/sessions" element={<SessionsPage />} />
           </Routes>
         </main>
       </div>
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react'
+import { Crosshair, Trash2 } from 'lucide-react'
+import {
+  deleteGainCalibration,
+  fitCalibration,
+  saveGainCalibration,
+  unitToKpa,
+  type CalibrationPoint,
+  type CalibrationProfile,
+  type FitKind,
+} from '@/app/services/calibration'
+
+interface CalibrationWizardProps {
+  deviceName: string | null
+  gain: number
+  profile: CalibrationProfile | null
+  onProfileChange: (profile: CalibrationProfile | null) => void
+  /** Mean ADC counts over the most recent samples, or null when not streaming */
+  capture: () => number | null
+  onError: (message: string) => void
+}
+
+const inputClass = 'px-2 py-1 border rounded-md text-sm'
+
+export default function CalibrationWizard({
+  deviceName,
+  gain,
+  profile,
+  onProfileChange,
+  capture,
+  onError,
+}: CalibrationWizardProps) {
+  const [reference, setReference] = useState('0')
+  const [referenceUnit, setReferenceUnit] = useState<'kPa' | 'mmHg'>('kPa')
+  const [points, setPoints] = useState<CalibrationPoint[]>([])
+  const [fit, setFit] = useState<FitKind>('linear')
+  const [degree, setDegree] = useState(2)
+
+  const existing = profile?.gains[gain]
+
+  // Points belong to one gain; start over when it changes
+  useEffect(() => {
+    setPoints([])
+  }, [gain, deviceName])
+
+  if (!deviceName) {
+    return <p className="text-xs text-gray-500">Connect a device to calibrate it.</p>
+  }
+
+  const handleCapture = () => {
+    const value = Number(reference)
+    if (reference.trim() === '' || Number.isNaN(value)) {
+      onError('Reference pressure must be a number')
+      return
+    }
+
+    const counts = capture()
+    if (counts === null) {
+      onError('Start streaming before capturing a calibration point')
+      return
+    }
+
+    setPoints(prev => [...prev, { counts, kPa: unitToKpa(value, referenceUnit) }])
+  }
+
+  const handleFit = () => {
+    try {
+      const calibration = fitCalibration(points, fit, degree)
+      onProfileChange(saveGainCalibration(deviceName, gain, calibration))
+      setPoints([])
+    } catch (err: any) {
+      onError(err.message)
+    }
+  }
+
+  const handleClear = () => {
+    if (!window.confirm(`Remove the gain ${gain} calibration for ${deviceName}?`)) return
+    onProfileChange(deleteGainCalibration(deviceName, gain))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-gray-600">
+        Device <span className="font-medium">{deviceName}</span>, gain <span className="font-medium">{gain}</span>:{' '}
+        {existing ? (
+          <>
+            {existing.fit === 'linear' ? 'linear' : `degree ${existing.coefficients.length - 1}`} fit over{' '}
+            {existing.points.length} points, R² = {existing.rSquared.toFixed(4)}
+            <button onClick={handleClear} className="ml-2 text-red-600 hover:underline">
+              Clear
+            </button>
+          </>
+        ) : (
+          'not calibrated'
+        )}
+        {profile && (
+          <span className="text-gray-500">
+            {' '}· calibrated gains: {Object.keys(profile.gains).join(', ')}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-xs text-gray-600">Reference</label>
+        <input
+          type="number"
+          step="any"
+          value={reference}
+          onChange={e => setReference(e.target.value)}
+          className={`${inputClass} w-24`}
+        />
+        <select
+          value={referenceUnit}
+          onChange={e => setReferenceUnit(e.target.value as 'kPa' | 'mmHg')}
+          className={inputClass}
+        >
+          <option value="kPa">kPa</option>
+          <option value="mmHg">mmHg</option>
+        </select>
+        <button
+          onClick={handleCapture}
+          className="px-3 py-1 text-sm text-white rounded-md flex items-center gap-1 transition-colors"
+          style={{ backgroundColor: '#912335' }}
+          onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = '#7a1e2d')}
+          onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = '#912335')}
+        >
+          <Crosshair className="w-4 h-4" />
+          Capture
+        </button>
+      </div>
+
+      {points.length > 0 && (
+        <table className="text-xs w-full max-w-sm">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="py-1">Counts</th>
+              <th className="py-1">Reference (kPa)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {points.map((p, i) => (
+              <tr key={i} className="border-t">
+                <td className="py-1 font-mono">{p.counts.toFixed(1)}</td>
+                <td className="py-1 font-mono">{p.kPa.toFixed(3)}</td>
+                <td className="py-1 text-right">
+                  <button
+                    onClick={() => setPoints(prev => prev.filter((_, j) => j !== i))}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove point"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={fit} onChange={e => setFit(e.target.value as FitKind)} className={inputClass}>
+          <option value="linear">Linear</option>
+          <option value="polynomial">Polynomial</option>
+        </select>
+        {fit === 'polynomial' && (
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Degree
+            <input
+              type="number"
+              min={2}
+              max={4}
+              value={degree}
+              onChange={e => {
+                const d = Math.round(Number(e.target.value))
+                if (d >= 2 && d <= 4) setDegree(d)
+              }}
+              className={`${inputClass} w-14`}
+            />
+          </label>
+        )}
+        <button
+          onClick={handleFit}
+          disabled={points.length === 0}
+          className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Fit & Save for Gain {gain}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Apply each reference pressure, wait for the trace to settle, then capture. Each capture averages the last 0.5 s of raw samples.
+      </p>
+    </div>
+  )
+}
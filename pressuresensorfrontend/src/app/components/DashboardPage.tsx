@@ -1,59 +1,136 @@
-import { useState } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { Activity, Database, Clock, Signal, Download } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { DateRange } from 'react-day-picker';
+import { Activity, Database, Clock, Signal, Download, CalendarIcon, ArrowUp, ArrowDown, X } from 'lucide-react';
 import { Button } from './ui/button'
 import { Card } from './ui/card'
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from './ui/pagination';
+import SessionChart from './SessionChart';
+import { downloadSessionCsv, formatDuration, sessionDuration, sessionStats } from '@/app/services/sessionHelpers';
+import { listSessions, type SessionMeta } from '@/app/services/sessionStore';
+import { UNIT_LABELS, type PressureUnit } from '@/app/services/calibration';
 
+type SortKey = 'id' | 'startedAt' | 'duration' | 'activity' | 'samples' | 'dropped' | 'gain' | 'noise';
 
+const PAGE_SIZE = 10;
 
-// Mock historical data
-const generateHistoricalData = () => {
-  const data = [];
-  const baseTime = Date.now() - 24 * 60 * 60 * 1000; // 24 hours ago
-  
-  for (let i = 0; i < 100; i++) {
-    const time = new Date(baseTime + i * 15 * 60 * 1000); // Every 15 minutes
-    const rawPressure = 100 + Math.sin(i / 10) * 20 + (Math.random() - 0.5) * 10;
-    const filteredPressure = 100 + Math.sin(i / 10) * 20 + (Math.random() - 0.5) * 3;
-    
-    data.push({
-      time: time.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-      rawPressure: parseFloat(rawPressure.toFixed(2)),
-      filteredPressure: parseFloat(filteredPressure.toFixed(2)),
-    });
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'id', label: 'Session ID' },
+  { key: 'startedAt', label: 'Start Time' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'activity', label: 'Activity' },
+  { key: 'samples', label: 'Samples' },
+  { key: 'dropped', label: 'Dropped Frames' },
+  { key: 'gain', label: 'Gain Value' },
+  { key: 'noise', label: 'Noise (RMS)' },
+];
+
+const sortValue = (s: SessionMeta, key: SortKey, unit: PressureUnit): number | string => {
+  switch (key) {
+    case 'id': return s.id;
+    case 'startedAt': return s.startedAt;
+    case 'duration': return s.endedAt === null ? -1 : s.endedAt - s.startedAt;
+    case 'activity': return s.activity?.description ?? '';
+    case 'samples': return s.sampleCount;
+    case 'dropped': return s.droppedFrames;
+    case 'gain': return s.gainHistory[0]?.gain ?? -1;
+    case 'noise': return sessionStats(s, unit)?.noiseRms ?? -1;
   }
-  
-  return data;
 };
 
-const mockSessions = [
-  { id: 1, startTime: '2026-01-20 08:30:00', duration: '45 min', gain: 8 },
-  { id: 2, startTime: '2026-01-20 10:15:00', duration: '32 min', gain: 12 },
-  { id: 3, startTime: '2026-01-20 14:45:00', duration: '58 min', gain: 10 },
-  { id: 4, startTime: '2026-01-19 16:20:00', duration: '41 min', gain: 9 },
-  { id: 5, startTime: '2026-01-19 09:00:00', duration: '53 min', gain: 11 },
-];
+const formatGain = (s: SessionMeta) => {
+  const gains = [...new Set(s.gainHistory.map(g => g.gain))];
+  return gains.length === 0 ? '—' : gains.join(' → ');
+};
+
+const formatRelative = (time: number) => {
+  const minutes = Math.round((Date.now() - time) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} d ago`;
+};
+
+const inRange = (s: SessionMeta, range: DateRange | undefined) => {
+  if (!range?.from) return true;
+  const from = new Date(range.from).setHours(0, 0, 0, 0);
+  const to = new Date(range.to ?? range.from).setHours(23, 59, 59, 999);
+  return s.startedAt >= from && s.startedAt <= to;
+};
 
 export function DashboardPage() {
   const [showRaw, setShowRaw] = useState(true);
   const [showFiltered, setShowFiltered] = useState(true);
-  const historicalData = generateHistoricalData();
-
-  const handleExportCSV = () => {
-    const csvContent = [
-      ['Time', 'Raw Pressure', 'Filtered Pressure'],
-      ...historicalData.map(d => [d.time, d.rawPressure, d.filteredPressure])
-    ].map(row => row.join(',')).join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `pressure_data_${new Date().toISOString()}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const [unit, setUnit] = useState<PressureUnit>('raw');
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [sortKey, setSortKey] = useState<SortKey>('startedAt');
+  const [sortAsc, setSortAsc] = useState(false);
+  const [page, setPage] = useState(0);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const visible = useMemo(() => {
+    const filtered = sessions.filter(s => inRange(s, dateRange));
+    return filtered.sort((a, b) => {
+      const va = sortValue(a, sortKey, unit);
+      const vb = sortValue(b, sortKey, unit);
+      const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+      return sortAsc ? cmp : -cmp;
+    });
+  }, [sessions, dateRange, sortKey, sortAsc, unit]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const pageRows = visible.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  useEffect(() => {
+    if (page >= pageCount) setPage(pageCount - 1);
+  }, [page, pageCount]);
+
+  // Default to the most recent session in the current range
+  const selected =
+    visible.find(s => s.id === selectedId) ??
+    visible.reduce<SessionMeta | null>((latest, s) => (!latest || s.startedAt > latest.startedAt ? s : latest), null);
+
+  const summary = useMemo(() => {
+    const last = visible.reduce((t, s) => Math.max(t, s.endedAt ?? s.startedAt), 0);
+    const recordedMs = visible.reduce((t, s) => t + (s.endedAt === null ? 0 : s.endedAt - s.startedAt), 0);
+    const noise = visible.flatMap(s => sessionStats(s, unit)?.noiseRms ?? []);
+    const avgNoise = noise.length === 0 ? null : noise.reduce((t, n) => t + n, 0) / noise.length;
+    return { last, recordedMs, avgNoise };
+  }, [visible, unit]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'activity');
+    }
   };
 
+  const rangeLabel = dateRange?.from
+    ? `${dateRange.from.toLocaleDateString()} – ${(dateRange.to ?? dateRange.from).toLocaleDateString()}`
+    : 'All dates';
+
   return (
     <div className="min-h-screen bg-background p-8">
       {/* Summary Cards */}
@@ -61,8 +138,8 @@ export function DashboardPage() {
         <Card className="p-6 bg-white border border-border shadow-sm">
           <div className="flex items-start justify-between">
             <div>
-              <p className="text-sm text-muted-foreground mb-1">Device Status</p>
-              <p className="text-2xl font-semibold text-green-600">Connected</p>
+              <p className="text-sm text-muted-foreground mb-1">Recorded Time</p>
+              <p className="text-2xl font-semibold text-foreground">{formatDuration(summary.recordedMs)}</p>
             </div>
             <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
               <Activity className="w-5 h-5 text-primary" />
@@ -74,7 +151,9 @@ export function DashboardPage() {
           <div className="flex items-start justify-between">
             <div>
               <p className="text-sm text-muted-foreground mb-1">Last Measurement</p>
-              <p className="text-2xl font-semibold text-foreground">2 min ago</p>
+              <p className="text-2xl font-semibold text-foreground">
+                {summary.last ? formatRelative(summary.last) : '—'}
+              </p>
             </div>
             <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
               <Clock className="w-5 h-5 text-primary" />
@@ -86,7 +165,7 @@ export function DashboardPage() {
           <div className="flex items-start justify-between">
             <div>
               <p className="text-sm text-muted-foreground mb-1">Total Sessions</p>
-              <p className="text-2xl font-semibold text-foreground">47</p>
+              <p className="text-2xl font-semibold text-foreground">{visible.length}</p>
             </div>
             <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
               <Database className="w-5 h-5 text-primary" />
@@ -98,7 +177,13 @@ export function DashboardPage() {
           <div className="flex items-start justify-between">
             <div>
               <p className="text-sm text-muted-foreground mb-1">Avg Signal Noise</p>
-              <p className="text-2xl font-semibold text-foreground">±2.3 kPa</p>
+              <p className="text-2xl font-semibold text-foreground">
+                {summary.avgNoise === null
+                  ? '—'
+                  : unit === 'raw'
+                    ? `±${summary.avgNoise.toFixed(1)} counts`
+                    : `±${summary.avgNoise.toFixed(3)} ${unit}`}
+              </p>
             </div>
             <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
               <Signal className="w-5 h-5 text-primary" />
@@ -110,114 +195,194 @@ export function DashboardPage() {
       {/* Chart Section */}
       <Card className="p-6 bg-white border border-border shadow-sm mb-8">
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-xl font-semibold text-foreground">Historical Pressure Data</h2>
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Historical Pressure Data</h2>
+            {selected && (
+              <p className="text-sm text-muted-foreground">
+                Session #{selected.id} · {new Date(selected.startedAt).toLocaleString()}
+                {selected.activity && ` · ${selected.activity.description}`}
+              </p>
+            )}
+          </div>
           <div className="flex items-center gap-3">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={showRaw}
-                onChange={(e) => setShowRaw(e.target.checked)}
-                className="w-4 h-4 accent-primary"
-              />
-              <span className="text-sm text-foreground">Raw</span>
-            </label>
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={showFiltered}
-                onChange={(e) => setShowFiltered(e.target.checked)}
-                className="w-4 h-4 accent-primary"
-              />
-              <span className="text-sm text-foreground">Filtered</span>
-            </label>
+            <select
+              value={unit}
+              onChange={(e) => setUnit(e.target.value as PressureUnit)}
+              className="px-2 py-1 border border-border rounded-md text-sm"
+            >
+              {(Object.keys(UNIT_LABELS) as PressureUnit[]).map(u => (
+                <option key={u} value={u}>{UNIT_LABELS[u]}</option>
+              ))}
+            </select>
+            {unit === 'raw' && (
+              <>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showRaw}
+                    onChange={(e) => setShowRaw(e.target.checked)}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  <span className="text-sm text-foreground">Raw</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showFiltered}
+                    onChange={(e) => setShowFiltered(e.target.checked)}
+                    className="w-4 h-4 accent-primary"
+                  />
+                  <span className="text-sm text-foreground">Filtered</span>
+                </label>
+              </>
+            )}
+            <Button
+              onClick={() => selected && downloadSessionCsv(selected, unit)}
+              disabled={!selected}
+              className="bg-primary hover:bg-primary/90 text-white flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
           </div>
         </div>
 
-        <div className="h-96">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={historicalData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
-              <XAxis 
-                dataKey="time" 
-                stroke="#6B7280"
-                tick={{ fontSize: 12 }}
-                interval={9}
-              />
-              <YAxis 
-                stroke="#6B7280"
-                tick={{ fontSize: 12 }}
-                label={{ value: 'Pressure (kPa)', angle: -90, position: 'insideLeft', style: { fontSize: 12 } }}
-              />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: '#ffffff', 
-                  border: '1px solid #E5E7EB',
-                  borderRadius: '8px',
-                  boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
-                }}
-              />
-              <Legend />
-              {showRaw && (
-                <Line 
-                  type="monotone" 
-                  dataKey="rawPressure" 
-                  stroke="#B84A5D" 
-                  strokeWidth={1.5}
-                  dot={false}
-                  name="Raw Pressure"
-                />
-              )}
-              {showFiltered && (
-                <Line 
-                  type="monotone" 
-                  dataKey="filteredPressure" 
-                  stroke="#912335" 
-                  strokeWidth={2}
-                  dot={false}
-                  name="Filtered Pressure"
-                />
-              )}
-            </LineChart>
-          </ResponsiveContainer>
-        </div>
+        {selected ? (
+          <SessionChart sessionId={selected.id} showRaw={showRaw} showFiltered={showFiltered} unit={unit} height={384} />
+        ) : (
+          <div className="h-96 flex items-center justify-center text-sm text-muted-foreground">
+            {loading ? 'Loading sessions…' : (
+              <span>
+                No recorded sessions yet. Start one from <Link to="/live" className="text-primary underline">Live Measurement</Link>.
+              </span>
+            )}
+          </div>
+        )}
       </Card>
 
       {/* Sessions Section */}
       <Card className="p-6 bg-white border border-border shadow-sm">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-semibold text-foreground">Recent Sessions</h2>
-          <Button 
-            onClick={handleExportCSV}
-            className="bg-primary hover:bg-primary/90 text-white flex items-center gap-2"
-          >
-            <Download className="w-4 h-4" />
-            Export CSV
-          </Button>
+          <div className="flex items-center gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="flex items-center gap-2">
+                  <CalendarIcon className="w-4 h-4" />
+                  {rangeLabel}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={(range) => {
+                    setDateRange(range);
+                    setPage(0);
+                  }}
+                  numberOfMonths={2}
+                />
+              </PopoverContent>
+            </Popover>
+            {dateRange && (
+              <Button variant="ghost" size="icon" onClick={() => setDateRange(undefined)} title="Clear date filter">
+                <X className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
         </div>
 
+        {error && <p className="text-sm text-red-600 mb-4">Failed to load sessions: {error}</p>}
+
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
               <tr className="border-b border-border">
-                <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Session ID</th>
-                <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Start Time</th>
-                <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Duration</th>
-                <th className="text-left py-3 px-4 text-sm font-medium text-muted-foreground">Gain Value</th>
+                {COLUMNS.map(col => (
+                  <th
+                    key={col.key}
+                    onClick={() => handleSort(col.key)}
+                    className="text-left py-3 px-4 text-sm font-medium text-muted-foreground cursor-pointer select-none hover:text-foreground"
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {col.label}
+                      {sortKey === col.key && (sortAsc ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                    </span>
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody>
-              {mockSessions.map((session) => (
-                <tr key={session.id} className="border-b border-border hover:bg-secondary/50 transition-colors">
+              {pageRows.map((session) => (
+                <tr
+                  key={session.id}
+                  onClick={() => setSelectedId(session.id)}
+                  className={`border-b border-border hover:bg-secondary/50 transition-colors cursor-pointer ${
+                    selected?.id === session.id ? 'bg-secondary' : ''
+                  }`}
+                >
                   <td className="py-3 px-4 text-sm text-foreground">#{session.id}</td>
-                  <td className="py-3 px-4 text-sm text-foreground">{session.startTime}</td>
-                  <td className="py-3 px-4 text-sm text-foreground">{session.duration}</td>
-                  <td className="py-3 px-4 text-sm text-foreground">{session.gain}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">{new Date(session.startedAt).toLocaleString()}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">{sessionDuration(session)}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">{session.activity?.description ?? '—'}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">{session.sampleCount.toLocaleString()}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">{session.droppedFrames}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">{formatGain(session)}</td>
+                  <td className="py-3 px-4 text-sm text-foreground">
+                    {sessionStats(session, unit)?.noiseRms.toFixed(unit === 'raw' ? 1 : 3) ?? '—'}
+                  </td>
                 </tr>
               ))}
+              {!loading && pageRows.length === 0 && (
+                <tr>
+                  <td colSpan={COLUMNS.length} className="py-6 text-center text-sm text-muted-foreground">
+                    No sessions in this date range.
+                  </td>
+                </tr>
+              )}
             </tbody>
           </table>
         </div>
+
+        {pageCount > 1 && (
+          <Pagination className="mt-4">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(p => Math.max(0, p - 1));
+                  }}
+                />
+              </PaginationItem>
+              {Array.from({ length: pageCount }, (_, i) => (
+                <PaginationItem key={i}>
+                  <PaginationLink
+                    href="#"
+                    isActive={i === page}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(i);
+                    }}
+                  >
+                    {i + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage(p => Math.min(pageCount - 1, p + 1));
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
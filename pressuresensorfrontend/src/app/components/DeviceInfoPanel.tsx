@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import { Battery, BatteryFull, BatteryLow, BatteryMedium, RefreshCw } from 'lucide-react'
+import { LOW_BATTERY_PERCENT, isBatteryLow, type DeviceInfo } from '@/app/services/transports'
+import { formatDuration } from '@/app/services/sessionHelpers'
+
+/* =========================
+   Device info
+   Firmware, battery and link details of one connected sensor. Fields
+   the device never reported show as a dash.
+========================= */
+
+interface DeviceInfoPanelProps {
+  info: DeviceInfo
+  /** Last gain the device acknowledged */
+  deviceGain: number | null
+  connected: boolean
+  onRefresh: () => Promise<void>
+}
+
+export function BatteryIndicator({ info }: { info: DeviceInfo }) {
+  if (info.battery === null) return null
+
+  const low = isBatteryLow(info)
+  const Icon = low ? BatteryLow : info.battery >= 70 ? BatteryFull : info.battery >= 35 ? BatteryMedium : Battery
+
+  return (
+    <span
+      className={`flex items-center gap-0.5 text-xs ${low ? 'text-red-600 font-semibold' : 'text-gray-600'}`}
+      title={low ? `Battery at or below ${LOW_BATTERY_PERCENT}%` : 'Battery level'}
+    >
+      <Icon className="w-4 h-4" />
+      {info.battery}%
+    </span>
+  )
+}
+
+export default function DeviceInfoPanel({ info, deviceGain, connected, onRefresh }: DeviceInfoPanelProps) {
+  const [refreshing, setRefreshing] = useState(false)
+
+  const handleRefresh = async () => {
+    setRefreshing(true)
+    try {
+      await onRefresh()
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  const rows: [string, string][] = [
+    ['Firmware', info.firmware ?? '—'],
+    ['Battery', info.battery === null ? '—' : `${info.battery}%`],
+    ['Uptime', info.connectedAt === null ? '—' : formatDuration(Date.now() - info.connectedAt)],
+    ['Confirmed gain', deviceGain === null ? '—' : String(deviceGain)],
+    ['Reported via', info.source === 'gatt' ? 'BLE GATT services' : info.source === 'query' ? 'PS02 info query' : '—'],
+  ]
+
+  return (
+    <div className="text-xs space-y-1">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between">
+          <span className="text-gray-600">{label}</span>
+          <span className="font-medium">{value}</span>
+        </div>
+      ))}
+
+      {info.uuids.length > 0 && (
+        <div className="pt-1">
+          <p className="text-gray-600 mb-0.5">GATT UUIDs</p>
+          {info.uuids.map(({ role, uuid }) => (
+            <div key={role} className="flex items-center justify-between gap-2">
+              <span className="text-gray-500 shrink-0">{role}</span>
+              <span className="font-mono truncate" title={uuid}>{uuid}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleRefresh}
+        disabled={!connected || refreshing}
+        className="mt-1 flex items-center gap-1 px-2 py-0.5 border rounded-md hover:bg-gray-50 disabled:text-gray-300"
+      >
+        <RefreshCw className={`w-3 h-3 ${refreshing ? 'animate-spin' : ''}`} />
+        Refresh
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { Plus, Trash2 } from 'lucide-react'
+import type { RecordingEvent } from '@/app/services/markers'
+
+interface EventMarkersEditorProps {
+  events: RecordingEvent[]
+  onChange: (events: RecordingEvent[]) => void
+  /** Rows in the recording; markers must sit on one */
+  rowCount: number
+  /** Used to re-time a moved marker; null when unknown */
+  sampleRate: number | null
+}
+
+const inputClass = 'px-2 py-1 border rounded-md text-sm'
+
+export default function EventMarkersEditor({ events, onChange, rowCount, sampleRate }: EventMarkersEditorProps) {
+  const update = (position: number, patch: Partial<RecordingEvent>) => {
+    onChange(events.map((e, i) => (i === position ? { ...e, ...patch } : e)))
+  }
+
+  // Shift the recorded time by the distance moved, so it stays on the recording's time origin
+  const move = (position: number, index: number) => {
+    const event = events[position]
+    const clamped = Math.max(0, Math.min(rowCount - 1, Math.round(index)))
+    const time = sampleRate && event.time !== null ? event.time + (clamped - event.index) / sampleRate : null
+    update(position, { index: clamped, time })
+  }
+
+  const add = () => {
+    const last = events[events.length - 1]
+    const index = last ? Math.min(rowCount - 1, last.index + 1) : 0
+    const time = last?.time != null && sampleRate ? last.time + (index - last.index) / sampleRate : null
+    onChange([...events, { label: 'Marker', index, time }])
+  }
+
+  return (
+    <div className="space-y-2">
+      {events.length === 0 && <p className="text-sm text-muted-foreground">No markers in this session.</p>}
+
+      {events.map((event, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input
+            value={event.label}
+            onChange={e => update(i, { label: e.target.value })}
+            className={`${inputClass} flex-1`}
+            placeholder="Label"
+          />
+          <label className="flex items-center gap-1 text-xs text-muted-foreground">
+            Sample
+            <input
+              type="number"
+              min={0}
+              max={Math.max(0, rowCount - 1)}
+              value={event.index}
+              onChange={e => e.target.value !== '' && move(i, Number(e.target.value))}
+              className={`${inputClass} w-28`}
+            />
+          </label>
+          <span className="w-20 text-xs text-muted-foreground text-right">
+            {event.time === null ? '—' : `${event.time.toFixed(3)} s`}
+          </span>
+          <button
+            onClick={() => onChange(events.filter((_, j) => j !== i))}
+            className="p-1 text-red-600 hover:bg-red-50 rounded"
+            title="Remove marker"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={add}
+        disabled={rowCount === 0}
+        className="flex items-center gap-1 px-2 py-1 text-sm border rounded-md hover:bg-secondary/50 disabled:text-gray-300"
+      >
+        <Plus className="w-4 h-4" />
+        Add marker
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import {
+  FILTER_LABELS,
+  createFilterSpec,
+  type FilterSpec,
+  type FilterType,
+} from '@/app/services/dsp'
+
+interface FilterChainEditorProps {
+  filters: FilterSpec[]
+  onChange: (filters: FilterSpec[]) => void
+  sampleRate: number
+  onSampleRateChange?: (rate: number) => void
+}
+
+const inputClass = 'w-20 px-2 py-1 border rounded-md text-sm'
+
+export default function FilterChainEditor({
+  filters,
+  onChange,
+  sampleRate,
+  onSampleRateChange,
+}: FilterChainEditorProps) {
+  const update = (id: string, patch: Partial<FilterSpec>) => {
+    onChange(filters.map(f => (f.id === id ? ({ ...f, ...patch } as FilterSpec) : f)))
+  }
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= filters.length) return
+    const next = [...filters]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const renderParams = (f: FilterSpec) => {
+    switch (f.type) {
+      case 'lowpass':
+      case 'highpass':
+        return (
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Cutoff
+            <input
+              type="number"
+              min={0.01}
+              step={0.1}
+              value={f.cutoffHz}
+              onChange={e => Number(e.target.value) > 0 && update(f.id, { cutoffHz: Number(e.target.value) })}
+              className={inputClass}
+            />
+            Hz
+          </label>
+        )
+      case 'movingAverage':
+      case 'median':
+        return (
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            Window
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={f.window}
+              onChange={e => Number(e.target.value) >= 1 && update(f.id, { window: Math.round(Number(e.target.value)) })}
+              className={inputClass}
+            />
+            samples
+          </label>
+        )
+      case 'notch':
+        return (
+          <div className="flex items-center gap-3 text-xs text-gray-600">
+            <select
+              value={f.frequencyHz}
+              onChange={e => update(f.id, { frequencyHz: Number(e.target.value) as 50 | 60 })}
+              className="px-2 py-1 border rounded-md text-sm"
+            >
+              <option value={50}>50 Hz</option>
+              <option value={60}>60 Hz</option>
+            </select>
+            <label className="flex items-center gap-1">
+              Q
+              <input
+                type="number"
+                min={0.5}
+                step={1}
+                value={f.q}
+                onChange={e => Number(e.target.value) > 0 && update(f.id, { q: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-600">Sample rate</span>
+        <input
+          type="number"
+          min={1}
+          value={sampleRate}
+          disabled={!onSampleRateChange}
+          onChange={e => Number(e.target.value) > 0 && onSampleRateChange?.(Number(e.target.value))}
+          className="w-24 px-2 py-1 border rounded-md text-sm disabled:bg-gray-100"
+        />
+        <span className="text-gray-600">Hz</span>
+      </div>
+
+      {filters.length === 0 && (
+        <p className="text-sm text-gray-500">No filters — the filtered trace equals the raw signal.</p>
+      )}
+
+      {filters.map((f, index) => (
+        <div key={f.id} className="flex flex-wrap items-center gap-3 p-2 border rounded-md bg-gray-50">
+          <input
+            type="checkbox"
+            checked={f.enabled}
+            onChange={e => update(f.id, { enabled: e.target.checked })}
+            className="w-4 h-4"
+            title="Enable"
+          />
+          <span className="text-sm font-medium w-32">{FILTER_LABELS[f.type]}</span>
+          {renderParams(f)}
+          <div className="ml-auto flex items-center gap-1">
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="p-1 text-gray-600 disabled:text-gray-300">
+              <ArrowUp className="w-4 h-4" />
+            </button>
+            <button onClick={() => move(index, 1)} disabled={index === filters.length - 1} className="p-1 text-gray-600 disabled:text-gray-300">
+              <ArrowDown className="w-4 h-4" />
+            </button>
+            <button onClick={() => onChange(filters.filter(x => x.id !== f.id))} className="p-1 text-red-600">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Plus className="w-4 h-4 text-gray-600" />
+        <select
+          value=""
+          onChange={e => e.target.value && onChange([...filters, createFilterSpec(e.target.value as FilterType)])}
+          className="px-2 py-1 border rounded-md text-sm"
+        >
+          <option value="">Add filter…</option>
+          {(Object.keys(FILTER_LABELS) as FilterType[]).map(type => (
+            <option key={type} value={type}>{FILTER_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
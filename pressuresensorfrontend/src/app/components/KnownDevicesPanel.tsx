@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { Pencil, Plug, Trash2 } from 'lucide-react'
+import { displayName, type KnownDevice } from '@/app/services/knownDevices'
+
+interface KnownDevicesPanelProps {
+  devices: KnownDevice[]
+  /** Keys of the devices currently connected */
+  connectedKeys: string[]
+  lastKey: string | null
+  autoConnect: boolean
+  /** False where the browser can't list granted devices for this mode */
+  supported: boolean
+  busy: boolean
+  onConnect: (device: KnownDevice) => void
+  onLabel: (device: KnownDevice, label: string) => void
+  onForget: (device: KnownDevice) => void
+  onAutoConnectChange: (autoConnect: boolean) => void
+}
+
+const inputClass = 'px-2 py-1 border rounded-md text-sm'
+
+export default function KnownDevicesPanel({
+  devices,
+  connectedKeys,
+  lastKey,
+  autoConnect,
+  supported,
+  busy,
+  onConnect,
+  onLabel,
+  onForget,
+  onAutoConnectChange,
+}: KnownDevicesPanelProps) {
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+
+  if (!supported) {
+    return <p className="text-xs text-gray-500">This browser can't list previously paired devices.</p>
+  }
+
+  const startEdit = (device: KnownDevice) => {
+    setEditing(device.key)
+    setDraft(device.label)
+  }
+
+  const commitEdit = (device: KnownDevice) => {
+    onLabel(device, draft)
+    setEditing(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      {devices.length === 0 ? (
+        <p className="text-xs text-gray-500">No remembered devices yet. Connect one with the picker first.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {devices.map(device => (
+            <li key={device.key} className="flex items-center gap-2 px-2 py-1.5">
+              <div className="flex-1 min-w-0">
+                {editing === device.key ? (
+                  <input
+                    autoFocus
+                    value={draft}
+                    placeholder={device.name}
+                    onChange={e => setDraft(e.target.value)}
+                    onBlur={() => commitEdit(device)}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitEdit(device)
+                      if (e.key === 'Escape') setEditing(null)
+                    }}
+                    className={`${inputClass} w-full`}
+                  />
+                ) : (
+                  <>
+                    <p className="text-sm font-medium truncate">
+                      {displayName(device)}
+                      {device.key === lastKey && <span className="ml-1 text-xs text-gray-500">(last used)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {device.handle.mode.toUpperCase()}
+                      {device.label && ` · ${device.name}`}
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <button onClick={() => startEdit(device)} className="p-1 text-gray-500 hover:text-gray-800" title="Rename">
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Forget ${displayName(device)}? The browser will ask for permission again next time.`)) {
+                    onForget(device)
+                  }
+                }}
+                disabled={connectedKeys.includes(device.key)}
+                className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-40"
+                title="Forget"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+              {connectedKeys.includes(device.key) ? (
+                <span className="text-xs text-green-600 w-16 text-center">Connected</span>
+              ) : (
+                <button
+                  onClick={() => onConnect(device)}
+                  disabled={busy}
+                  className="flex items-center gap-1 px-2 py-1 text-xs text-white rounded disabled:bg-gray-300"
+                  style={{ backgroundColor: busy ? undefined : '#912335' }}
+                >
+                  <Plug className="w-3 h-3" />
+                  Connect
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoConnect}
+          onChange={e => onAutoConnectChange(e.target.checked)}
+          className="w-4 h-4"
+        />
+        Reconnect to the last-used device on startup
+      </label>
+    </div>
+  )
+}
@@ -0,0 +1,339 @@
+import { useEffect, useRef } from 'react'
+import type { SampleRingBuffer } from '@/app/services/sampleBuffer'
+import type { LiveMarker } from '@/app/services/markers'
+
+/* =========================
+   Canvas live chart
+   Draws straight from the sample ring buffer once per animation
+   frame. Each pixel column is reduced to the min/max of the samples
+   it covers, so cost tracks canvas width, not visible sample count.
+   Lost samples are NaN rows and leave a break in the trace; samples
+   at an ADC rail are shaded so saturation stands out, and event
+   markers are drawn as labelled vertical lines. Several
+   traces (one per sensor) share the sample axis, started together.
+========================= */
+
+export type ChartXAxis = 'samples' | 'seconds'
+
+export interface ChartTrace {
+  buffer: SampleRingBuffer
+  color: string
+  /** Maps tared counts (and the baseline they were tared by) to display units */
+  transform?: ((value: number, baseline: number | null) => number) | null
+  /** At absolute sample indices of this trace's buffer */
+  markers?: LiveMarker[]
+}
+
+interface LiveCanvasChartProps {
+  traces: ChartTrace[]
+  /** Visible width in samples */
+  span: number
+  /** Absolute sample index at the right edge, or null to follow live data */
+  end: number | null
+  /** Y range in display units */
+  yDomain: [number, number]
+  yLabel: string
+  showFiltered: boolean
+  xAxis: ChartXAxis
+  /** Used to place time ticks outside the held samples */
+  sampleRate: number
+}
+
+const PAD = { left: 64, right: 12, top: 10, bottom: 36 }
+const GRID = '#e5e7eb'
+const AXIS = '#374151'
+const GAP = '#dc2626'
+const CLIPPED = 'rgba(245, 158, 11, 0.2)'
+const MARKER = '#7c3aed'
+const FILTERED = '#912335'
+const FONT = '12px sans-serif'
+
+/** Right edge of the view when following live data */
+export const liveViewEnd = (buffers: SampleRingBuffer[], span: number) =>
+  Math.max(span, ...buffers.map(buffer => buffer.written))
+
+/** The buffer furthest ahead; it times the x axis */
+const leadBuffer = (traces: ChartTrace[]) =>
+  traces.reduce<SampleRingBuffer | null>((lead, t) => (!lead || t.buffer.written > lead.written ? t.buffer : lead), null)
+
+const formatTick = (v: number, step: number) =>
+  Math.abs(step) >= 1 ? String(Math.round(v)) : String(+v.toPrecision(4))
+
+export default function LiveCanvasChart(props: LiveCanvasChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const propsRef = useRef(props)
+  propsRef.current = props
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    let frameId = 0
+    let drawnKey = ''
+    let width = 0
+    let height = 0
+
+    const resize = () => {
+      const rect = canvas.getBoundingClientRect()
+      const dpr = window.devicePixelRatio || 1
+      width = rect.width
+      height = rect.height
+      canvas.width = Math.round(width * dpr)
+      canvas.height = Math.round(height * dpr)
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+      drawnKey = ''
+    }
+
+    const observer = new ResizeObserver(resize)
+    observer.observe(canvas)
+    resize()
+
+    const draw = () => {
+      frameId = requestAnimationFrame(draw)
+
+      const { traces, span, end, yDomain, yLabel, showFiltered, xAxis, sampleRate } = propsRef.current
+      const traceKey = traces
+        .map(t => `${t.buffer.version}:${t.color}:${t.transform ? 1 : 0}:${t.markers?.length ?? 0}`)
+        .join(',')
+      const key = `${traceKey}|${span}|${end}|${yDomain}|${yLabel}|${showFiltered}|${xAxis}|${sampleRate}|${width}x${height}`
+      if (key === drawnKey) return
+      drawnKey = key
+
+      const plotW = Math.max(1, width - PAD.left - PAD.right)
+      const plotH = Math.max(1, height - PAD.top - PAD.bottom)
+      const [yMin, yMax] = yDomain
+      const xEnd = end ?? liveViewEnd(traces.map(t => t.buffer), span)
+      const xStart = xEnd - span
+
+      const toX = (idx: number) => PAD.left + ((idx - xStart) / span) * plotW
+      const toY = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * plotH
+
+      // Sample time in seconds, extrapolated past either end of the lead buffer
+      const lead = leadBuffer(traces)
+      const leadFirst = lead ? lead.written - lead.length : 0
+      const leadTime = (idx: number) => lead!.time[lead!.slot(idx - leadFirst)]
+      const period =
+        lead && lead.length > 1
+          ? (leadTime(lead.written - 1) - leadTime(leadFirst)) / (lead.length - 1)
+          : 1 / sampleRate
+      const timeAt = (idx: number) => {
+        if (!lead || lead.length === 0) return idx * period
+        const clamped = Math.min(lead.written - 1, Math.max(leadFirst, Math.round(idx)))
+        return leadTime(clamped) + (idx - clamped) * period
+      }
+
+      ctx.clearRect(0, 0, width, height)
+      ctx.font = FONT
+      ctx.lineWidth = 1
+
+      // Grid and tick labels
+      ctx.strokeStyle = GRID
+      ctx.fillStyle = AXIS
+      ctx.beginPath()
+      const xStep = span / 10
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'top'
+      for (let i = 0; i <= 10; i++) {
+        const x = PAD.left + (i / 10) * plotW
+        ctx.moveTo(x, PAD.top)
+        ctx.lineTo(x, PAD.top + plotH)
+        const label =
+          xAxis === 'seconds'
+            ? formatTick(timeAt(xStart + xStep * i), xStep * period)
+            : formatTick(xStart + xStep * i, xStep)
+        ctx.fillText(label, x, PAD.top + plotH + 4)
+      }
+      const yStep = (yMax - yMin) / 4
+      ctx.textAlign = 'right'
+      ctx.textBaseline = 'middle'
+      for (let i = 0; i <= 4; i++) {
+        const y = PAD.top + (1 - i / 4) * plotH
+        ctx.moveTo(PAD.left, y)
+        ctx.lineTo(PAD.left + plotW, y)
+        ctx.fillText(formatTick(yMin + yStep * i, yStep), PAD.left - 6, y)
+      }
+      ctx.stroke()
+
+      ctx.strokeStyle = AXIS
+      ctx.strokeRect(PAD.left, PAD.top, plotW, plotH)
+
+      ctx.save()
+      ctx.font = `bold ${FONT}`
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'alphabetic'
+      ctx.fillText(xAxis === 'seconds' ? 'Time (s)' : 'Point', PAD.left + plotW / 2, height - 4)
+      ctx.translate(14, PAD.top + plotH / 2)
+      ctx.rotate(-Math.PI / 2)
+      ctx.fillText(yLabel, 0, 0)
+      ctx.restore()
+
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(PAD.left, PAD.top, plotW, plotH)
+      ctx.clip()
+
+      const perPixel = span / plotW
+
+      // Clipped stretches, behind every trace
+      ctx.fillStyle = CLIPPED
+      for (const { buffer } of traces) {
+        const first = buffer.written - buffer.length
+        const from = Math.max(first, Math.floor(xStart))
+        const to = Math.min(buffer.written, Math.ceil(xEnd) + 1)
+
+        let run = -1
+        for (let idx = from; idx <= to; idx++) {
+          const clipped = idx < to && buffer.clipped[buffer.slot(idx - first)] === 1
+          if (clipped && run < 0) run = idx
+          if (clipped || run < 0) continue
+          ctx.fillRect(toX(run), PAD.top, Math.max(1, toX(idx) - toX(run)), plotH)
+          run = -1
+        }
+      }
+
+      for (const { buffer, color, transform } of traces) {
+        // Visible part of what the buffer still holds
+        const first = buffer.written - buffer.length
+        const from = Math.max(first, Math.floor(xStart))
+        const to = Math.min(buffer.written, Math.ceil(xEnd) + 1)
+        if (to <= from) continue
+
+        const slotOf = (idx: number) => buffer.slot(idx - first)
+
+        const valueAt = (channel: Float32Array, slot: number) => {
+          const v = channel[slot]
+          if (!transform) return v
+          const b = buffer.baseline[slot]
+          return transform(v, Number.isNaN(b) ? null : b)
+        }
+
+        // Lost frames
+        ctx.strokeStyle = GAP
+        ctx.lineWidth = 1
+        ctx.setLineDash([4, 2])
+        ctx.beginPath()
+        for (let idx = from; idx < to; idx++) {
+          if (buffer.lostBefore[slotOf(idx)] > 0) {
+            const x = toX(idx)
+            ctx.moveTo(x, PAD.top)
+            ctx.lineTo(x, PAD.top + plotH)
+          }
+        }
+        ctx.stroke()
+        ctx.setLineDash([])
+
+        const drawTrace = (channel: Float32Array, color: string, lineWidth: number, dots: boolean) => {
+          ctx.strokeStyle = color
+          ctx.lineWidth = lineWidth
+          ctx.beginPath()
+
+          if (perPixel <= 1) {
+            let penDown = false
+            for (let idx = from; idx < to; idx++) {
+              const slot = slotOf(idx)
+              if (Number.isNaN(channel[slot])) {
+                penDown = false
+                continue
+              }
+              const x = toX(idx)
+              const y = toY(valueAt(channel, slot))
+              if (penDown) ctx.lineTo(x, y)
+              else ctx.moveTo(x, y)
+              penDown = true
+            }
+            ctx.stroke()
+
+            if (dots) {
+              ctx.fillStyle = color
+              for (let idx = from; idx < to; idx++) {
+                const slot = slotOf(idx)
+                if (Number.isNaN(channel[slot])) continue
+                ctx.beginPath()
+                ctx.arc(toX(idx), toY(valueAt(channel, slot)), 2, 0, Math.PI * 2)
+                ctx.fill()
+              }
+            }
+            return
+          }
+
+          // Min/max per pixel column
+          let started = false
+          for (let px = 0; px < plotW; px++) {
+            const a = Math.max(from, Math.floor(xStart + px * perPixel))
+            const b = Math.min(to, Math.floor(xStart + (px + 1) * perPixel))
+            if (b <= a) continue
+
+            let lo = -1
+            let hi = -1
+            for (let idx = a; idx < b; idx++) {
+              const slot = slotOf(idx)
+              const v = channel[slot]
+              if (Number.isNaN(v)) continue
+              if (lo < 0 || v < channel[lo]) lo = slot
+              if (hi < 0 || v > channel[hi]) hi = slot
+            }
+            // Column lies entirely inside a gap
+            if (lo < 0) {
+              started = false
+              continue
+            }
+
+            const x = PAD.left + px + 0.5
+            const y1 = toY(valueAt(channel, lo))
+            const y2 = toY(valueAt(channel, hi))
+            if (!started) {
+              ctx.moveTo(x, y1)
+              started = true
+            } else {
+              ctx.lineTo(x, y1)
+            }
+            ctx.lineTo(x, y2)
+          }
+          ctx.stroke()
+        }
+
+        // With filtering shown, raw fades behind it; a lone sensor keeps the brand colour for filtered
+        ctx.globalAlpha = showFiltered ? 0.4 : 1
+        drawTrace(buffer.raw, color, 1, span < 150)
+        ctx.globalAlpha = 1
+        if (showFiltered) drawTrace(buffer.filtered, traces.length === 1 ? FILTERED : color, 1.5, false)
+      }
+
+      // Markers, over the traces; sensors marked together share one label
+      ctx.strokeStyle = MARKER
+      ctx.fillStyle = MARKER
+      ctx.lineWidth = 1.5
+      ctx.textAlign = 'left'
+      ctx.textBaseline = 'top'
+      const labelled = new Set<string>()
+      for (const { markers } of traces) {
+        for (const { index, label } of markers ?? []) {
+          if (index < xStart || index > xEnd) continue
+          const x = Math.round(toX(index)) + 0.5
+          ctx.beginPath()
+          ctx.moveTo(x, PAD.top)
+          ctx.lineTo(x, PAD.top + plotH)
+          ctx.stroke()
+
+          const key = `${Math.round(x / 4)}:${label}`
+          if (labelled.has(key)) continue
+          labelled.add(key)
+          ctx.fillText(label, x + 3, PAD.top + 2)
+        }
+      }
+
+      ctx.restore()
+    }
+
+    frameId = requestAnimationFrame(draw)
+
+    return () => {
+      cancelAnimationFrame(frameId)
+      observer.disconnect()
+    }
+  }, [])
+
+  return <canvas ref={canvasRef} className="w-full h-full block" />
+}
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fireEvent, render, screen, waitFor } from '@testing-library/react'
+import { installFakeSerial, type FakeSerialPort } from '@/test/fakeSerial'
+import { installFakeDirectoryPicker, type FakeDirectory } from '@/test/fakeDirectory'
+
+/*
+ * The acquisition store is a module singleton that picks the default
+ * connection mode on import, so each test installs its fakes first and
+ * then loads a fresh copy of the page.
+ */
+async function renderPage() {
+  const { default: LiveMeasurementPage } = await import('./LiveMeasurementPage')
+  render(<LiveMeasurementPage />)
+}
+
+describe('LiveMeasurementPage', () => {
+  let port: FakeSerialPort
+  let folder: FakeDirectory
+
+  beforeEach(() => {
+    vi.resetModules()
+    port = installFakeSerial()
+    folder = installFakeDirectoryPicker()
+    // No IndexedDB here; recordings only go to CSV
+    Reflect.deleteProperty(window, 'indexedDB')
+  })
+
+  it('connects to a serial device and confirms a gain change', async () => {
+    await renderPage()
+
+    fireEvent.click(screen.getByRole('button', { name: /Connect/ }))
+    await screen.findByText('Connected')
+
+    fireEvent.change(screen.getByTitle('Gain (0–15)'), { target: { value: '15' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Gain' }))
+
+    await screen.findByText('✅ Gain 15 confirmed by device')
+    expect(port.replay.sent).toEqual(['I0', 'GF'])
+  })
+
+  it('rejects a gain outside 0–15 without writing to the device', async () => {
+    await renderPage()
+
+    fireEvent.click(screen.getByRole('button', { name: /Connect/ }))
+    await screen.findByText('Connected')
+
+    fireEvent.change(screen.getByTitle('Gain (0–15)'), { target: { value: '16' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Gain' }))
+
+    await screen.findByText('Gain must be an integer between 0 and 15')
+    expect(port.replay.sent).not.toContain('G10')
+  })
+
+  it('streams, stops and saves the recording as CSV', async () => {
+    await renderPage()
+
+    fireEvent.click(screen.getByRole('button', { name: /Connect/ }))
+    await waitFor(() => expect(port.replay.sent).toEqual(['I0']))
+
+    fireEvent.click(screen.getByLabelText('Record CSV while streaming'))
+    fireEvent.click(screen.getByRole('button', { name: /Select Save Folder/ }))
+    await screen.findByRole('button', { name: /Change Folder/ })
+
+    fireEvent.change(screen.getByTitle('Gain (0–15)'), { target: { value: '5' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Start' }))
+
+    await waitFor(() => expect(port.replay.sent).toEqual(['I0', 'G5', 'S0']))
+    await screen.findByText(/Serial streaming started/)
+
+    // Hotkey 1 drops the first preset marker
+    fireEvent.keyDown(window, { key: '1' })
+    await screen.findByText(/Marker "Start rep"/)
+
+    // Let the ten replayed frames through before stopping
+    await new Promise(resolve => setTimeout(resolve, 100))
+    fireEvent.click(screen.getByRole('button', { name: /Stop/ }))
+    await waitFor(() => expect(port.replay.sent.at(-1)).toBe('B0'))
+
+    await waitFor(() => expect(folder.files.size).toBe(2))
+    const filename = [...folder.files.keys()].find(name => name.endsWith('.csv'))!
+    const metadata = JSON.parse(folder.text(filename.replace(/\.csv$/, '.json')))
+    expect(metadata.device.firmware).toBe('1.2.0')
+    expect(metadata.events).toHaveLength(1)
+    expect(metadata.events[0].label).toBe('Start rep')
+
+    await waitFor(() => expect(folder.text(filename).trim().split('\n')).toHaveLength(361))
+    const [header, ...rows] = folder.text(filename).trim().split('\n')
+    expect(header).toBe('index,time_s,raw,filtered,baseline,marker')
+    // The first recorded frame is the golden one
+    expect(rows.slice(0, 8).map(row => Number(row.split(',')[2]))).toEqual([0, 0, -1, -2048, 2047, 2047, 308, 530])
+    // The marker sits on the row its event points at
+    expect(rows.filter(row => row.endsWith(',Start rep')).map(row => Number(row.split(',')[0]))).toEqual([
+      metadata.events[0].index,
+    ])
+  })
+})
@@ -1,108 +1,66 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { Play, Square, FolderOpen, Plus } from 'lucide-react'
+import type { ConnectionMode, SimulatorOptions } from '@/app/services/transports'
+import FilterChainEditor from '@/app/components/FilterChainEditor'
+import LiveCanvasChart, { liveViewEnd, type ChartTrace, type ChartXAxis } from '@/app/components/LiveCanvasChart'
+import CalibrationWizard from '@/app/components/CalibrationWizard'
+import KnownDevicesPanel from '@/app/components/KnownDevicesPanel'
+import ProtocolConsole from '@/app/components/ProtocolConsole'
+import SensorCard from '@/app/components/SensorCard'
+import { UNIT_LABELS, createPressureConverter, type PressureUnit } from '@/app/services/calibration'
+import { isSessionStoreSupported } from '@/app/services/sessionStore'
+import { HISTORY_SAMPLES, type SensorChannel } from '@/app/services/sensorChannel'
+import { modeSupport, useAcquisition, useStreamStats } from '@/app/services/acquisitionStore'
 import {
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  ResponsiveContainer,
-} from 'recharts'
-import {
-  Play,
-  Square,
-  Send,
-  Usb,
-  Bluetooth,
-  Wifi,
-  WifiOff,
-  FolderOpen,
-} from 'lucide-react'
+  displayName,
+  forgetDevice,
+  getAutoConnect,
+  getLastDeviceKey,
+  isDeviceListSupported,
+  listKnownDevices,
+  setAutoConnect,
+  setDeviceLabel,
+  type KnownDevice,
+} from '@/app/services/knownDevices'
+import { loadMarkerLabels, parseMarkerLabels, saveMarkerLabels } from '@/app/services/markers'
 
 /* =========================
    Types
 ========================= */
 
-type ConnectionMode = 'serial' | 'bluetooth'
 type DisplayMode = 'raw' | 'filtered'
-type ConnStatus = 'disconnected' | 'connected' | 'error'
-
-interface LivePoint {
-  x: number
-  raw: number
-  filtered: number
-  seq?: number
-}
-
-interface LogEntry {
-  timestamp: string
-  type: 'info' | 'command' | 'response' | 'error' | 'warning'
-  message: string
-}
 
 /* =========================
    CONSTANTS
 ========================= */
 
-const MAX_PLOT = 2000
-const BLE_SERVICE_UUID = "6e400001-b5a3-f393-e0a9-e50e24dcca9e"
-const BLE_RX_CHAR_UUID = "6e400003-b5a3-f393-e0a9-e50e24dcca9e"
-const BLE_TX_CHAR_UUID = "6e400002-b5a3-f393-e0a9-e50e24dcca9e"
+const DEFAULT_VIEW_SPAN = 2000
+/** Window averaged for each calibration capture */
+const CAPTURE_SECONDS = 0.5
 
 /* =========================
    Component
+   Sensors, settings, log and recording live in the acquisition store,
+   so streaming carries on while this page is unmounted. Only view
+   state (chart pan/zoom, open panels) is kept here.
 ========================= */
 
 export default function LiveMeasurementPage() {
-  const [mode, setMode] = useState<ConnectionMode>('serial')
-  const [displayMode, setDisplayMode] = useState<DisplayMode>('raw')
-  const [gainValue, setGainValue] = useState<string>('15')
+  const acquisition = useAcquisition()
+  const { channels, logs, settings, activity } = acquisition
+  const { filterSpecs, filterSampleRate, baselineOptions, simOptions, unit, saveSession, sessionNotes, csvEnabled } = settings
+  const csvDir = acquisition.folderHandle?.name ?? ''
 
-  const [isRunning, setIsRunning] = useState(false)
-  const [liveData, setLiveData] = useState<LivePoint[]>([])
-  const [connStatus, setConnStatus] = useState<ConnStatus>('disconnected')
+  const [displayMode, setDisplayMode] = useState<DisplayMode>('raw')
 
-  const [logs, setLogs] = useState<LogEntry[]>([])
   const logEndRef = useRef<HTMLDivElement>(null)
   const logContainerRef = useRef<HTMLDivElement>(null)
 
-  const [zoomRange, setZoomRange] = useState(2000)
-  const [xStart, setXStart] = useState(0)
-  const [yShift, setYShift] = useState(0)
-  const [yZoom, setYZoom] = useState(4200)
-
-  // Device refs
-  const serialPortRef = useRef<SerialPort | null>(null)
-  const serialReaderRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null)
-  const bleDeviceRef = useRef<any>(null)
-  const streamingRef = useRef(false)
-  const bleHandlerRef = useRef<any>(null)
-
-  // CSV with folder handle
-  const [csvEnabled, setCsvEnabled] = useState(false)
-  const [csvDir, setCsvDir] = useState<string>('')
-  const [folderHandle, setFolderHandle] = useState<FileSystemDirectoryHandle | null>(null)
-  const csvDataRef = useRef<number[]>([])
-
-  const lastMouseRef = useRef<{ x: number; y: number } | null>(null)
-
   // Check browser support
-  const supportsWebSerial = 'serial' in navigator
-  const supportsWebBluetooth = 'bluetooth' in navigator
-
-  /* =========================
-     Helper functions
-  ========================= */
-
-  const addLog = (type: LogEntry['type'], message: string) => {
-    setLogs(prev => [
-      ...prev,
-      {
-        timestamp: new Date().toLocaleTimeString(),
-        type,
-        message,
-      },
-    ])
-  }
+  const modeSupported = modeSupport()
+  const supportsWebSerial = modeSupported.serial
+  const supportsWebUSB = modeSupported.usb
+  const supportsWebBluetooth = modeSupported.bluetooth
 
   useEffect(() => {
     const container = logContainerRef.current
@@ -115,685 +73,129 @@ export default function LiveMeasurementPage() {
     }
   }, [logs])
 
-  /* =========================
-     DECODING FUNCTIONS
-  ========================= */
-
-  const decodeHexToSamples = (hexString: string): number[] => {
-    const bytes = []
-    for (let i = 0; i < hexString.length; i += 2) {
-      bytes.push(parseInt(hexString.substr(i, 2), 16))
-    }
-    return decodeBytesToSamples(new Uint8Array(bytes))
-  }
-
-  const decodeBytesToSamples = (bytes: Uint8Array): number[] => {
-    const samples: number[] = []
-    for (let i = 0; i < 54; i += 3) {
-      const b0 = bytes[i]
-      const b1 = bytes[i + 1]
-      const b2 = bytes[i + 2]
-
-      const v1 = (((b2 << 4) & 0x0F00) | b0) - 2048
-      const v2 = (((b2 << 8) & 0x0F00) | b1) - 2048
-      
-      samples.push(v1)
-      samples.push(v2)
-    }
-    return samples
-  }
-
-  /* =========================
-     WEB SERIAL API CONNECTION
-  ========================= */
+  const isRunning = acquisition.isRunning
+  const connectedKeys = acquisition.connectedKeys
 
-  const connectSerial = async () => {
-    try {
-      if (!('serial' in navigator)) {
-        addLog('error', 'Web Serial API not supported')
-        return
-      }
-
-      // Cleanup previous port
-      if (serialPortRef.current) {
-        try {
-          streamingRef.current = false
-          if (serialReaderRef.current) {
-            await serialReaderRef.current.cancel()
-            serialReaderRef.current = null
-          }
-          await serialPortRef.current.close()
-        } catch {}
-        serialPortRef.current = null
-      }
-
-      addLog('info', 'Requesting serial port...')
-      const port = await navigator.serial.requestPort()
-
-      await port.open({
-        baudRate: 115200,
-        dataBits: 8,
-        stopBits: 1,
-        parity: 'none',
-        flowControl: 'none',
-      })
-
-      serialPortRef.current = port
-      setConnStatus('connected')
-      addLog('info', '✅ Serial port connected')
-    } catch (err: any) {
-      addLog('error', `Serial connect failed: ${err.message}`)
-      setConnStatus('error')
-    }
-  }
-
-
-  const startSerialStreaming = async () => {
-    const port = serialPortRef.current
-    if (!port || !port.writable) {
-      addLog('error', 'Serial port not writable')
-      return
-    }
-
-    try {
-      const encoder = new TextEncoder()
-      const writer = port.writable.getWriter()
-
-      // 🔑 SET GAIN FIRST
-      const gain = Number(gainValue)
-      const gainHex = gain.toString(16).toUpperCase()
-      await writer.write(encoder.encode(`G${gainHex}\r\n`))
-      addLog('info', `🎚 Serial gain set to ${gain}`)
-
-      // small delay (important for MCU)
-      await new Promise(r => setTimeout(r, 30))
-
-      // ▶️ START STREAM
-      await writer.write(encoder.encode('S0\r\n'))
-      writer.releaseLock()
-
-      streamingRef.current = true
-      setIsRunning(true)
-      addLog('info', '📡 Serial streaming started')
-
-      readSerialData()
-    } catch (err: any) {
-      addLog('error', `Serial start failed: ${err.message}`)
-      streamingRef.current = false
-      setIsRunning(false)
-    }
-  }
+  // Previously granted ports/devices
+  const [knownDevices, setKnownDevices] = useState<KnownDevice[]>([])
+  const [lastDeviceKey, setLastDeviceKey] = useState(getLastDeviceKey)
+  const [autoConnect, setAutoConnectState] = useState(getAutoConnect)
 
+  const [calibrationChannelId, setCalibrationChannelId] = useState(1)
 
+  const [showConsole, setShowConsole] = useState(false)
+  const [consoleChannelId, setConsoleChannelId] = useState(1)
 
-  const readSerialData = async () => {
-    const port = serialPortRef.current
-    if (!port || !port.readable) {
-      addLog('error', 'Serial port not readable')
-      return
-    }
-
-    if (serialReaderRef.current) return
-
-    const reader = port.readable.getReader()
-    serialReaderRef.current = reader
-
-    const decoder = new TextDecoder()
-    let buffer = ''
-
-    try {
-      while (streamingRef.current) {
-        const { value, done } = await reader.read()
-        if (done) break
-
-        if (value) {
-          buffer += decoder.decode(value, { stream: true })
-
-          let idx
-          while ((idx = buffer.indexOf('\n')) >= 0) {
-            const line = buffer.slice(0, idx).trim()
-            buffer = buffer.slice(idx + 1)
-
-            const match = line.match(/^([0-9A-Fa-f]+):([0-9A-Fa-f]{108})$/)
-            if (!match) continue
-
-            const seq = parseInt(match[1], 16) & 0xff
-            const samples = decodeHexToSamples(match[2])
-
-            setLiveData(prev => {
-              let next = [...prev]
-              for (const s of samples) {
-                next.push({ x: 0, raw: s, filtered: s, seq })
-              }
-              if (next.length > MAX_PLOT) {
-                next = next.slice(next.length - MAX_PLOT)
-              }
-              return next.map((p, i) => ({ ...p, x: i }))
-            })
-          }
-        }
-      }
-    } catch (err: any) {
-      addLog('error', `Serial read error: ${err.message}`)
-    } finally {
-      reader.releaseLock()
-      serialReaderRef.current = null
-    }
-  }
-
-
-  const stopSerialStreaming = async () => {
-    const port = serialPortRef.current
-    if (!port || !port.writable) return
-
-    try {
-      streamingRef.current = false
-
-      if (serialReaderRef.current) {
-        await serialReaderRef.current.cancel()
-        serialReaderRef.current = null
-      }
-
-      await new Promise(r => setTimeout(r, 100))
-
-      const encoder = new TextEncoder()
-      const writer = port.writable.getWriter()
-
-      await writer.write(encoder.encode('B0\r\n'))
-      writer.releaseLock()
-
-      setIsRunning(false)
-      addLog('info', '🛑 Serial streaming stopped')
-    } catch (err: any) {
-      addLog('error', `Serial stop error: ${err.message}`)
-    }
-  }
-
-
-  const setSerialGain = async (newGain: number) => {
-    const port = serialPortRef.current
-    if (!port || !port.writable) {
-      addLog('error', 'Serial port not writable')
-      return
-    }
-
-    try {
-      const encoder = new TextEncoder()
-      const gainHex = newGain.toString(16).toUpperCase()
-
-      const writer = port.writable.getWriter()
-      await writer.write(encoder.encode(`G${gainHex}\r\n`))
-      writer.releaseLock()
-
-      addLog('info', `🎚 Serial gain set to ${newGain}`)
-    } catch (err: any) {
-      addLog('error', `Serial gain error: ${err.message}`)
-    }
-  }
+  const [zoomRange, setZoomRange] = useState(DEFAULT_VIEW_SPAN)
+  // Right edge of the chart in samples; null follows live data
+  const [viewEnd, setViewEnd] = useState<number | null>(null)
+  const chartAreaRef = useRef<HTMLDivElement>(null)
+  const [yShift, setYShift] = useState(0)
+  const [yZoom, setYZoom] = useState(4200)
+  const [xAxis, setXAxis] = useState<ChartXAxis>('samples')
 
+  const lastMouseRef = useRef<{ x: number; y: number } | null>(null)
 
   /* =========================
-     BLUETOOTH CONNECTION
+     STATUS REFRESH
+     Samples never touch React state; the chart draws them straight
+     from the ring buffers and readouts follow the store's throttled
+     stream updates.
   ========================= */
 
-  const connectBLE = async () => {
-    try {
-      if (!supportsWebBluetooth) {
-        addLog('error', 'Web Bluetooth not supported. Use Chrome/Edge/Opera with HTTPS')
-        return
-      }
-
-      // Cleanup existing connection
-      if (bleDeviceRef.current) {
-        try {
-          streamingRef.current = false
-          
-          if (bleHandlerRef.current && bleDeviceRef.current.rxChar) {
-            bleDeviceRef.current.rxChar.removeEventListener('characteristicvaluechanged', bleHandlerRef.current)
-            bleHandlerRef.current = null
-          }
-          
-          if (bleDeviceRef.current.rxChar) {
-            try {
-              await bleDeviceRef.current.rxChar.stopNotifications()
-            } catch (e) {
-              // May already be stopped
-            }
-          }
-          
-          if (bleDeviceRef.current.server && bleDeviceRef.current.server.connected) {
-            bleDeviceRef.current.server.disconnect()
-          }
-          
-          addLog('info', 'Disconnected previous BLE device')
-          await new Promise(r => setTimeout(r, 500))
-        } catch (e) {
-          console.log('Previous BLE device cleanup:', e)
-        }
-        bleDeviceRef.current = null
-      }
-
-      addLog('info', 'Requesting Bluetooth device...')
-
-      const device = await navigator.bluetooth.requestDevice({
-        filters: [{ namePrefix: 'PS02' }],
-        optionalServices: [BLE_SERVICE_UUID]
-      })
-
-      addLog('info', `Device selected: ${device.name || 'Unknown'}`)
-
-      // Set up disconnect handler
-      const disconnectHandler = () => {
-        addLog('warning', '⚠️ BLE device disconnected unexpectedly')
-        setConnStatus('disconnected')
-        streamingRef.current = false
-        setIsRunning(false)
-        
-        if (bleDeviceRef.current) {
-          bleDeviceRef.current.server = null
-        }
-      }
-      
-      device.addEventListener('gattserverdisconnected', disconnectHandler)
-
-      // Connect to GATT server with retry logic
-      addLog('info', 'Connecting to GATT server...')
-      let server: BluetoothRemoteGATTServer | null = null
-      let connectAttempts = 0
-      const maxConnectAttempts = 3
-
-      while (!server && connectAttempts < maxConnectAttempts) {
-        try {
-          server = await device.gatt!.connect()
-          addLog('info', '✅ GATT server connected')
-        } catch (err: any) {
-          connectAttempts++
-          if (connectAttempts < maxConnectAttempts) {
-            addLog('warning', `Connection attempt ${connectAttempts} failed, retrying...`)
-            await new Promise(r => setTimeout(r, 1000))
-          } else {
-            throw new Error('Failed to connect to GATT server after multiple attempts.')
-          }
-        }
-      }
-
-      if (!server) {
-        throw new Error('Failed to establish GATT connection')
-      }
-
-      await new Promise(r => setTimeout(r, 300))
-
-      if (!server.connected) {
-        throw new Error('GATT server disconnected immediately after connection.')
-      }
-
-      addLog('info', 'Getting primary service...')
-      const service = await server.getPrimaryService(BLE_SERVICE_UUID)
-      addLog('info', '✅ Service found')
-      
-      addLog('info', 'Getting characteristics...')
-      const rxChar = await service.getCharacteristic(BLE_RX_CHAR_UUID)
-      const txChar = await service.getCharacteristic(BLE_TX_CHAR_UUID)
-      addLog('info', '✅ Characteristics found')
-
-      if (!server.connected) {
-        throw new Error('Device disconnected while getting characteristics')
-      }
-
-      bleDeviceRef.current = {
-        device: device,
-        server: server,
-        rxChar: rxChar,
-        txChar: txChar,
-        disconnectHandler: disconnectHandler
-      }
-
-      setConnStatus('connected')
-      addLog('info', '✅ BLE connected and ready')
-
-    } catch (err: any) {
-      let errorMsg = err.message || 'Unknown error'
-      
-      if (errorMsg.includes('User cancelled')) {
-        errorMsg = 'Device selection cancelled'
-      } else if (errorMsg.includes('Connection attempt failed')) {
-        errorMsg = 'Connection failed. Try: Reset device, move closer, check battery'
-      } else if (errorMsg.includes('GATT Server is disconnected')) {
-        errorMsg = 'Device disconnected during setup. Try: Reset device and connect immediately after power-on'
-      }
-      
-      addLog('error', `BLE connection failed: ${errorMsg}`)
-      setConnStatus('error')
-      
-      if (bleDeviceRef.current) {
-        try {
-          if (bleDeviceRef.current.server && bleDeviceRef.current.server.connected) {
-            bleDeviceRef.current.server.disconnect()
-          }
-        } catch (e) {
-          // Ignore
-        }
-        bleDeviceRef.current = null
-      }
-    }
-  }
-
-  const startBLEStreaming = async () => {
-    if (!bleDeviceRef.current?.txChar || !bleDeviceRef.current?.rxChar) {
-      addLog('error', 'No BLE device connected')
-      return
-    }
-
-    try {
-      // 🔑 SET GAIN FIRST
-      const gain = Number(gainValue)
-      const gainCmd = new Uint8Array([0xFE, 0x00, 0x47, gain & 0xFF, 0x00])
-      await bleDeviceRef.current.txChar.writeValue(gainCmd)
-      addLog('info', `🎚 BLE gain set to ${gain}`)
-
-      await new Promise(r => setTimeout(r, 30))
-
-      // ▶️ START STREAM
-      const startCmd = new Uint8Array([0xFE, 0x00, 0x53, 0x00, 0x00])
-      await bleDeviceRef.current.txChar.writeValue(startCmd)
-
-      await bleDeviceRef.current.rxChar.startNotifications()
-      bleDeviceRef.current.rxChar.addEventListener(
-        'characteristicvaluechanged',
-        handleBLEData
-      )
-
-      streamingRef.current = true
-      setIsRunning(true)
-      addLog('info', '📡 BLE streaming started')
+  useStreamStats()
 
-    } catch (err: any) {
-      addLog('error', `BLE streaming failed: ${err.message}`)
-      streamingRef.current = false
-      setIsRunning(false)
-    }
-  }
+  /* =========================
+     EVENT MARKERS
+     Keys 1–9 drop the preset labels, except while typing in a field.
+  ========================= */
 
+  const [markerLabels, setMarkerLabels] = useState(loadMarkerLabels)
+  const [customMarker, setCustomMarker] = useState('')
+  const markers = acquisition.markers
 
-  const handleBLEData = (event: any) => {
-    const data = event.target.value
-    
-    if (data.byteLength >= 56) {
-      const bytes = new Uint8Array(data.buffer)
-      
-      if (bytes[0] === 0x00) {
-        const seq = bytes[1] & 0x0F
-        const payload = bytes.slice(2, 56)
-        
-        const samples = decodeBytesToSamples(payload)
-        
-        if (csvEnabled) {
-          csvDataRef.current.push(...samples)
-        }
-
-        setLiveData(prev => {
-          let next = [...prev]
-
-          for (const s of samples) {
-            next.push({
-              x: 0,
-              raw: s,
-              filtered: s,
-              seq: seq,
-            })
-          }
-
-          if (next.length > MAX_PLOT) {
-            next = next.slice(next.length - MAX_PLOT)
-          }
-
-          return next.map((p, i) => ({ ...p, x: i }))
-        })
-      }
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat || !/^[1-9]$/.test(e.key)) return
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return
+
+      const label = markerLabels[Number(e.key) - 1]
+      if (!label) return
+      e.preventDefault()
+      acquisition.addMarker(label)
     }
-  }
 
-  const stopBLEStreaming = async () => {
-    if (!bleDeviceRef.current?.rxChar) return
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [markerLabels])
 
-    try {
-      streamingRef.current = false
-
-      const stopCmd = new Uint8Array([0xFE, 0x00, 0x42, 0x00, 0x00])
-      await bleDeviceRef.current.txChar.writeValue(stopCmd)
-
-      if (bleHandlerRef.current) {
-        bleDeviceRef.current.rxChar.removeEventListener('characteristicvaluechanged', bleHandlerRef.current)
-        bleHandlerRef.current = null
-      }
-      await bleDeviceRef.current.rxChar.stopNotifications()
-
-      setIsRunning(false)
-      addLog('info', '🛑 BLE streaming stopped')
-
-      await saveCSVIfEnabled()
-
-    } catch (err: any) {
-      addLog('error', `BLE stop error: ${err.message}`)
-    }
+  const handleCustomMarker = () => {
+    acquisition.addMarker(customMarker)
+    setCustomMarker('')
   }
 
-  const setBLEGain = async (newGain: number) => {
-    if (!bleDeviceRef.current?.txChar) return
-
-    try {
-      const gainCmd = new Uint8Array([0xFE, 0x00, 0x47, newGain & 0xFF, 0x00])
-      await bleDeviceRef.current.txChar.writeValue(gainCmd)
-
-      addLog('info', `🎚 BLE gain set to ${newGain}`)
-
-    } catch (err: any) {
-      addLog('error', `BLE gain error: ${err.message}`)
-    }
-  }
+  const nominalRate = (channel: SensorChannel) => acquisition.nominalRate(channel)
+  const allSimulated = channels.every(c => c.mode === 'simulator')
 
   /* =========================
-     CSV HANDLING
+     KNOWN DEVICES
   ========================= */
 
-  const handleSelectFolder = async () => {
+  const refreshKnownDevices = async () => {
+    setLastDeviceKey(getLastDeviceKey())
     try {
-      if (!('showDirectoryPicker' in window)) {
-        addLog('error', 'Your browser does not support folder selection. Please use Chrome, Edge, or Opera.')
-        return
-      }
-
-      // @ts-ignore
-      const dirHandle = await window.showDirectoryPicker({
-        mode: 'readwrite',
-        startIn: 'downloads'
-      })
-
-      setFolderHandle(dirHandle)
-      setCsvDir(dirHandle.name)
-      
-      addLog('info', `Folder selected: ${dirHandle.name}`)
-    } catch (err: any) {
-      if (err.name === 'AbortError') {
-        addLog('info', 'Folder selection cancelled')
-      } else {
-        addLog('error', `Folder selection failed: ${err.message}`)
-      }
+      const lists = await Promise.all([listKnownDevices('serial'), listKnownDevices('usb'), listKnownDevices('bluetooth')])
+      setKnownDevices(lists.flat().sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0)))
+    } catch (e: any) {
+      acquisition.addLog('warning', `Could not list remembered devices: ${e?.message ?? e}`)
     }
   }
 
-  const saveCSVIfEnabled = async () => {
-    if (!csvEnabled || !folderHandle || csvDataRef.current.length === 0) {
-      csvDataRef.current = []
-      return
-    }
+  // Connecting marks a device as used
+  useEffect(() => {
+    refreshKnownDevices()
+  }, [connectedKeys.join(',')])
 
-    try {
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5)
-      const filename = `data_${timestamp}.csv`
-      
-      let csvContent = 'index,raw\n'
-      csvDataRef.current.forEach((value, index) => {
-        csvContent += `${index},${value}\n`
-      })
-
-      const fileHandle = await folderHandle.getFileHandle(filename, { create: true })
-      const writable = await fileHandle.createWritable()
-      await writable.write(csvContent)
-      await writable.close()
-      
-      addLog('response', `✅ CSV saved to ${csvDir}/${filename} (${csvDataRef.current.length} samples)`)
-      csvDataRef.current = []
-    } catch (err: any) {
-      addLog('error', `Failed to save CSV: ${err.message}`)
-      csvDataRef.current = []
-    }
-  }
+  // The store only tries this on the first visit
+  useEffect(() => {
+    acquisition.autoConnect()
+  }, [])
 
   /* =========================
      UNIFIED CONTROLS
   ========================= */
 
-  const handleConnect = async () => {
-    if (mode === 'serial') {
-      await connectSerial()
-    } else {
-      await connectBLE()
+  const handleForgetDevice = async (device: KnownDevice) => {
+    try {
+      await forgetDevice(device)
+      acquisition.addLog('info', `Forgot ${displayName(device)}`)
+    } catch (e: any) {
+      acquisition.addLog('error', `Forget failed: ${e?.message ?? e}`)
     }
+    refreshKnownDevices()
   }
 
   const handleStart = async () => {
-    addLog('command', `${mode.toUpperCase()} START`)
-
-    setLiveData([])
-    setXStart(0)
-    setZoomRange(2000)
+    setViewEnd(null)
+    setZoomRange(DEFAULT_VIEW_SPAN)
     setYShift(0)
     setYZoom(4200)
-    csvDataRef.current = []
-
-    if (mode === 'serial') {
-      // 🔌 SERIAL MODE
-      if (!serialPortRef.current) {
-        await connectSerial()
-      }
-
-      if (serialPortRef.current) {
-        await startSerialStreaming()
-      } else {
-        addLog('error', 'Serial port not available')
-      }
-
-    } else {
-      // 🔵 BLUETOOTH MODE (BLE)
-      if (!bleDeviceRef.current) {
-        await connectBLE()
-      }
-
-      if (bleDeviceRef.current) {
-        await startBLEStreaming()
-      } else {
-        addLog('error', 'BLE device not available')
-      }
-    }
-  }
-
-
-
-  const handleStop = async () => {
-    addLog('command', `${mode.toUpperCase()} STOP`)
 
-    if (mode === 'serial') {
-      await stopSerialStreaming()
-    } else {
-      await stopBLEStreaming()
-    }
-  }
-
-  const handleSendGain = async () => {
-    const gain = Number(gainValue)
-
-    if (
-      gainValue.trim() === '' ||
-      Number.isNaN(gain) ||
-      !Number.isInteger(gain) ||
-      gain < 0 ||
-      gain > 15
-    ) {
-      addLog('error', 'Gain must be an integer between 0 and 15')
-      return
-    }
-
-    try {
-      addLog('command', `${mode.toUpperCase()} SET_GAIN ${gain}`)
-
-      if (mode === 'serial') {
-        await setSerialGain(gain)
-      } else {
-        await setBLEGain(gain)
-      }
-
-      addLog('response', `✅ Gain set to ${gain}`)
-    } catch (e: any) {
-      addLog('error', `SET_GAIN failed: ${e?.message ?? 'unknown error'}`)
-    }
+    await acquisition.start(message => window.confirm(message))
   }
 
-  const handleSwitchMode = async (next: ConnectionMode) => {
-    if (next === mode) return
-
-    if (isRunning) {
-      await handleStop()
-      await new Promise(r => setTimeout(r, 500))
-    }
-
-    // Disconnect current device
-    if (mode === 'serial' && serialPortRef.current) {
-      try {
-        streamingRef.current = false
-        
-        if (serialReaderRef.current) {
-          await serialReaderRef.current.cancel()
-          serialReaderRef.current = null
-        }
-        
-        await serialPortRef.current.close()
-        serialPortRef.current = null
-        addLog('info', 'Serial port disconnected')
-      } catch (e) {
-        console.log('Error closing serial:', e)
-      }
-    } else if (mode === 'bluetooth' && bleDeviceRef.current) {
-      try {
-        if (bleHandlerRef.current && bleDeviceRef.current.rxChar) {
-          bleDeviceRef.current.rxChar.removeEventListener('characteristicvaluechanged', bleHandlerRef.current)
-          bleHandlerRef.current = null
-        }
-        if (bleDeviceRef.current.rxChar) {
-          await bleDeviceRef.current.rxChar.stopNotifications()
-        }
-        if (bleDeviceRef.current.server && bleDeviceRef.current.server.connected) {
-          bleDeviceRef.current.server.disconnect()
-        }
-        bleDeviceRef.current = null
-        addLog('info', 'BLE device disconnected')
-      } catch (e) {
-        console.log('Error closing BLE:', e)
-      }
-    }
-
-    setConnStatus('disconnected')
-    setLiveData([])
-    setXStart(0)
+  const handleModeChange = async (channel: SensorChannel, mode: ConnectionMode) => {
+    await acquisition.setMode(channel, mode)
+    setViewEnd(null)
     setYShift(0)
-    setMode(next)
-    addLog('info', `Mode switched to ${next.toUpperCase()}`)
   }
 
   /* =========================
      CHART HANDLERS
   ========================= */
 
+  const buffers = channels.map(c => c.buffer)
+
   const handleWheel = (e: React.WheelEvent) => {
     e.preventDefault()
     e.stopPropagation()
@@ -803,7 +205,7 @@ export default function LiveMeasurementPage() {
 
     setZoomRange(prev => {
       const next = prev + (prev * zoomFactor * delta)
-      return Math.round(Math.max(10, next))
+      return Math.round(Math.min(HISTORY_SAMPLES, Math.max(10, next)))
     })
 
     setYZoom(prev => {
@@ -824,10 +226,18 @@ export default function LiveMeasurementPage() {
     const dx = e.clientX - lastMouseRef.current.x
     const dy = e.clientY - lastMouseRef.current.y
 
-    const scaleX = zoomRange / 1200
+    const plotWidth = Math.max(1, (chartAreaRef.current?.clientWidth ?? 1200) - 76)
+    const scaleX = zoomRange / plotWidth
     const scaleY = yZoom / 600
 
-    setXStart(prev => Math.round(prev - (dx * scaleX)))
+    setViewEnd(prev => {
+      const live = liveViewEnd(buffers, zoomRange)
+      const next = (prev ?? live) - (dx * scaleX)
+      // Dragging back to the live edge resumes following
+      if (next >= live) return null
+      const oldest = Math.min(...buffers.map(b => b.written - b.length)) + zoomRange
+      return Math.round(Math.max(Math.min(oldest, live), next))
+    })
     setYShift(prev => Math.round(prev + (dy * scaleY)))
 
     lastMouseRef.current = { x: e.clientX, y: e.clientY }
@@ -855,36 +265,47 @@ export default function LiveMeasurementPage() {
      UI helpers
   ========================= */
 
-  const statusLabel =
-    connStatus === 'connected'
-      ? 'Connected'
-      : connStatus === 'error'
-        ? 'Error'
-        : 'Disconnected'
+  const lastDevice = knownDevices.find(d => d.key === lastDeviceKey) ?? null
 
-  const statusIcon =
-    connStatus === 'connected' ? (
-      <Wifi className="w-4 h-4 text-green-600" />
-    ) : (
-      <WifiOff className="w-4 h-4 text-gray-400" />
-    )
+  const calibrationChannel = channels.find(c => c.id === calibrationChannelId) ?? channels[0]
+  const consoleChannel = channels.find(c => c.id === consoleChannelId) ?? channels[0]
 
   const dynamicYMin = yShift - (yZoom / 2)
   const dynamicYMax = yShift + (yZoom / 2)
-  
-  const generateTicks = (min: number, max: number, count: number) => {
-    const ticks = []
-    const step = (max - min) / (count - 1)
-    for (let i = 0; i < count; i++) {
-      ticks.push(Math.round(min + step * i))
-    }
-    return ticks
+
+  // Pan/zoom stay in counts; the axis and traces are converted for display.
+  // Physical units need every sensor calibrated at its current gain.
+  const converters = channels.map(c => createPressureConverter(c.calibration?.gains[c.appliedGain], unit))
+  const uncalibrated = channels.filter((_, i) => !converters[i])
+  const displayUnit: PressureUnit = uncalibrated.length === 0 ? unit : 'raw'
+  const clipping = channels.filter(c => c.streaming && c.streamStats.clips.active)
+
+  // Tared values convert as a difference, so calibration offsets cancel
+  const toDisplay = (i: number) => {
+    const convert = converters[i]
+    if (!convert || displayUnit === 'raw') return null
+    return (counts: number, baseline: number | null) =>
+      baseline === null ? convert(counts) : convert(counts + baseline) - convert(baseline)
   }
 
-  const xTicks = useMemo(() => generateTicks(xStart, xStart + zoomRange, 11), [xStart, zoomRange])
-  const yTicks = useMemo(() => generateTicks(dynamicYMin, dynamicYMax, 5), [dynamicYMin, dynamicYMax])
+  const traces: ChartTrace[] = channels.map((c, i) => ({
+    buffer: c.buffer,
+    color: c.color,
+    transform: toDisplay(i),
+    markers: c.markers,
+  }))
+
+  // The axis is labelled through the first sensor's calibration
+  const axisTransform = traces[0].transform
+  const [yMin, yMax] = !axisTransform
+    ? [dynamicYMin, dynamicYMax]
+    : [axisTransform(dynamicYMin, channels[0].streamStats.baselineValue), axisTransform(dynamicYMax, channels[0].streamStats.baselineValue)].sort(
+        (a, b) => a - b,
+      )
+
+  const zeroed = channels.filter(c => c.streamStats.baseline && c.streamStats.baselineValue !== null)
+  const zeroing = channels.some(c => c.zeroing)
 
-  
   /* =========================
      Render
   ========================= */
@@ -892,7 +313,7 @@ export default function LiveMeasurementPage() {
   return (
     <div className="min-h-screen bg-gray-50 p-8">
       {/* Browser Support Warning */}
-      {(!supportsWebSerial || !supportsWebBluetooth) && (
+      {(!supportsWebSerial || !supportsWebUSB || !supportsWebBluetooth) && (
         <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
           <div className="flex items-start gap-3">
             <span className="text-2xl">⚠️</span>
@@ -900,9 +321,11 @@ export default function LiveMeasurementPage() {
               <h3 className="font-semibold text-yellow-800 mb-1">Browser Compatibility</h3>
               <p className="text-sm text-yellow-700">
                 {!supportsWebSerial && '• Web Serial API is not supported. '}
+                {!supportsWebUSB && '• WebUSB is not supported. '}
                 {!supportsWebBluetooth && '• Web Bluetooth is not supported. '}
                 <br />
-                Please use <strong>Google Chrome, Microsoft Edge, or Opera</strong> browser (version 89+) for full functionality.
+                Please use <strong>Google Chrome, Microsoft Edge, or Opera</strong> browser (version 89+) for full functionality,
+                or connect through a local acquisition backend with the <strong>Bridge</strong> mode.
               </p>
             </div>
           </div>
@@ -911,121 +334,85 @@ export default function LiveMeasurementPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
         <div className="p-6 bg-white border rounded-lg shadow-sm">
-          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-            {mode === 'serial' ? (
-              <Usb className="w-5 h-5 text-blue-600" />
-            ) : (
-              <Bluetooth className="w-5 h-5 text-blue-600" />
-            )}
-            Device Status
-          </h3>
-
-          <div className="space-y-3">
-            <div className="flex items-center justify-between py-2 border-b">
-              <span className="text-sm text-gray-600">Mode</span>
-              <span className="text-sm font-medium">{mode.toUpperCase()}</span>
-            </div>
-
-            <div className="flex items-center justify-between py-2 border-b">
-              <span className="text-sm text-gray-600">Status</span>
-              <span
-                className={
-                  connStatus === 'connected'
-                    ? 'text-sm font-medium text-green-600'
-                    : connStatus === 'error'
-                      ? 'text-sm font-medium text-red-600'
-                      : 'text-sm font-medium text-gray-600'
-                }
-              >
-                {isRunning ? 'Streaming' : 'Stopped'}
-              </span>
-            </div>
-
-            <div className="flex items-center justify-between py-2">
-              <span className="text-sm text-gray-600">Connection</span>
-              <div className="flex items-center gap-1">
-                {statusIcon}
-                <span className="text-sm">{statusLabel}</span>
-              </div>
-            </div>
+          <h3 className="text-lg font-semibold mb-4">Sensors</h3>
+
+          <div className="space-y-4">
+            {channels.map(channel => (
+              <SensorCard
+                key={channel.id}
+                channel={channel}
+                nominalRate={nominalRate(channel)}
+                removable={channels.length > 1}
+                running={isRunning}
+                modeSupported={modeSupported}
+                onModeChange={mode => handleModeChange(channel, mode)}
+                onBridgeChange={options => acquisition.configureBridge(channel, options)}
+                onConnect={() => channel.connect()}
+                onDisconnect={() => channel.disconnect()}
+                onRemove={() => acquisition.removeChannel(channel)}
+                onLabelChange={label => acquisition.updateChannel(channel, { label })}
+                onColorChange={color => acquisition.updateChannel(channel, { color })}
+                onRecordChange={record => acquisition.updateChannel(channel, { record })}
+                onGainChange={gain => {
+                  channel.gain = gain
+                }}
+                onSendGain={gain => acquisition.sendGain(channel, gain)}
+                onAutoRange={apply => acquisition.autoRange(channel, apply)}
+                onError={message => acquisition.logFor(channel, 'error', message)}
+              />
+            ))}
           </div>
 
-          {connStatus === 'disconnected' && (
+          <button
+            onClick={() => acquisition.addChannel()}
+            disabled={isRunning}
+            className="mt-4 w-full px-4 py-2 border border-dashed rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:text-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add sensor
+          </button>
+
+          {lastDevice && !connectedKeys.includes(lastDevice.key) && !isRunning && (
             <button
-              onClick={handleConnect}
-              disabled={mode === 'serial' ? !supportsWebSerial : !supportsWebBluetooth}
-              className="mt-4 w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+              onClick={() => acquisition.connectKnown(lastDevice)}
+              className="mt-2 w-full px-4 py-2 text-white rounded-md transition-colors"
+              style={{ backgroundColor: '#912335' }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#7a1e2d'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#912335'}
             >
-              🔌 Connect Device
+              ↻ Reconnect {displayName(lastDevice)}
             </button>
           )}
+
+          {(supportsWebSerial || supportsWebUSB || supportsWebBluetooth) && (
+            <div className="mt-4 border-t pt-4">
+              <p className="text-sm font-semibold text-gray-700 mb-2">Remembered Devices</p>
+              <KnownDevicesPanel
+                devices={knownDevices}
+                connectedKeys={connectedKeys}
+                lastKey={lastDeviceKey}
+                autoConnect={autoConnect}
+                supported={(['serial', 'usb', 'bluetooth'] as const).some(isDeviceListSupported)}
+                busy={isRunning}
+                onConnect={acquisition.connectKnown}
+                onLabel={(device, label) => {
+                  setDeviceLabel(device.key, label)
+                  refreshKnownDevices()
+                }}
+                onForget={handleForgetDevice}
+                onAutoConnectChange={value => {
+                  setAutoConnect(value)
+                  setAutoConnectState(value)
+                }}
+              />
+            </div>
+          )}
         </div>
 
         <div className="p-6 bg-white border rounded-lg shadow-sm lg:col-span-2">
           <h3 className="text-lg font-semibold mb-4">Control Panel</h3>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm text-gray-600 mb-2">
-                Connection Mode
-              </label>
-
-              <div className="flex items-center gap-4">
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="connMode"
-                    checked={mode === 'serial'}
-                    onChange={() => handleSwitchMode('serial')}
-                    disabled={!supportsWebSerial}
-                    className="w-4 h-4"
-                  />
-                  <span className="text-sm">Serial (USB)</span>
-                </label>
-
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="radio"
-                    name="connMode"
-                    checked={mode === 'bluetooth'}
-                    onChange={() => handleSwitchMode('bluetooth')}
-                    disabled={!supportsWebBluetooth}
-                    className="w-4 h-4"
-                  />
-                  <span className="text-sm">Bluetooth</span>
-                </label>
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm text-gray-600 mb-2">
-                Gain (0–15)
-              </label>
-
-              <div className="flex gap-2">
-                <input
-                  type="number"
-                  min={0}
-                  max={15}
-                  value={gainValue}
-                  onChange={e => setGainValue(e.target.value)}
-                  className="flex-1 px-3 py-2 border rounded-md"
-                />
-
-                <button
-                  onClick={handleSendGain}
-                  disabled={connStatus !== 'connected'}
-                  className="px-4 py-2 text-white rounded-md flex items-center gap-2 transition-colors disabled:bg-gray-300"
-                  style={{ backgroundColor: connStatus === 'connected' ? '#912335' : undefined }}
-                  onMouseEnter={(e) => connStatus === 'connected' && (e.currentTarget.style.backgroundColor = '#7a1e2d')}
-                  onMouseLeave={(e) => connStatus === 'connected' && (e.currentTarget.style.backgroundColor = '#912335')}
-                >
-                  <Send className="w-4 h-4" />
-                  Send
-                </button>
-              </div>
-            </div>
-
             <div>
               <label className="block text-sm text-gray-600 mb-2">
                 Measurement Control
@@ -1041,16 +428,16 @@ export default function LiveMeasurementPage() {
                   onMouseLeave={(e) => !isRunning && (e.currentTarget.style.backgroundColor = '#912335')}
                 >
                   <Play className="w-4 h-4" />
-                  Start
+                  {channels.length > 1 ? 'Start all' : 'Start'}
                 </button>
 
                 <button
-                  onClick={handleStop}
+                  onClick={() => acquisition.stop()}
                   disabled={!isRunning}
                   className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
                 >
                   <Square className="w-4 h-4" />
-                  Stop
+                  {channels.length > 1 ? 'Stop all' : 'Stop'}
                 </button>
               </div>
             </div>
@@ -1071,32 +458,303 @@ export default function LiveMeasurementPage() {
                   />
                   <span className="text-sm">Raw</span>
                 </label>
+
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="displayMode"
+                    checked={displayMode === 'filtered'}
+                    onChange={() => setDisplayMode('filtered')}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm">Raw + Filtered</span>
+                </label>
+
+                <select
+                  value={unit}
+                  onChange={e => acquisition.updateSettings({ unit: e.target.value as PressureUnit })}
+                  className="px-2 py-1 border rounded-md text-sm"
+                  title="Units for the chart and recorded pressure column"
+                >
+                  {(Object.keys(UNIT_LABELS) as PressureUnit[]).map(u => (
+                    <option key={u} value={u}>{UNIT_LABELS[u]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {unit !== displayUnit && (
+                <p className="text-xs text-yellow-700 mt-1">
+                  {uncalibrated.map(c => `${c.label} (gain ${c.appliedGain})`).join(', ')} not calibrated — showing raw counts.
+                </p>
+              )}
+            </div>
+
+            {/* Filter Section */}
+            {displayMode === 'filtered' && (
+              <div className="md:col-span-2 border-t pt-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-3">
+                  🎛 Filter Chain
+                </label>
+
+                <FilterChainEditor
+                  filters={filterSpecs}
+                  onChange={specs => acquisition.updateSettings({ filterSpecs: specs })}
+                  sampleRate={allSimulated ? simOptions.sampleRate : filterSampleRate}
+                  onSampleRateChange={allSimulated ? undefined : rate => acquisition.updateSettings({ filterSampleRate: rate })}
+                />
+              </div>
+            )}
+
+            {/* Calibration Section */}
+            <div className="md:col-span-2 border-t pt-4">
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-sm font-semibold text-gray-700">
+                  📐 Calibration
+                </label>
+                {channels.length > 1 && (
+                  <select
+                    value={calibrationChannel.id}
+                    onChange={e => setCalibrationChannelId(Number(e.target.value))}
+                    className="px-2 py-1 border rounded-md text-sm"
+                  >
+                    {channels.map(c => (
+                      <option key={c.id} value={c.id}>{c.label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <CalibrationWizard
+                key={calibrationChannel.id}
+                deviceName={calibrationChannel.status === 'connected' ? calibrationChannel.transport.deviceName : null}
+                gain={calibrationChannel.appliedGain}
+                profile={calibrationChannel.calibration}
+                onProfileChange={profile => acquisition.updateChannel(calibrationChannel, { calibration: profile })}
+                capture={() => calibrationChannel.meanCounts(CAPTURE_SECONDS)}
+                onError={message => acquisition.logFor(calibrationChannel, 'error', message)}
+              />
+            </div>
+
+            {/* Zero Section */}
+            <div className="md:col-span-2 border-t pt-4">
+              <label className="block text-sm font-semibold text-gray-700 mb-3">
+                ⚖️ Zero / Tare
+              </label>
+
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                  Window
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={baselineOptions.windowSeconds}
+                    onChange={e => {
+                      const seconds = Number(e.target.value)
+                      if (seconds > 0) acquisition.updateSettings({ baselineOptions: { ...baselineOptions, windowSeconds: seconds } })
+                    }}
+                    className="w-20 px-2 py-1 border rounded-md text-sm"
+                  />
+                  s
+                </label>
+
+                <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={baselineOptions.trackDrift}
+                    onChange={e => acquisition.updateSettings({ baselineOptions: { ...baselineOptions, trackDrift: e.target.checked } })}
+                    className="w-4 h-4"
+                  />
+                  Track slow drift
+                </label>
+
+                {baselineOptions.trackDrift && (
+                  <>
+                    <label className="flex items-center gap-1 text-xs text-gray-600">
+                      τ
+                      <input
+                        type="number"
+                        min={1}
+                        value={baselineOptions.driftTimeConstantSec}
+                        onChange={e => {
+                          const tau = Number(e.target.value)
+                          if (tau >= 1) acquisition.updateSettings({ baselineOptions: { ...baselineOptions, driftTimeConstantSec: tau } })
+                        }}
+                        className="w-20 px-2 py-1 border rounded-md text-sm"
+                      />
+                      s
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-gray-600" title="Only samples this close to the baseline are treated as rest">
+                      Rest band ±
+                      <input
+                        type="number"
+                        min={1}
+                        value={baselineOptions.restBandCounts}
+                        onChange={e => {
+                          const band = Number(e.target.value)
+                          if (band > 0) acquisition.updateSettings({ baselineOptions: { ...baselineOptions, restBandCounts: band } })
+                        }}
+                        className="w-20 px-2 py-1 border rounded-md text-sm"
+                      />
+                      counts
+                    </label>
+                  </>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 mt-3">
+                <button
+                  onClick={() => acquisition.zero()}
+                  disabled={!isRunning || zeroing}
+                  className="px-4 py-2 text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                  style={{ backgroundColor: isRunning && !zeroing ? '#912335' : undefined }}
+                  onMouseEnter={(e) => isRunning && !zeroing && (e.currentTarget.style.backgroundColor = '#7a1e2d')}
+                  onMouseLeave={(e) => isRunning && !zeroing && (e.currentTarget.style.backgroundColor = '#912335')}
+                >
+                  {zeroing ? 'Zeroing…' : channels.length > 1 ? 'Zero all' : 'Zero'}
+                </button>
+                <button
+                  onClick={() => acquisition.clearZero()}
+                  disabled={zeroed.length === 0 && !zeroing}
+                  className="px-4 py-2 border rounded-md text-sm disabled:text-gray-300 disabled:cursor-not-allowed"
+                >
+                  Clear
+                </button>
+                <span className="text-xs text-gray-600">
+                  {zeroed.length > 0
+                    ? zeroed
+                        .map(c => `${channels.length > 1 ? `${c.label}: ` : ''}${c.streamStats.baselineValue!.toFixed(1)} counts (${c.streamStats.baseline!.method === 'tracking' ? 'tracking drift' : 'static'})`)
+                        .join(' · ')
+                    : 'Not zeroed — keep the sensors unloaded while zeroing.'}
+                </span>
               </div>
             </div>
+            {/* Simulator Section */}
+            {channels.some(c => c.mode === 'simulator') && (
+              <div className="md:col-span-2 border-t pt-4">
+                <label className="block text-sm font-semibold text-gray-700 mb-3">
+                  🧪 Simulator Settings
+                </label>
+
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Waveform</label>
+                    <select
+                      value={simOptions.waveform}
+                      onChange={e => acquisition.updateSettings({ simOptions: { ...simOptions, waveform: e.target.value as SimulatorOptions['waveform'] } })}
+                      className="w-full px-3 py-2 border rounded-md text-sm"
+                    >
+                      <option value="sine">Sine</option>
+                      <option value="presses">Step presses</option>
+                      <option value="noise">Noise</option>
+                      <option value="saturation">Saturation</option>
+                    </select>
+                  </div>
 
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Sample rate (Hz)</label>
+                    <input
+                      type="number"
+                      min={36}
+                      max={20000}
+                      value={simOptions.sampleRate}
+                      onChange={e => {
+                        const rate = Number(e.target.value)
+                        if (rate > 0) acquisition.updateSettings({ simOptions: { ...simOptions, sampleRate: rate } })
+                      }}
+                      className="w-full px-3 py-2 border rounded-md text-sm"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Frame format</label>
+                    <select
+                      value={simOptions.frameFormat}
+                      onChange={e => acquisition.updateSettings({ simOptions: { ...simOptions, frameFormat: e.target.value as SimulatorOptions['frameFormat'] } })}
+                      disabled={isRunning}
+                      className="w-full px-3 py-2 border rounded-md text-sm disabled:bg-gray-100"
+                    >
+                      <option value="serial">Serial (SEQ:hex line)</option>
+                      <option value="ble">BLE (56-byte notification)</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-600 mb-1">Battery (%)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={simOptions.battery}
+                      onChange={e => {
+                        const battery = Number(e.target.value)
+                        if (battery >= 0 && battery <= 100) acquisition.updateSettings({ simOptions: { ...simOptions, battery } })
+                      }}
+                      className="w-full px-3 py-2 border rounded-md text-sm"
+                      title="Reported on connect and on Refresh in Device info"
+                    />
+                  </div>
+
+                  <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer md:col-span-4">
+                    <input
+                      type="checkbox"
+                      checked={simOptions.crc}
+                      onChange={e => acquisition.updateSettings({ simOptions: { ...simOptions, crc: e.target.checked } })}
+                      className="w-4 h-4"
+                    />
+                    Append CRC to frames (checked by the frame parser)
+                  </label>
+                </div>
+              </div>
+            )}
             {/* CSV Section */}
             <div className="md:col-span-2 border-t pt-4">
               <label className="block text-sm font-semibold text-gray-700 mb-3">
-                📁 CSV Export Settings
+                📁 Recording
               </label>
 
               <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="session-enable"
+                    checked={saveSession}
+                    onChange={(e) => acquisition.updateSettings({ saveSession: e.target.checked })}
+                    disabled={!isSessionStoreSupported()}
+                    className="w-4 h-4"
+                  />
+                  <label htmlFor="session-enable" className="text-sm cursor-pointer">
+                    Save to session library
+                    {activity && (
+                      <span className="text-gray-500"> — {activity.description}</span>
+                    )}
+                  </label>
+                </div>
+
+                <textarea
+                  value={sessionNotes}
+                  onChange={(e) => acquisition.updateSettings({ sessionNotes: e.target.value })}
+                  placeholder="Session notes (saved with the recording)"
+                  rows={2}
+                  className="w-full px-3 py-2 border rounded-md text-sm"
+                />
+
                 <div className="flex items-center gap-3">
                   <input
                     type="checkbox"
                     id="csv-enable"
                     checked={csvEnabled}
-                    onChange={(e) => setCsvEnabled(e.target.checked)}
+                    onChange={(e) => acquisition.updateSettings({ csvEnabled: e.target.checked })}
                     className="w-4 h-4"
                   />
                   <label htmlFor="csv-enable" className="text-sm cursor-pointer">
-                    Enable CSV save on STOP
+                    Record CSV while streaming
                   </label>
                 </div>
 
                 <div className="flex gap-2">
                   <button
-                    onClick={handleSelectFolder}
+                    onClick={() => acquisition.selectFolder()}
                     disabled={!csvEnabled}
                     className="flex-1 px-4 py-2 text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors"
                     style={{ backgroundColor: csvEnabled ? '#912335' : '#d1d5db' }}
@@ -1132,24 +790,105 @@ export default function LiveMeasurementPage() {
       {/* CHART SECTION */}
       <div className="p-6 bg-white border rounded-lg shadow-sm mb-8">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold">Real-Time Pressure</h3>
-          <button 
-            onClick={() => {
-              setXStart(0)
-              setZoomRange(2000)
-              setYShift(0)
-              setYZoom(4200)
-            }}
-            className="text-xs text-white px-3 py-1 rounded border transition-colors"
-            style={{ backgroundColor: '#912335', borderColor: '#7a1e2d' }}
-            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#7a1e2d'}
-            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#912335'}
+          <div className="flex items-center gap-4">
+            <h3 className="text-lg font-semibold">Real-Time Pressure</h3>
+            {channels.length > 1 && (
+              <div className="flex flex-wrap items-center gap-3">
+                {channels.map(c => (
+                  <span key={c.id} className="flex items-center gap-1 text-xs text-gray-700">
+                    <span className="inline-block w-3 h-0.5" style={{ backgroundColor: c.color }} />
+                    {c.label}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={xAxis}
+              onChange={e => setXAxis(e.target.value as ChartXAxis)}
+              className="px-2 py-1 border rounded-md text-xs"
+              title="X axis units"
+            >
+              <option value="samples">X: Samples</option>
+              <option value="seconds">X: Seconds</option>
+            </select>
+            <button 
+              onClick={() => {
+                setViewEnd(null)
+                setZoomRange(DEFAULT_VIEW_SPAN)
+                setYShift(0)
+                setYZoom(4200)
+              }}
+              className="text-xs text-white px-3 py-1 rounded border transition-colors"
+              style={{ backgroundColor: '#912335', borderColor: '#7a1e2d' }}
+              onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#7a1e2d'}
+              onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#912335'}
+            >
+              Reset View
+            </button>
+          </div>
+        </div>
+
+        {clipping.length > 0 && (
+          <div className="mb-3 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+            ⚠️ {clipping.map(c => `${c.label} (gain ${c.appliedGain})`).join(', ')} clipping at the ADC rail — shaded on
+            the chart. Lower the gain or use <b>Auto-range</b> on the sensor.
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-sm text-gray-600">📍 Markers</span>
+          {markerLabels.map((label, i) => (
+            <button
+              key={i}
+              onClick={() => acquisition.addMarker(label)}
+              disabled={!isRunning}
+              className="px-2 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:text-gray-300 disabled:cursor-not-allowed"
+              title={`Hotkey ${i + 1}`}
+            >
+              <kbd className="mr-1 text-gray-400">{i + 1}</kbd>
+              {label}
+            </button>
+          ))}
+          <input
+            value={customMarker}
+            onChange={e => setCustomMarker(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleCustomMarker()}
+            placeholder="Other event…"
+            className="w-32 px-2 py-1 border rounded-md text-xs"
+          />
+          <button
+            onClick={handleCustomMarker}
+            disabled={!isRunning || !customMarker.trim()}
+            className="px-2 py-1 text-xs border rounded-md hover:bg-gray-50 disabled:text-gray-300 disabled:cursor-not-allowed"
           >
-            Reset View
+            Mark
           </button>
+          {markers.length > 0 && (
+            <span className="text-xs text-gray-500">
+              {markers.length} marked · last “{markers[markers.length - 1].label}” at{' '}
+              {new Date(markers[markers.length - 1].at).toLocaleTimeString()}
+            </span>
+          )}
+          <details className="ml-auto text-xs text-gray-600">
+            <summary className="cursor-pointer select-none">Hotkey labels</summary>
+            <input
+              key={markerLabels.join(',')}
+              defaultValue={markerLabels.join(', ')}
+              onBlur={e => {
+                const labels = parseMarkerLabels(e.target.value)
+                saveMarkerLabels(labels)
+                setMarkerLabels(labels)
+              }}
+              className="mt-1 w-64 px-2 py-1 border rounded-md"
+              title="Comma-separated; the first nine get keys 1–9"
+            />
+          </details>
         </div>
 
         <div
+          ref={chartAreaRef}
           className="h-96 select-none cursor-grab active:cursor-grabbing border-2 border-gray-300 bg-white"
           style={{ touchAction: 'none' }} 
           onWheel={handleWheel}
@@ -1159,67 +898,74 @@ export default function LiveMeasurementPage() {
           onMouseMoveCapture={handleChartMouseMoveCapture}
           onMouseUpCapture={handleChartMouseUpCapture}
         >
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart 
-              data={liveData} 
-              margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
-            >
-              <CartesianGrid stroke="#e5e7eb" vertical={true} horizontal={true} />
-              
-              <XAxis
-                dataKey="x"
-                type="number"
-                domain={[xStart, xStart + zoomRange]}
-                ticks={xTicks}
-                interval={0}
-                allowDataOverflow
-                stroke="#374151"
-                fontSize={12}
-                tickLine={{ stroke: '#374151' }}
-                axisLine={{ stroke: '#374151' }}
-                label={{ value: 'Point', position: 'insideBottom', offset: -5, fontWeight: 'bold' }}
-              />
-              
-              <YAxis
-                type="number"
-                domain={[dynamicYMin, dynamicYMax]}
-                ticks={yTicks}
-                interval={0}
-                allowDataOverflow
-                stroke="#374151"
-                fontSize={12}
-                tickLine={{ stroke: '#374151' }}
-                axisLine={{ stroke: '#374151' }}
-                label={{ value: 'AD値', angle: -90, position: 'insideLeft', fontWeight: 'bold' }}
-              />
-
-              <Line
-                type="linear"
-                dataKey={displayMode === 'raw' ? 'raw' : 'filtered'}
-                stroke="#2563eb"
-                strokeWidth={1}
-                dot={zoomRange < 150}
-                isAnimationActive={false}
-              />
-            </LineChart>
-          </ResponsiveContainer>
+          <LiveCanvasChart
+            traces={traces}
+            span={zoomRange}
+            end={viewEnd}
+            yDomain={[yMin, yMax]}
+            yLabel={displayUnit === 'raw' ? 'AD値' : `Pressure (${displayUnit})`}
+            showFiltered={displayMode === 'filtered'}
+            xAxis={xAxis}
+            sampleRate={channels[0].streamStats.clock.sampleRate ?? nominalRate(channels[0])}
+          />
         </div>
 
-        {!isRunning && connStatus === 'disconnected' && (
+        {!isRunning && channels.every(c => c.status === 'disconnected') && (
           <p className="text-sm text-gray-600 mt-3">
-            Click <b>🔌 Connect Device</b> then press <b>Start</b> to begin streaming.
+            Click <b>🔌 Connect</b> on a sensor then press <b>Start</b> to begin streaming.
           </p>
         )}
 
-        {!isRunning && connStatus === 'connected' && (
+        {!isRunning && channels.some(c => c.status === 'connected') && (
           <p className="text-sm text-gray-600 mt-3">
-            Press <b>Start</b> to begin streaming data.
+            Press <b>Start</b> to begin streaming data{channels.length > 1 ? ' from every connected sensor' : ''}.
           </p>
         )}
 
         <p className="text-xs text-gray-500 mt-2">
-          Drag to pan, scroll to zoom. Using Web Serial API - works alongside backend!
+          Drag to pan back through history, scroll to zoom. Red dashed lines mark lost frames.
+        </p>
+      </div>
+
+      {/* PROTOCOL CONSOLE */}
+      <div className="p-6 bg-white border rounded-lg shadow-sm">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">🛠 Protocol Console</h3>
+          <div className="flex items-center gap-2">
+            {channels.length > 1 && (
+              <select
+                value={consoleChannel.id}
+                onChange={e => setConsoleChannelId(Number(e.target.value))}
+                className="px-2 py-1 border rounded-md text-sm"
+              >
+                {channels.map(c => (
+                  <option key={c.id} value={c.id}>{c.label}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setShowConsole(s => !s)}
+              className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50"
+            >
+              {showConsole ? 'Hide' : 'Show'}
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Send raw {consoleChannel.transport.rawFormat === 'ascii' ? 'ASCII lines' : 'byte frames'} to the device
+          and watch the traffic. Raw commands bypass the app, so gain and streaming state may go out of sync.
         </p>
+
+        {showConsole && (
+          <div className="mt-4">
+            <ProtocolConsole
+              key={`${consoleChannel.id}:${consoleChannel.mode}`}
+              transport={consoleChannel.transport}
+              connected={consoleChannel.status === 'connected'}
+              onLog={(type, message) => acquisition.logFor(consoleChannel, type, message)}
+            />
+          </div>
+        )}
       </div>
 
       {/* LOG SECTION */}
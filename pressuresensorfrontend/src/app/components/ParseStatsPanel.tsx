@@ -0,0 +1,51 @@
+import { MALFORMED_REASON_LABELS, totalMalformed, type MalformedReason, type ParseStats } from '@/app/services/ps02Parser'
+
+/* =========================
+   Parse statistics
+   What the frame parser accepted and threw away since the sensor
+   connected. Counters reset on every reconnect.
+========================= */
+
+interface ParseStatsPanelProps {
+  stats: ParseStats
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1 << 20 ? `${(bytes / (1 << 20)).toFixed(1)} MB` : bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} kB` : `${bytes} B`
+
+export default function ParseStatsPanel({ stats }: ParseStatsPanelProps) {
+  const malformed = totalMalformed(stats)
+  const seen = stats.frames + malformed
+  const reasons = (Object.keys(MALFORMED_REASON_LABELS) as MalformedReason[]).filter(r => stats.malformed[r] > 0)
+
+  const rows: [string, string][] = [
+    ['Frames decoded', String(stats.frames)],
+    ['CRC verified', stats.crcVerified > 0 ? `${stats.crcVerified} (${((stats.crcVerified / Math.max(1, stats.frames)) * 100).toFixed(0)}%)` : 'No CRC from firmware'],
+    ['Malformed', seen === 0 ? '0' : `${malformed} (${((malformed / seen) * 100).toFixed(2)}%)`],
+    ['Resyncs', String(stats.resyncs)],
+    ['Other lines', String(stats.ignored)],
+    ['Bytes received', formatBytes(stats.bytes)],
+  ]
+
+  return (
+    <div className="text-xs space-y-1">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between">
+          <span className="text-gray-600">{label}</span>
+          <span className={label === 'Malformed' && malformed > 0 ? 'font-medium text-red-600' : 'font-medium'}>{value}</span>
+        </div>
+      ))}
+
+      {reasons.length > 0 && (
+        <div className="pt-1 pl-2 border-l">
+          {reasons.map(reason => (
+            <div key={reason} className="flex items-center justify-between">
+              <span className="text-gray-500">{MALFORMED_REASON_LABELS[reason]}</span>
+              <span className="font-mono">{stats.malformed[reason]}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
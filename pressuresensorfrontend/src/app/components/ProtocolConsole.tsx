@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState } from 'react'
+import { Pause, Play, Save, Send, Trash2, X } from 'lucide-react'
+import type { DeviceTransport } from '@/app/services/transports'
+import {
+  LINE_ENDINGS,
+  TrafficLog,
+  deleteMacro,
+  encodeConsoleInput,
+  formatAscii,
+  formatHex,
+  formatTime,
+  loadMacros,
+  saveMacro,
+  type ConsoleEntry,
+  type ConsoleMacro,
+  type LineEnding,
+} from '@/app/services/protocolConsole'
+
+interface ProtocolConsoleProps {
+  transport: DeviceTransport
+  connected: boolean
+  onLog: (type: 'command' | 'error', message: string) => void
+}
+
+const inputClass = 'px-2 py-1 border rounded-md text-sm'
+
+/** Stream frames can arrive at ~30/s; re-render the dump at most this often */
+const REFRESH_MS = 250
+const VISIBLE_ENTRIES = 300
+
+export default function ProtocolConsole({ transport, connected, onLog }: ProtocolConsoleProps) {
+  const format = transport.rawFormat
+  const logRef = useRef(new TrafficLog(format))
+  const dirtyRef = useRef(false)
+  const pausedRef = useRef(false)
+  const dumpRef = useRef<HTMLDivElement>(null)
+
+  const [entries, setEntries] = useState<readonly ConsoleEntry[]>([])
+  const [paused, setPaused] = useState(false)
+  const [showFrames, setShowFrames] = useState(false)
+  const [input, setInput] = useState('')
+  const [lineEnding, setLineEnding] = useState<LineEnding>('crlf')
+  const [inputError, setInputError] = useState<string | null>(null)
+  const [macros, setMacros] = useState<ConsoleMacro[]>(loadMacros)
+  const [macroName, setMacroName] = useState('')
+
+  useEffect(() => {
+    pausedRef.current = paused
+  }, [paused])
+
+  useEffect(() => {
+    const log = logRef.current
+    log.setFormat(format)
+
+    const unsubscribe = transport.on('traffic', event => {
+      if (pausedRef.current) return
+      log.push(event)
+      dirtyRef.current = true
+    })
+    const timer = setInterval(() => {
+      if (!dirtyRef.current) return
+      dirtyRef.current = false
+      setEntries([...log.list()])
+    }, REFRESH_MS)
+
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+    }
+  }, [transport, format])
+
+  const visible = entries.filter(entry => showFrames || !entry.isFrame).slice(-VISIBLE_ENTRIES)
+  const hiddenFrames = showFrames ? 0 : entries.filter(entry => entry.isFrame).length
+
+  useEffect(() => {
+    const el = dumpRef.current
+    if (el) el.scrollTop = el.scrollHeight
+  }, [visible.length, entries])
+
+  const send = async (payload: string, ending: LineEnding) => {
+    let bytes: Uint8Array
+    try {
+      bytes = encodeConsoleInput(format, payload, ending)
+    } catch (err) {
+      setInputError((err as Error).message)
+      return
+    }
+    setInputError(null)
+
+    try {
+      await transport.sendRaw(bytes)
+      onLog('command', `🛠 Raw ${format === 'ascii' ? JSON.stringify(formatAscii(bytes)) : formatHex(bytes)}`)
+    } catch (err) {
+      onLog('error', `❌ Raw send failed: ${(err as Error).message}`)
+    }
+  }
+
+  const handleSaveMacro = () => {
+    const name = macroName.trim()
+    if (!name || !input) return
+    try {
+      encodeConsoleInput(format, input, lineEnding)
+    } catch (err) {
+      setInputError((err as Error).message)
+      return
+    }
+    setMacros(saveMacro({ name, format, payload: input, lineEnding: format === 'ascii' ? lineEnding : 'none' }))
+    setMacroName('')
+  }
+
+  const formatMacros = macros.filter(macro => macro.format === format)
+
+  return (
+    <div className="space-y-3">
+      {/* Macros */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-500">Macros:</span>
+        {formatMacros.length === 0 && <span className="text-xs text-gray-400">none saved</span>}
+        {formatMacros.map(macro => (
+          <span key={macro.id} className="inline-flex items-center border rounded-md text-xs overflow-hidden">
+            <button
+              onClick={() => send(macro.payload, macro.lineEnding)}
+              onContextMenu={e => {
+                e.preventDefault()
+                setInput(macro.payload)
+                setLineEnding(macro.lineEnding)
+                setMacroName(macro.name)
+              }}
+              disabled={!connected}
+              className="px-2 py-1 hover:bg-gray-100 disabled:opacity-40"
+              title={`${macro.payload}${macro.lineEnding !== 'none' ? ` + ${LINE_ENDINGS[macro.lineEnding].label}` : ''} (right-click to edit)`}
+            >
+              {macro.name}
+            </button>
+            <button
+              onClick={() => setMacros(deleteMacro(macro.id))}
+              className="px-1 py-1 border-l text-gray-400 hover:text-red-600"
+              title="Delete macro"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {/* Input */}
+      <form
+        className="flex flex-wrap items-center gap-2"
+        onSubmit={e => {
+          e.preventDefault()
+          send(input, format === 'ascii' ? lineEnding : 'none')
+        }}
+      >
+        <input
+          value={input}
+          onChange={e => {
+            setInput(e.target.value)
+            setInputError(null)
+          }}
+          placeholder={format === 'ascii' ? 'ASCII line, e.g. G8' : 'Hex bytes, e.g. FE 00 47 08 00'}
+          className={`${inputClass} flex-1 min-w-[12rem] font-mono`}
+        />
+        {format === 'ascii' && (
+          <select
+            value={lineEnding}
+            onChange={e => setLineEnding(e.target.value as LineEnding)}
+            className={inputClass}
+            title="Line ending"
+          >
+            {(Object.keys(LINE_ENDINGS) as LineEnding[]).map(key => (
+              <option key={key} value={key}>
+                {LINE_ENDINGS[key].label}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          type="submit"
+          disabled={!connected}
+          className="flex items-center gap-1 px-3 py-1 text-sm text-white rounded-md disabled:bg-gray-300"
+          style={{ backgroundColor: connected ? '#912335' : undefined }}
+        >
+          <Send className="w-3.5 h-3.5" />
+          Send
+        </button>
+        <input
+          value={macroName}
+          onChange={e => setMacroName(e.target.value)}
+          placeholder="Macro name"
+          className={`${inputClass} w-32`}
+        />
+        <button
+          type="button"
+          onClick={handleSaveMacro}
+          disabled={!macroName.trim() || !input}
+          className="flex items-center gap-1 px-2 py-1 text-sm border rounded-md hover:bg-gray-50 disabled:opacity-40"
+        >
+          <Save className="w-3.5 h-3.5" />
+          Save
+        </button>
+      </form>
+      {inputError && <p className="text-xs text-red-600">{inputError}</p>}
+      {!connected && <p className="text-xs text-gray-500">Connect a device to send commands.</p>}
+
+      {/* Dump */}
+      <div className="flex items-center gap-3 text-sm">
+        <button
+          onClick={() => setPaused(p => !p)}
+          className="flex items-center gap-1 px-2 py-1 border rounded-md hover:bg-gray-50"
+        >
+          {paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+          {paused ? 'Resume' : 'Pause'}
+        </button>
+        <button
+          onClick={() => {
+            logRef.current.clear()
+            setEntries([])
+          }}
+          className="flex items-center gap-1 px-2 py-1 border rounded-md hover:bg-gray-50"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Clear
+        </button>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showFrames}
+            onChange={e => setShowFrames(e.target.checked)}
+            className="w-4 h-4"
+          />
+          Show stream frames
+        </label>
+        {hiddenFrames > 0 && <span className="text-xs text-gray-500">{hiddenFrames} frames hidden</span>}
+      </div>
+
+      <div ref={dumpRef} className="bg-gray-900 rounded-lg p-4 h-64 overflow-y-auto font-mono text-xs">
+        {visible.length === 0 && <p className="text-gray-500">No traffic yet.</p>}
+        {visible.map(entry => (
+          <div key={entry.id} className="flex gap-3 mb-1">
+            <span className="text-gray-500 shrink-0">{formatTime(entry.at)}</span>
+            <span className={`shrink-0 ${entry.direction === 'tx' ? 'text-blue-400' : 'text-green-400'}`}>
+              {entry.direction === 'tx' ? 'TX >' : 'RX <'}
+            </span>
+            <span className={`break-all ${entry.direction === 'tx' ? 'text-blue-300' : 'text-green-300'}`}>
+              {formatHex(entry.bytes)}
+            </span>
+            <span className="text-gray-400 break-all">|{formatAscii(entry.bytes)}|</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
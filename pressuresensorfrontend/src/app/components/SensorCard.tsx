@@ -0,0 +1,444 @@
+import { useEffect, useState } from 'react'
+import { Bluetooth, Cpu, Gauge, RefreshCw, Send, Server, Usb, Wifi, WifiOff, X } from 'lucide-react'
+import { LOW_BATTERY_PERCENT, isBatteryLow, type BridgeOptions, type ConnectionMode } from '@/app/services/transports'
+import type { BridgeLink } from '@/app/services/deviceApi'
+import type { SensorChannel } from '@/app/services/sensorChannel'
+import DeviceInfoPanel, { BatteryIndicator } from './DeviceInfoPanel'
+import ParseStatsPanel from './ParseStatsPanel'
+import { MALFORMED_REASON_LABELS, totalMalformed, type MalformedReason } from '@/app/services/ps02Parser'
+import { AUTO_RANGE_SECONDS } from '@/app/services/clipping'
+
+interface SensorCardProps {
+  channel: SensorChannel
+  /** Nominal rate the sample-rate readout is compared against */
+  nominalRate: number
+  /** False for the last remaining sensor */
+  removable: boolean
+  /** Some sensor is streaming; connection settings are locked */
+  running: boolean
+  modeSupported: Record<ConnectionMode, boolean>
+  onModeChange: (mode: ConnectionMode) => void
+  /** Backend URL or link edited while in bridge mode */
+  onBridgeChange: (options: Partial<BridgeOptions>) => void
+  onConnect: () => void
+  onDisconnect: () => void
+  onRemove: () => void
+  onLabelChange: (label: string) => void
+  onColorChange: (color: string) => void
+  onRecordChange: (record: boolean) => void
+  /** Gain to stream at, updated as a valid value is typed */
+  onGainChange: (gain: number) => void
+  onSendGain: (gain: number) => void
+  /** Watch the signal for the best gain; `apply` also sends it */
+  onAutoRange: (apply: boolean) => void
+  onError: (message: string) => void
+}
+
+const MODE_LABELS: Record<ConnectionMode, string> = {
+  serial: 'Serial (USB)',
+  usb: 'WebUSB',
+  bluetooth: 'Bluetooth',
+  simulator: 'Simulator',
+  bridge: 'Bridge (backend)',
+}
+
+const parseGain = (value: string) => {
+  const gain = Number(value)
+  return value.trim() !== '' && Number.isInteger(gain) && gain >= 0 && gain <= 15 ? gain : null
+}
+
+export default function SensorCard({
+  channel,
+  nominalRate,
+  removable,
+  running,
+  modeSupported,
+  onModeChange,
+  onBridgeChange,
+  onConnect,
+  onDisconnect,
+  onRemove,
+  onLabelChange,
+  onColorChange,
+  onRecordChange,
+  onGainChange,
+  onSendGain,
+  onAutoRange,
+  onError,
+}: SensorCardProps) {
+  const [gainValue, setGainValue] = useState(String(channel.gain))
+
+  // Auto-range changes the gain behind the input's back
+  useEffect(() => {
+    setGainValue(String(channel.gain))
+  }, [channel.gain])
+
+  const { status, streaming, mode } = channel
+  const connected = status === 'connected'
+  const linkStats = channel.streamStats.link
+  const clockStats = channel.streamStats.clock
+  const info = channel.transport.info
+  const parseStats = channel.transport.parseStats
+  const malformed = totalMalformed(parseStats)
+  const bridge = channel.bridgeOptions
+  const clipStats = channel.streamStats.clips
+  const advice = channel.gainAdvice
+
+  const statusLabel =
+    status === 'connected'
+      ? 'Connected'
+      : status === 'reconnecting'
+        ? 'Reconnecting…'
+        : status === 'error'
+          ? 'Error'
+          : 'Disconnected'
+
+  const statusIcon =
+    status === 'connected' ? (
+      <Wifi className="w-4 h-4 text-green-600" />
+    ) : status === 'reconnecting' ? (
+      <RefreshCw className="w-4 h-4 text-amber-500 animate-spin" />
+    ) : (
+      <WifiOff className="w-4 h-4 text-gray-400" />
+    )
+
+  const handleSend = () => {
+    const gain = parseGain(gainValue)
+    if (gain === null) {
+      onError('Gain must be an integer between 0 and 15')
+      return
+    }
+    onSendGain(gain)
+  }
+
+  return (
+    <div className="border rounded-lg p-4" style={{ borderLeft: `4px solid ${channel.color}` }}>
+      <div className="flex items-center gap-2 mb-3">
+        <input
+          type="color"
+          value={channel.color}
+          onChange={e => onColorChange(e.target.value)}
+          className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer"
+          title="Trace colour"
+        />
+        {mode === 'serial' || mode === 'usb' ? (
+          <Usb className="w-4 h-4 text-blue-600" />
+        ) : mode === 'bluetooth' ? (
+          <Bluetooth className="w-4 h-4 text-blue-600" />
+        ) : mode === 'bridge' ? (
+          <Server className="w-4 h-4 text-blue-600" />
+        ) : (
+          <Cpu className="w-4 h-4 text-blue-600" />
+        )}
+        <input
+          value={channel.label}
+          onChange={e => onLabelChange(e.target.value)}
+          className="flex-1 min-w-0 px-1 py-0.5 text-base font-semibold border border-transparent rounded hover:border-gray-200 focus:border-gray-300"
+          title="Sensor name, used in recordings"
+        />
+        {connected && <BatteryIndicator info={info} />}
+        {removable && (
+          <button
+            onClick={onRemove}
+            disabled={streaming}
+            className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-40"
+            title="Remove sensor"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {connected && isBatteryLow(info) && (
+        <div className="mb-3 px-3 py-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-700">
+          🪫 Battery at {info.battery}% (≤ {LOW_BATTERY_PERCENT}%) — charge before a long session.
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Mode</span>
+          <select
+            value={mode}
+            onChange={e => onModeChange(e.target.value as ConnectionMode)}
+            disabled={status !== 'disconnected' || running}
+            className="px-2 py-0.5 border rounded-md text-sm disabled:bg-gray-100"
+          >
+            {(Object.keys(MODE_LABELS) as ConnectionMode[]).map(m => (
+              <option key={m} value={m} disabled={!modeSupported[m]}>
+                {MODE_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {bridge && (
+          <div className="flex items-center gap-2 py-1.5 border-b">
+            <span className="text-sm text-gray-600">Backend</span>
+            <input
+              value={bridge.url}
+              onChange={e => onBridgeChange({ url: e.target.value })}
+              disabled={status !== 'disconnected'}
+              className="flex-1 min-w-0 px-2 py-0.5 border rounded-md text-sm font-mono disabled:bg-gray-100"
+              placeholder="http://localhost:5000"
+              title="Base URL of the acquisition backend"
+            />
+            <select
+              value={bridge.link}
+              onChange={e => onBridgeChange({ link: e.target.value as BridgeLink })}
+              disabled={status !== 'disconnected'}
+              className="px-2 py-0.5 border rounded-md text-sm disabled:bg-gray-100"
+              title="Which of the backend's device links to stream"
+            >
+              <option value="usb">USB</option>
+              <option value="bluetooth">Bluetooth</option>
+            </select>
+          </div>
+        )}
+
+        {bridge && (
+          <label className="flex items-center gap-2 py-1.5 border-b text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bridge.backendCsv}
+              onChange={e => onBridgeChange({ backendCsv: e.target.checked })}
+              disabled={status !== 'disconnected'}
+              className="w-4 h-4"
+            />
+            Backend also writes its own CSV
+          </label>
+        )}
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Device</span>
+          <span className="text-sm font-medium truncate ml-2">{connected ? channel.transport.deviceName : '—'}</span>
+        </div>
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Status</span>
+          <span
+            className={
+              status === 'connected'
+                ? 'text-sm font-medium text-green-600'
+                : status === 'reconnecting'
+                  ? 'text-sm font-medium text-amber-600'
+                  : status === 'error'
+                    ? 'text-sm font-medium text-red-600'
+                    : 'text-sm font-medium text-gray-600'
+            }
+          >
+            {streaming ? (status === 'reconnecting' ? 'Paused (link lost)' : 'Streaming') : 'Stopped'}
+            {channel.isRecording && <span className="ml-1 text-red-600" title="Recording">●</span>}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Device Gain</span>
+          <span className="text-sm font-medium" title="Last gain the device acknowledged">
+            {channel.unconfirmedGain !== null ? (
+              <span className="text-amber-600" title="Sent with Start; the device has not acknowledged it">
+                {channel.unconfirmedGain} (unconfirmed)
+              </span>
+            ) : (
+              (channel.deviceGain ?? '—')
+            )}
+            {channel.pendingGain !== null && (
+              <span className="text-xs text-amber-600 ml-1">(setting {channel.pendingGain}…)</span>
+            )}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Drop Rate</span>
+          <span
+            className={linkStats.recentDropRate > 0.01 ? 'text-sm font-medium text-red-600' : 'text-sm font-medium'}
+            title={`${linkStats.framesLost} frames (~${linkStats.samplesLost} samples) lost in ${linkStats.gaps} gaps`}
+          >
+            {(linkStats.recentDropRate * 100).toFixed(1)}%
+            <span className="text-xs text-gray-500 ml-1">({linkStats.framesLost} lost)</span>
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Clipping</span>
+          <span
+            className={clipStats.active ? 'text-sm font-medium text-red-600' : 'text-sm font-medium'}
+            title={`${clipStats.clipped} of ${clipStats.samples} samples at or near an ADC rail this stream`}
+          >
+            {(clipStats.recentFraction * 100).toFixed(1)}%
+            <span className="text-xs text-gray-500 ml-1">({(clipStats.fraction * 100).toFixed(1)}% overall)</span>
+          </span>
+        </div>
+
+        {/* The backend decodes bridge frames, so the parser never sees them */}
+        {!bridge && (
+          <div className="flex items-center justify-between py-1.5 border-b">
+            <span className="text-sm text-gray-600">Parse Errors</span>
+            <span
+              className={malformed > 0 ? 'text-sm font-medium text-red-600' : 'text-sm font-medium'}
+              title={
+                (Object.keys(MALFORMED_REASON_LABELS) as MalformedReason[])
+                  .map(r => `${MALFORMED_REASON_LABELS[r]}: ${parseStats.malformed[r]}`)
+                  .join('\n')
+              }
+            >
+              {malformed}
+              <span className="text-xs text-gray-500 ml-1">of {parseStats.frames + malformed} frames</span>
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Sample Rate</span>
+          <span className="text-sm font-medium" title={`Estimated from host arrival times; nominal ${nominalRate} Hz`}>
+            {clockStats.sampleRate === null ? '—' : `${clockStats.sampleRate.toFixed(1)} Hz`}
+            {clockStats.driftPct !== null && (
+              <span
+                className={Math.abs(clockStats.driftPct) > 1 ? 'text-xs text-red-600 ml-1' : 'text-xs text-gray-500 ml-1'}
+              >
+                ({clockStats.driftPct >= 0 ? '+' : ''}{clockStats.driftPct.toFixed(2)}%)
+              </span>
+            )}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between py-1.5 border-b">
+          <span className="text-sm text-gray-600">Timing Jitter</span>
+          <span className="text-sm font-medium" title="RMS deviation of frame arrivals from the fitted sample clock">
+            {clockStats.sampleRate === null ? '—' : `±${clockStats.jitterMs.toFixed(1)} ms`}
+          </span>
+        </div>
+
+        <div className="flex items-center justify-between py-1.5">
+          <span className="text-sm text-gray-600">Connection</span>
+          <div className="flex items-center gap-1">
+            {statusIcon}
+            <span className="text-sm">{statusLabel}</span>
+          </div>
+        </div>
+      </div>
+
+      {connected && (
+        <details className="mt-2 border-t pt-2">
+          <summary className="text-sm text-gray-600 cursor-pointer select-none">Device info</summary>
+          <div className="mt-2">
+            <DeviceInfoPanel
+              info={info}
+              deviceGain={channel.deviceGain}
+              connected={connected}
+              onRefresh={() => channel.transport.refreshInfo()}
+            />
+          </div>
+        </details>
+      )}
+
+      {connected && !bridge && (
+        <details className="mt-2 border-t pt-2">
+          <summary className="text-sm text-gray-600 cursor-pointer select-none">Frame parser</summary>
+          <div className="mt-2">
+            <ParseStatsPanel stats={parseStats} />
+          </div>
+        </details>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <input
+          type="number"
+          min={0}
+          max={15}
+          value={gainValue}
+          onChange={e => {
+            setGainValue(e.target.value)
+            const gain = parseGain(e.target.value)
+            if (gain !== null) onGainChange(gain)
+          }}
+          className="w-20 px-2 py-1 border rounded-md text-sm"
+          title="Gain (0–15)"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!connected || channel.pendingGain !== null}
+          className="px-3 py-1 text-sm text-white rounded-md flex items-center gap-1 transition-colors disabled:bg-gray-300"
+          style={{ backgroundColor: connected ? '#912335' : undefined }}
+          onMouseEnter={(e) => connected && (e.currentTarget.style.backgroundColor = '#7a1e2d')}
+          onMouseLeave={(e) => connected && (e.currentTarget.style.backgroundColor = '#912335')}
+        >
+          <Send className="w-3.5 h-3.5" />
+          Gain
+        </button>
+
+        <div className="flex-1" />
+
+        {status === 'disconnected' ? (
+          <button
+            onClick={onConnect}
+            disabled={!channel.transport.isSupported}
+            className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            🔌 Connect
+          </button>
+        ) : (
+          <button
+            onClick={onDisconnect}
+            className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50"
+          >
+            Disconnect
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 mt-2">
+        <button
+          onClick={() => onAutoRange(false)}
+          disabled={!streaming || channel.autoRanging}
+          className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50 flex items-center gap-1 disabled:text-gray-400 disabled:cursor-not-allowed"
+          title={`Watch ${AUTO_RANGE_SECONDS}s of signal and suggest a gain`}
+        >
+          <Gauge className="w-3.5 h-3.5" />
+          Suggest gain
+        </button>
+        <button
+          onClick={() => onAutoRange(true)}
+          disabled={!streaming || channel.autoRanging}
+          className="px-3 py-1 text-sm border rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed"
+          title="Watch the signal and set the best gain, stepping down while it still clips"
+        >
+          Auto-range
+        </button>
+        {channel.autoRanging && <span className="text-xs text-gray-500">Watching signal…</span>}
+      </div>
+
+      {advice && !channel.autoRanging && (
+        <div className="flex items-center justify-between gap-2 mt-2 text-xs text-gray-700">
+          <span>
+            Suggested gain <b>{advice.gain}</b> (peak {Math.round(advice.peak)} counts at gain {advice.fromGain}
+            {advice.clipped ? ', clipping — check again once applied' : ''})
+          </span>
+          {advice.gain !== channel.appliedGain && (
+            <button
+              onClick={() => {
+                onGainChange(advice.gain)
+                onSendGain(advice.gain)
+              }}
+              disabled={!connected || channel.pendingGain !== null}
+              className="px-2 py-0.5 border rounded-md hover:bg-gray-50 disabled:text-gray-400"
+            >
+              Apply
+            </button>
+          )}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm mt-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={channel.record}
+          onChange={e => onRecordChange(e.target.checked)}
+          disabled={running}
+          className="w-4 h-4"
+        />
+        Record this sensor
+      </label>
+    </div>
+  )
+}
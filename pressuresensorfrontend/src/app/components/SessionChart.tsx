@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceArea,
+  ReferenceLine,
+} from 'recharts'
+import { loadSessionData, type SessionData } from '@/app/services/sessionStore'
+import { kPaToUnit, type PressureUnit } from '@/app/services/calibration'
+import { clippedRanges } from '@/app/services/clipping'
+import type { RecordingEvent } from '@/app/services/markers'
+
+const MAX_POINTS = 2000
+
+interface ChartPoint {
+  index: number
+  raw: number | null
+  filtered: number | null
+}
+
+/**
+ * Reduces a recording to at most MAX_POINTS points by keeping each
+ * bucket's min and max, so peaks survive. NaN (lost) samples become
+ * nulls, which Recharts draws as breaks in the line.
+ */
+export function decimateSession(data: Pick<SessionData, 'raw' | 'filtered'>, maxPoints = MAX_POINTS): ChartPoint[] {
+  const n = data.raw.length
+  const points: ChartPoint[] = []
+  const value = (v: number) => (Number.isNaN(v) ? null : v)
+
+  if (n <= maxPoints) {
+    for (let i = 0; i < n; i++) {
+      points.push({ index: i, raw: value(data.raw[i]), filtered: value(data.filtered[i]) })
+    }
+    return points
+  }
+
+  const bucket = Math.ceil(n / (maxPoints / 2))
+  for (let start = 0; start < n; start += bucket) {
+    const end = Math.min(n, start + bucket)
+    let lo = start
+    let hi = start
+    for (let i = start; i < end; i++) {
+      if (Number.isNaN(data.raw[i])) continue
+      if (Number.isNaN(data.raw[lo]) || data.raw[i] < data.raw[lo]) lo = i
+      if (Number.isNaN(data.raw[hi]) || data.raw[i] > data.raw[hi]) hi = i
+    }
+    const picks = lo === hi ? [lo] : lo < hi ? [lo, hi] : [hi, lo]
+    for (const i of picks) {
+      points.push({ index: i, raw: value(data.raw[i]), filtered: value(data.filtered[i]) })
+    }
+  }
+  return points
+}
+
+interface SessionChartProps {
+  sessionId: number
+  showRaw?: boolean
+  showFiltered?: boolean
+  height?: number
+  /** Physical units plot the calibrated pressure trace instead of raw/filtered */
+  unit?: PressureUnit
+  /** Drawn as labelled vertical lines */
+  events?: RecordingEvent[]
+}
+
+export default function SessionChart({
+  sessionId,
+  showRaw = true,
+  showFiltered = true,
+  height = 320,
+  unit = 'raw',
+  events = [],
+}: SessionChartProps) {
+  const [data, setData] = useState<SessionData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setData(null)
+    setError(null)
+
+    loadSessionData(sessionId)
+      .then(d => !cancelled && setData(d))
+      .catch(err => !cancelled && setError(err.message))
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  const points = useMemo(() => {
+    if (!data) return []
+    if (unit === 'raw') return decimateSession(data)
+    if (!data.pressure) return []
+
+    const pressure = data.pressure.map(v => kPaToUnit(v, unit))
+    return decimateSession({ raw: pressure, filtered: pressure })
+  }, [data, unit])
+
+  // Clipping is a property of the device counts, whatever unit is shown
+  const clipped = useMemo(
+    () => (data ? clippedRanges(data.raw, Math.ceil(data.raw.length / MAX_POINTS)) : []),
+    [data],
+  )
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load session data: {error}</p>
+  }
+
+  if (!data) {
+    return <p className="text-sm text-gray-500">Loading session data…</p>
+  }
+
+  if (unit !== 'raw' && !data.pressure) {
+    return <p className="text-sm text-gray-500">This session was recorded without a calibration — switch to raw counts.</p>
+  }
+
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">This session has no samples.</p>
+  }
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+          <XAxis dataKey="index" type="number" domain={['dataMin', 'dataMax']} stroke="#6B7280" tick={{ fontSize: 12 }} />
+          <YAxis stroke="#6B7280" tick={{ fontSize: 12 }} />
+          <Tooltip />
+          <Legend />
+          {clipped.map(([start, end]) => (
+            <ReferenceArea key={start} x1={start} x2={end - 1} fill="#f59e0b" fillOpacity={0.2} ifOverflow="hidden" />
+          ))}
+          {events.map((event, i) => (
+            <ReferenceLine
+              key={i}
+              x={event.index}
+              stroke="#7c3aed"
+              strokeWidth={1.5}
+              ifOverflow="hidden"
+              label={{ value: event.label, position: 'insideTopRight', fill: '#7c3aed', fontSize: 12 }}
+            />
+          ))}
+          {unit !== 'raw' && (
+            <Line type="linear" dataKey="raw" stroke="#912335" strokeWidth={1.5} dot={false} isAnimationActive={false} name={`Pressure (${unit})`} />
+          )}
+          {unit === 'raw' && showRaw && (
+            <Line type="linear" dataKey="raw" stroke="#B84A5D" strokeWidth={1} dot={false} isAnimationActive={false} name="Raw" />
+          )}
+          {unit === 'raw' && showFiltered && (
+            <Line type="linear" dataKey="filtered" stroke="#912335" strokeWidth={1.5} dot={false} isAnimationActive={false} name="Filtered" />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,365 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Database, Download, MapPin, Search, Trash2, Save } from 'lucide-react'
+import { Card } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import SessionChart from './SessionChart'
+import EventMarkersEditor from './EventMarkersEditor'
+import { deleteSession, listSessions, updateSession, type SessionMeta } from '@/app/services/sessionStore'
+import { UNIT_LABELS, type PressureUnit } from '@/app/services/calibration'
+import { sortEvents, type RecordingEvent } from '@/app/services/markers'
+import {
+  downloadGroupCsv,
+  downloadSessionCsv,
+  formatDuration,
+  sessionDuration,
+  sessionGroup,
+  sessionStats,
+} from '@/app/services/sessionHelpers'
+
+/* =========================
+   Helpers
+========================= */
+
+const matchesQuery = (s: SessionMeta, query: string) => {
+  const q = query.trim().toLowerCase()
+  if (!q) return true
+
+  return [
+    `#${s.id}`,
+    s.deviceName,
+    s.mode,
+    s.notes,
+    s.activity?.description ?? '',
+    s.channel?.label ?? '',
+    new Date(s.startedAt).toLocaleString(),
+  ].some(field => field.toLowerCase().includes(q))
+}
+
+/* =========================
+   Component
+========================= */
+
+export default function SessionsPage() {
+  const [sessions, setSessions] = useState<SessionMeta[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [notesDraft, setNotesDraft] = useState('')
+  const [eventsDraft, setEventsDraft] = useState<RecordingEvent[]>([])
+  const [unit, setUnit] = useState<PressureUnit>('raw')
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions())
+      setError(null)
+    } catch (err: any) {
+      setError(`Failed to open session library: ${err.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+  }, [])
+
+  const filtered = useMemo(() => sessions.filter(s => matchesQuery(s, query)), [sessions, query])
+  const selected = sessions.find(s => s.id === selectedId) ?? null
+  const stats = selected ? sessionStats(selected, unit) : null
+  const group = selected ? sessionGroup(sessions, selected) : []
+
+  useEffect(() => {
+    setNotesDraft(selected?.notes ?? '')
+    setEventsDraft(selected?.events ?? [])
+    if (!selected?.pressureStats) setUnit('raw')
+  }, [selected?.id])
+
+  const handleSaveNotes = async () => {
+    if (!selected) return
+    try {
+      await updateSession(selected.id, { notes: notesDraft })
+      await refresh()
+    } catch (err: any) {
+      setError(`Failed to save notes: ${err.message}`)
+    }
+  }
+
+  const eventsChanged = JSON.stringify(eventsDraft) !== JSON.stringify(selected?.events ?? [])
+
+  const handleSaveEvents = async () => {
+    if (!selected) return
+    try {
+      await updateSession(selected.id, { events: sortEvents(eventsDraft.filter(e => e.label.trim())) })
+      await refresh()
+    } catch (err: any) {
+      setError(`Failed to save markers: ${err.message}`)
+    }
+  }
+
+  const handleDelete = async (session: SessionMeta) => {
+    if (!window.confirm(`Delete session #${session.id}? This cannot be undone.`)) return
+    try {
+      await deleteSession(session.id)
+      if (selectedId === session.id) setSelectedId(null)
+      await refresh()
+    } catch (err: any) {
+      setError(`Failed to delete session #${session.id}: ${err.message}`)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Session list */}
+        <Card className="p-6 bg-white border border-border shadow-sm gap-4">
+          <div className="flex items-center gap-2">
+            <Database className="w-5 h-5 text-primary" />
+            <h2 className="text-xl font-semibold text-foreground">Session Library</h2>
+          </div>
+
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-2.5 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search notes, device, activity…"
+              className="pl-9"
+            />
+          </div>
+
+          {loading && <p className="text-sm text-muted-foreground">Loading…</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!loading && !error && filtered.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              {sessions.length === 0 ? 'No recorded sessions yet.' : 'No sessions match your search.'}
+            </p>
+          )}
+
+          <div className="space-y-2 max-h-[640px] overflow-y-auto">
+            {filtered.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setSelectedId(s.id)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  s.id === selectedId ? 'border-primary bg-secondary' : 'border-border hover:bg-secondary/50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm flex items-center gap-2">
+                    #{s.id}
+                    {s.channel && (
+                      <span
+                        className="px-1.5 py-0.5 rounded text-xs text-white"
+                        style={{ backgroundColor: s.channel.color }}
+                        title="Recorded together with other sensors"
+                      >
+                        Ch {s.channel.index}/{s.channel.count} · {s.channel.label}
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{new Date(s.startedAt).toLocaleString()}</span>
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {s.activity?.description ?? 'No activity'} · {sessionDuration(s)} · {s.mode.toUpperCase()}
+                </div>
+                {s.notes && <div className="text-xs text-foreground mt-1 truncate">{s.notes}</div>}
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        {/* Session detail */}
+        <Card className="p-6 bg-white border border-border shadow-sm lg:col-span-2 gap-4">
+          {!selected ? (
+            <p className="text-sm text-muted-foreground">Select a session to review it.</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-foreground">Session #{selected.id}</h2>
+                <div className="flex gap-2">
+                  <select
+                    value={unit}
+                    onChange={e => setUnit(e.target.value as PressureUnit)}
+                    className="px-2 py-1 border rounded-md text-sm"
+                  >
+                    {(Object.keys(UNIT_LABELS) as PressureUnit[]).map(u => (
+                      <option key={u} value={u} disabled={u !== 'raw' && !selected.pressureStats}>
+                        {UNIT_LABELS[u]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    onClick={() => downloadSessionCsv(selected, unit)}
+                    className="bg-primary hover:bg-primary/90 text-white flex items-center gap-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export CSV
+                  </Button>
+                  {group.length > 1 && (
+                    <Button
+                      variant="outline"
+                      onClick={() => downloadGroupCsv(group, unit)}
+                      className="flex items-center gap-2"
+                      title="All channels recorded together, one row per channel sample"
+                    >
+                      <Download className="w-4 h-4" />
+                      Export all channels
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => handleDelete(selected)}
+                    className="text-red-600 flex items-center gap-2"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Started</p>
+                  <p className="font-medium">{new Date(selected.startedAt).toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Ended</p>
+                  <p className="font-medium">
+                    {selected.endedAt === null ? 'Incomplete' : new Date(selected.endedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Device</p>
+                  <p className="font-medium">{selected.deviceName} ({selected.mode.toUpperCase()})</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Firmware / battery</p>
+                  <p className="font-medium">
+                    {selected.device?.firmware ?? '—'} / {selected.device?.battery == null ? '—' : `${selected.device.battery}%`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Activity</p>
+                  <p className="font-medium">{selected.activity?.description ?? '—'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Samples</p>
+                  <p className="font-medium">
+                    {selected.sampleCount.toLocaleString()}
+                    {selected.sampleRate ? ` @ ${selected.sampleRate.toFixed(1)} Hz` : ''}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Dropped</p>
+                  <p className="font-medium">
+                    {selected.droppedFrames} frames ({selected.lostSamples} samples)
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Clipped</p>
+                  <p className={`font-medium ${selected.clippedSamples ? 'text-red-600' : ''}`}>
+                    {selected.clippedPercent === undefined
+                      ? '—'
+                      : `${selected.clippedPercent.toFixed(2)}% (${selected.clippedSamples} samples)`}
+                  </p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-muted-foreground">Signal ({UNIT_LABELS[unit]})</p>
+                  <p className="font-medium">
+                    {stats
+                      ? `mean ${stats.mean.toFixed(2)} · range ${stats.min.toFixed(2)} – ${stats.max.toFixed(2)} · noise ±${stats.noiseRms.toFixed(3)}`
+                      : '—'}
+                  </p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-muted-foreground">Gain history</p>
+                  <p className="font-medium">
+                    {selected.gainHistory.map(g => `${g.gain} @ ${formatDuration(g.at)}`).join(' → ')}
+                  </p>
+                </div>
+                {selected.channel && (
+                  <div className="col-span-2 md:col-span-4">
+                    <p className="text-muted-foreground">Recorded with</p>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      {group.map(s => (
+                        <button
+                          key={s.id}
+                          onClick={() => setSelectedId(s.id)}
+                          disabled={s.id === selected.id}
+                          className="flex items-center gap-1 px-2 py-0.5 border rounded-md text-xs hover:bg-secondary/50 disabled:bg-secondary"
+                        >
+                          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: s.channel!.color }} />
+                          #{s.id} {s.channel!.label} · {s.deviceName}
+                        </button>
+                      ))}
+                      {group.length < selected.channel.count && (
+                        <span className="text-xs text-muted-foreground self-center">
+                          {selected.channel.count - group.length} channel(s) deleted
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className="col-span-2">
+                  <p className="text-muted-foreground">Zero / tare</p>
+                  <p className="font-medium">
+                    {selected.baseline
+                      ? `${selected.baseline.value.toFixed(1)} counts · ${
+                          selected.baseline.method === 'tracking'
+                            ? `drift tracking (τ ${selected.baseline.driftTimeConstantSec}s)`
+                            : 'static'
+                        } · ${selected.baseline.windowSamples} sample window`
+                      : 'None'}
+                  </p>
+                </div>
+              </div>
+
+              <SessionChart sessionId={selected.id} unit={unit} events={eventsDraft} />
+
+              <div>
+                <label className="flex items-center gap-1 text-sm text-muted-foreground mb-2">
+                  <MapPin className="w-4 h-4" />
+                  Event markers
+                </label>
+                <EventMarkersEditor
+                  events={eventsDraft}
+                  onChange={setEventsDraft}
+                  rowCount={selected.sampleCount + selected.lostSamples}
+                  sampleRate={selected.sampleRate ?? null}
+                />
+                <Button
+                  onClick={handleSaveEvents}
+                  disabled={!eventsChanged}
+                  className="mt-2 bg-primary hover:bg-primary/90 text-white flex items-center gap-2"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Markers
+                </Button>
+              </div>
+
+              <div>
+                <label className="block text-sm text-muted-foreground mb-1">Notes</label>
+                <textarea
+                  value={notesDraft}
+                  onChange={e => setNotesDraft(e.target.value)}
+                  rows={3}
+                  className="w-full px-3 py-2 border rounded-md text-sm"
+                />
+                <Button
+                  onClick={handleSaveNotes}
+                  disabled={notesDraft === selected.notes}
+                  className="mt-2 bg-primary hover:bg-primary/90 text-white flex items-center gap-2"
+                >
+                  <Save className="w-4 h-4" />
+                  Save Notes
+                </Button>
+              </div>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -19,6 +19,12 @@ declare global {
     open(options: SerialOptions): Promise<void>
     close(): Promise<void>
     forget?(): Promise<void>
+    getInfo(): SerialPortInfo
+  }
+
+  interface SerialPortInfo {
+    usbVendorId?: number
+    usbProductId?: number
   }
 
   interface SerialOptions {
@@ -70,6 +76,7 @@ declare global {
     transferIn(endpointNumber: number, length: number): Promise<USBInTransferResult>
     transferOut(endpointNumber: number, data: BufferSource): Promise<USBOutTransferResult>
     reset(): Promise<void>
+    forget?(): Promise<void>
   }
 
   interface USBConfiguration {
@@ -137,9 +144,15 @@ declare global {
     filters: USBDeviceFilter[]
   }
 
+  interface USBConnectionEvent extends Event {
+    device: USBDevice
+  }
+
   interface USB extends EventTarget {
     getDevices(): Promise<USBDevice[]>
     requestDevice(options: USBDeviceRequestOptions): Promise<USBDevice>
+    addEventListener(type: 'connect' | 'disconnect', listener: (ev: USBConnectionEvent) => any): void
+    removeEventListener(type: 'connect' | 'disconnect', listener: (ev: USBConnectionEvent) => any): void
   }
 
   // ============================================
@@ -150,9 +163,13 @@ declare global {
     id: string
     name?: string
     gatt?: BluetoothRemoteGATTServer
+    /** Not yet in every browser */
+    watchAdvertisements?(options?: { signal?: AbortSignal }): Promise<void>
+    forget?(): Promise<void>
     addEventListener(
-      type: 'gattserverdisconnected',
-      listener: (this: this, ev: Event) => any
+      type: 'gattserverdisconnected' | 'advertisementreceived',
+      listener: (this: this, ev: Event) => any,
+      options?: boolean | AddEventListenerOptions
     ): void
   }
 
@@ -194,6 +211,8 @@ declare global {
       filters?: { namePrefix?: string }[]
       optionalServices?: BluetoothServiceUUID[]
     }): Promise<BluetoothDevice>
+    /** Devices already granted to this origin; behind a flag in some browsers */
+    getDevices?(): Promise<BluetoothDevice[]>
   }
 
   // ============================================
@@ -207,7 +226,7 @@ declare global {
 
   interface FileSystemFileHandle extends FileSystemHandle {
     getFile(): Promise<File>
-    createWritable(): Promise<FileSystemWritableFileStream>
+    createWritable(options?: { keepExistingData?: boolean }): Promise<FileSystemWritableFileStream>
   }
 
   interface FileSystemDirectoryHandle extends FileSystemHandle {
@@ -219,6 +238,8 @@ declare global {
 
   interface FileSystemWritableFileStream extends WritableStream {
     write(data: BufferSource | Blob | string): Promise<void>
+    seek(position: number): Promise<void>
+    truncate(size: number): Promise<void>
     close(): Promise<void>
   }
 
@@ -0,0 +1,484 @@
+import { useSyncExternalStore } from 'react'
+import {
+  DEFAULT_SIMULATOR_OPTIONS,
+  isBatteryLow,
+  saveBridgeOptions,
+  type BridgeOptions,
+  type ConnectionMode,
+  type LogLevel,
+  type SimulatorOptions,
+} from './transports'
+import type { FilterSpec } from './dsp'
+import type { PressureUnit } from './calibration'
+import { DEFAULT_BASELINE_OPTIONS, type BaselineOptions } from './baseline'
+import { CsvDirectorySink, Recorder, csvFileName, type RecordingActivity, type RecordingSink } from './recorder'
+import { SessionStoreSink, isSessionStoreSupported } from './sessionStore'
+import { SensorChannel, type SensorChannelCallbacks } from './sensorChannel'
+import { displayName, getAutoConnect, getLastDeviceKey, listKnownDevices, modeOfKey, type KnownDevice } from './knownDevices'
+
+/* =========================
+   Acquisition store
+   Owns the sensors, their settings, the system log and recording for
+   the lifetime of the app rather than of the Live page, so a
+   measurement keeps running while the user browses other routes.
+   Components subscribe through useAcquisition().
+========================= */
+
+export interface LogEntry {
+  timestamp: string
+  type: LogLevel
+  message: string
+}
+
+/** Settings shared by every sensor and by the next recording */
+export interface AcquisitionSettings {
+  /** Real-time filter chain, run separately on each sensor */
+  filterSpecs: FilterSpec[]
+  filterSampleRate: number
+  baselineOptions: BaselineOptions
+  /** Shared by every simulated sensor */
+  simOptions: SimulatorOptions
+  /** Display units; calibration curves are per sensor */
+  unit: PressureUnit
+  saveSession: boolean
+  sessionNotes: string
+  csvEnabled: boolean
+}
+
+const DEFAULT_SAMPLE_RATE = 1000
+/** Oldest entries are dropped past this, since the log now lives as long as the app */
+const MAX_LOG_ENTRIES = 1000
+/** How often stream readouts (drop rate, baseline, sample rate) refresh while streaming */
+const STATS_REFRESH_MS = 250
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+
+/** Which connection modes this browser can use */
+export function modeSupport(): Record<ConnectionMode, boolean> {
+  return {
+    serial: 'serial' in navigator,
+    usb: 'usb' in navigator,
+    bluetooth: 'bluetooth' in navigator,
+    simulator: true,
+    bridge: true,
+  }
+}
+
+/** New sensors start in the first mode the browser supports */
+function defaultMode(): ConnectionMode {
+  const supported = modeSupport()
+  return supported.serial ? 'serial' : supported.usb ? 'usb' : supported.bluetooth ? 'bluetooth' : 'simulator'
+}
+
+export class AcquisitionStore {
+  channels: SensorChannel[]
+  logs: LogEntry[] = []
+  settings: AcquisitionSettings = {
+    filterSpecs: [],
+    filterSampleRate: DEFAULT_SAMPLE_RATE,
+    baselineOptions: DEFAULT_BASELINE_OPTIONS,
+    simOptions: DEFAULT_SIMULATOR_OPTIONS,
+    unit: 'raw',
+    saveSession: isSessionStoreSupported(),
+    sessionNotes: '',
+    csvEnabled: false,
+  }
+  /** Folder CSV recordings are written to */
+  folderHandle: FileSystemDirectoryHandle | null = null
+  /** Exercise selected in the sidebar, stamped into recordings */
+  activity: RecordingActivity | null = null
+  /** Wall-clock ms the current recording started */
+  recordingStartedAt: number | null = null
+  /** Markers dropped since the last start, oldest first */
+  markers: { label: string; at: number }[] = []
+
+  // Bumped on every change; the snapshot React compares
+  private revision = 0
+  private listeners = new Set<() => void>()
+  // Stream readouts, bumped at most every STATS_REFRESH_MS while samples arrive
+  private statsRevision = 0
+  private statsListeners = new Set<() => void>()
+  private statsTimer: ReturnType<typeof setTimeout> | null = null
+  private autoConnectTried = false
+
+  private channelCallbacks: SensorChannelCallbacks = {
+    log: (channel, type, message) => this.logFor(channel, type, message),
+    change: () => this.emit(),
+    stats: () => this.statsChanged(),
+  }
+
+  constructor() {
+    this.channels = [this.createChannel(1, defaultMode())]
+  }
+
+  /* =========================
+     Subscription
+  ========================= */
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.revision
+
+  private emit() {
+    this.revision++
+    this.listeners.forEach(listener => listener())
+  }
+
+  subscribeStats = (listener: () => void) => {
+    this.statsListeners.add(listener)
+    return () => {
+      this.statsListeners.delete(listener)
+    }
+  }
+
+  getStatsSnapshot = () => this.statsRevision
+
+  // Frames arrive tens of times a second; readouts don't need to keep up
+  private statsChanged() {
+    if (this.statsTimer) return
+    this.statsTimer = setTimeout(() => {
+      this.statsTimer = null
+      this.statsRevision++
+      this.statsListeners.forEach(listener => listener())
+    }, STATS_REFRESH_MS)
+  }
+
+  /* =========================
+     Derived state
+  ========================= */
+
+  get isRunning() {
+    return this.channels.some(c => c.streaming)
+  }
+
+  get isRecording() {
+    return this.channels.some(c => c.isRecording)
+  }
+
+  get connectedKeys() {
+    return this.channels.flatMap(c => (c.deviceKey ? [c.deviceKey] : []))
+  }
+
+  // The simulator's rate is known exactly, so its filters follow it
+  nominalRate(channel: SensorChannel) {
+    return channel.mode === 'simulator' ? this.settings.simOptions.sampleRate : this.settings.filterSampleRate
+  }
+
+  /* =========================
+     Log
+  ========================= */
+
+  addLog(type: LogLevel, message: string) {
+    const entry = { timestamp: new Date().toLocaleTimeString(), type, message }
+    this.logs = [...this.logs, entry].slice(-MAX_LOG_ENTRIES)
+    this.emit()
+  }
+
+  // Messages are tagged with the sensor once there is more than one
+  logFor(channel: SensorChannel, type: LogLevel, message: string) {
+    this.addLog(type, this.channels.length > 1 ? `[${channel.label}] ${message}` : message)
+  }
+
+  /* =========================
+     Settings
+  ========================= */
+
+  updateSettings(patch: Partial<AcquisitionSettings>) {
+    const previous = this.settings
+    this.settings = { ...previous, ...patch }
+    const next = this.settings
+
+    const ratesChanged =
+      next.filterSpecs !== previous.filterSpecs ||
+      next.filterSampleRate !== previous.filterSampleRate ||
+      next.simOptions.sampleRate !== previous.simOptions.sampleRate
+
+    this.channels.forEach(c => {
+      if (ratesChanged) c.configure(next.filterSpecs, this.nominalRate(c))
+      if (ratesChanged || next.baselineOptions !== previous.baselineOptions) c.configureBaseline(next.baselineOptions)
+      if (next.simOptions !== previous.simOptions) c.configureSimulator(next.simOptions)
+      if (next.sessionNotes !== previous.sessionNotes) c.activeRecorder?.setNotes(next.sessionNotes)
+    })
+    this.emit()
+  }
+
+  setActivity(activity: RecordingActivity | null) {
+    this.activity = activity
+    this.emit()
+  }
+
+  async selectFolder() {
+    try {
+      if (!('showDirectoryPicker' in window)) {
+        this.addLog('error', 'Your browser does not support folder selection. Please use Chrome, Edge, or Opera.')
+        return
+      }
+
+      // @ts-ignore
+      const dirHandle = await window.showDirectoryPicker({
+        mode: 'readwrite',
+        startIn: 'downloads'
+      })
+
+      this.folderHandle = dirHandle
+      this.addLog('info', `Folder selected: ${dirHandle.name}`)
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        this.addLog('info', 'Folder selection cancelled')
+      } else {
+        this.addLog('error', `Folder selection failed: ${err.message}`)
+      }
+    }
+  }
+
+  /* =========================
+     Sensors
+  ========================= */
+
+  addChannel(mode: ConnectionMode = defaultMode()) {
+    const id = Math.max(0, ...this.channels.map(c => c.id)) + 1
+    const channel = this.createChannel(id, mode)
+    this.channels = [...this.channels, channel]
+    this.emit()
+    return channel
+  }
+
+  async removeChannel(channel: SensorChannel) {
+    this.channels = this.channels.filter(c => c !== channel)
+    this.emit()
+    await channel.dispose()
+  }
+
+  async setMode(channel: SensorChannel, mode: ConnectionMode) {
+    await channel.setMode(mode)
+    this.configureChannel(channel)
+  }
+
+  /** Edits made straight on a channel's fields, e.g. its label or calibration */
+  updateChannel(channel: SensorChannel, patch: Partial<Pick<SensorChannel, 'label' | 'color' | 'record' | 'gain' | 'calibration'>>) {
+    Object.assign(channel, patch)
+    this.emit()
+  }
+
+  /** Also remembered as the default for the next bridge sensor */
+  configureBridge(channel: SensorChannel, options: Partial<BridgeOptions>) {
+    channel.configureBridge(options)
+    if (channel.bridgeOptions) saveBridgeOptions(channel.bridgeOptions)
+    this.emit()
+  }
+
+  async connectKnown(device: KnownDevice) {
+    const mode = device.handle.mode
+    const idle = this.channels.filter(c => c.status === 'disconnected' && !c.streaming)
+    // Prefer an idle sensor already in the right mode, then any idle one
+    const channel = idle.find(c => c.mode === mode) ?? idle[0] ?? this.addChannel(mode)
+
+    await this.setMode(channel, mode)
+    await channel.connect(device.handle)
+  }
+
+  /** Reconnects the last device once per app start, if the user asked for that */
+  async autoConnect() {
+    if (this.autoConnectTried) return
+    this.autoConnectTried = true
+
+    const key = getLastDeviceKey()
+    if (!getAutoConnect() || !key) return
+
+    try {
+      const device = (await listKnownDevices(modeOfKey(key))).find(d => d.key === key)
+      if (!device) return
+      this.addLog('info', `Auto-connecting to ${displayName(device)}`)
+      await this.connectKnown(device)
+    } catch (e: any) {
+      this.addLog('warning', `Auto-connect failed: ${e?.message ?? e}`)
+    }
+  }
+
+  private createChannel(id: number, mode: ConnectionMode) {
+    const channel = new SensorChannel(id, mode, this.channelCallbacks)
+    this.configureChannel(channel)
+    return channel
+  }
+
+  private configureChannel(channel: SensorChannel) {
+    const { filterSpecs, baselineOptions, simOptions } = this.settings
+    channel.configure(filterSpecs, this.nominalRate(channel))
+    channel.configureBaseline(baselineOptions)
+    channel.configureSimulator(simOptions)
+  }
+
+  /* =========================
+     Measurement
+  ========================= */
+
+  /**
+   * Starts every connected sensor on a shared clock and records the ones
+   * marked for recording. `confirm` is asked before starting on a low
+   * battery.
+   */
+  async start(confirm: (message: string) => boolean) {
+    const channels = this.channels
+
+    // A lone sensor connects on Start, as before there were several
+    const only = channels.length === 1 ? channels[0] : null
+    if (only && !only.transport.isConnected) {
+      await only.connect()
+    }
+
+    const ready = channels.filter(c => c.transport.isConnected)
+    if (ready.length === 0) {
+      this.addLog('error', only ? `${only.mode.toUpperCase()} device not available` : 'No sensor connected')
+      return
+    }
+
+    const lowBattery = ready.filter(c => isBatteryLow(c.transport.info))
+    if (lowBattery.length > 0) {
+      const levels = lowBattery.map(c => `${c.label}: ${c.transport.info.battery}%`).join(', ')
+      lowBattery.forEach(c => this.logFor(c, 'warning', `🪫 Battery low (${c.transport.info.battery}%)`))
+      if (!confirm(`Low battery (${levels}). The sensor may shut down mid-session. Start anyway?`)) return
+    }
+
+    ready.forEach(c => this.logFor(c, 'command', `${c.mode.toUpperCase()} START`))
+    this.markers = []
+
+    // One origin for every sensor puts their samples on a shared timeline
+    const origin = performance.now()
+    ready.forEach(c => c.resetStream(origin))
+
+    const recorders = await this.startRecording(ready.filter(c => c.record))
+    this.recordingStartedAt = recorders.size > 0 ? Date.now() : null
+    await Promise.all(ready.map(c => c.start(recorders.get(c) ?? null)))
+  }
+
+  async stop() {
+    const streaming = this.channels.filter(c => c.streaming)
+    streaming.forEach(c => this.logFor(c, 'command', `${c.mode.toUpperCase()} STOP`))
+    await Promise.all(streaming.map(c => c.stop()))
+  }
+
+  async sendGain(channel: SensorChannel, gain: number) {
+    channel.gain = gain
+    this.logFor(channel, 'command', `${channel.mode.toUpperCase()} SET_GAIN ${gain}`)
+    await channel.sendGain(gain)
+  }
+
+  /** Drops a labelled marker on every streaming sensor at its current sample */
+  addMarker(label: string) {
+    const text = label.trim()
+    if (!text) return
+
+    const streaming = this.channels.filter(c => c.streaming)
+    if (streaming.length === 0) {
+      this.addLog('warning', 'Markers can only be dropped while streaming')
+      return
+    }
+
+    streaming.forEach(c => c.mark(text))
+    this.markers = [...this.markers, { label: text, at: Date.now() }]
+    this.addLog('info', `📍 Marker "${text}"`)
+  }
+
+  /** Finds the best gain for the current signal; with `apply`, also sends it */
+  async autoRange(channel: SensorChannel, apply: boolean) {
+    this.logFor(channel, 'command', `${channel.mode.toUpperCase()} AUTO_RANGE${apply ? '' : ' (suggest only)'}`)
+    await channel.autoRange(apply)
+  }
+
+  zero() {
+    this.addLog('command', `ZERO (${this.settings.baselineOptions.windowSeconds}s window)`)
+    this.channels.filter(c => c.streaming).forEach(c => c.zero())
+  }
+
+  clearZero() {
+    this.channels.forEach(c => c.clearZero())
+  }
+
+  /**
+   * One recorder per sensor. Sensors recorded together share a group id,
+   * a start time for their CSV names and a time origin, so their rows
+   * line up by time_s.
+   */
+  private async startRecording(targets: SensorChannel[]) {
+    const { saveSession, csvEnabled, sessionNotes, unit } = this.settings
+    const folderHandle = this.folderHandle
+    const recorders = new Map<SensorChannel, Recorder>()
+    if (targets.length === 0 || (!saveSession && !csvEnabled)) return recorders
+
+    if (csvEnabled && !folderHandle) {
+      this.addLog('warning', 'CSV recording enabled but no folder selected — not writing CSV')
+    }
+
+    const startedAt = new Date()
+    const groupId = targets.length > 1 ? `${startedAt.getTime().toString(36)}` : null
+
+    for (const [i, channel] of targets.entries()) {
+      const sinks: RecordingSink[] = []
+
+      if (saveSession) {
+        sinks.push(new SessionStoreSink())
+      }
+
+      if (csvEnabled && folderHandle) {
+        const suffix = groupId ? `ch${i + 1}-${slug(channel.label)}` : ''
+        sinks.push(new CsvDirectorySink(folderHandle, csvFileName(suffix, startedAt)))
+      }
+
+      if (sinks.length === 0) continue
+
+      const recorder = new Recorder(sinks, {
+        onError: err => this.logFor(channel, 'error', `Recording write failed: ${err.message}`),
+      })
+
+      try {
+        await recorder.start({
+          mode: channel.mode,
+          deviceName: channel.transport.deviceName ?? 'Unknown',
+          device: channel.transport.info,
+          activity: this.activity,
+          channel: groupId
+            ? { groupId, index: i + 1, count: targets.length, label: channel.label, color: channel.color }
+            : null,
+          notes: sessionNotes,
+          gain: channel.gain,
+          calibration: channel.calibration,
+          unit,
+          baseline: channel.streamStats.baseline,
+          // Sample times already count from the shared start
+          timeOrigin: 0,
+        })
+        recorders.set(channel, recorder)
+        this.logFor(channel, 'info', `⏺ Recording to ${recorder.destinations.join(', ')}`)
+      } catch (err: any) {
+        this.logFor(channel, 'error', `Failed to start recording: ${err.message}`)
+      }
+    }
+
+    return recorders
+  }
+}
+
+export const acquisitionStore = new AcquisitionStore()
+
+/* =========================
+   React bindings
+========================= */
+
+/**
+ * Re-renders on every store change. Samples never trigger one; readouts
+ * that follow them (drop rate, sample rate) come with useStreamStats().
+ */
+export function useAcquisition() {
+  useSyncExternalStore(acquisitionStore.subscribe, acquisitionStore.getSnapshot)
+  return acquisitionStore
+}
+
+/** Re-renders for the channels' stream readouts: throttled while samples arrive, never while idle */
+export function useStreamStats() {
+  useSyncExternalStore(acquisitionStore.subscribeStats, acquisitionStore.getStatsSnapshot)
+}
@@ -0,0 +1,114 @@
+/* =========================
+   Tare / zero-offset baseline
+   "Zero" averages a window of unloaded samples; that mean is then
+   subtracted from the stream. With drift tracking, the baseline keeps
+   following the signal slowly, but only while it sits within a rest
+   band around the baseline, so presses are never absorbed into it.
+========================= */
+
+export type BaselineMethod = 'static' | 'tracking'
+
+export interface BaselineOptions {
+  /** Length of the zeroing window */
+  windowSeconds: number
+  trackDrift: boolean
+  /** Time constant of the drift follower */
+  driftTimeConstantSec: number
+  /** Max distance from the baseline (counts) for a sample to count as rest */
+  restBandCounts: number
+}
+
+/** Written into recording metadata so analysis can undo or redo the tare */
+export interface BaselineInfo {
+  method: BaselineMethod
+  /** Baseline in raw counts when it was captured */
+  value: number
+  windowSamples: number
+  capturedAt: string
+  driftTimeConstantSec?: number
+  restBandCounts?: number
+}
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = {
+  windowSeconds: 1,
+  trackDrift: false,
+  driftTimeConstantSec: 30,
+  restBandCounts: 20,
+}
+
+export class BaselineTracker {
+  private info: BaselineInfo | null = null
+  private current = 0
+  private captureTarget = 0
+  private captureSum = 0
+  private captureCount = 0
+
+  constructor(
+    private options: BaselineOptions,
+    private sampleRate: number,
+    private onCaptured?: (info: BaselineInfo) => void,
+  ) {}
+
+  get isCapturing() {
+    return this.captureTarget > 0
+  }
+
+  /** Capture metadata, or null until the first zero completes */
+  get baseline() {
+    return this.info
+  }
+
+  /** Baseline currently being subtracted, including drift */
+  get value() {
+    return this.info ? this.current : null
+  }
+
+  configure(options: Partial<BaselineOptions>, sampleRate = this.sampleRate) {
+    this.options = { ...this.options, ...options }
+    this.sampleRate = sampleRate
+    if (this.info) this.info = this.describe(this.info.value, this.info.windowSamples, this.info.capturedAt)
+  }
+
+  /** Starts averaging the next window of samples */
+  zero() {
+    this.captureTarget = Math.max(1, Math.round(this.options.windowSeconds * this.sampleRate))
+    this.captureSum = 0
+    this.captureCount = 0
+  }
+
+  clear() {
+    this.info = null
+    this.current = 0
+    this.captureTarget = 0
+  }
+
+  /** Feeds one raw sample; returns the baseline to subtract from it, or null when not zeroed. */
+  process(sample: number): number | null {
+    const subtract = this.value
+
+    if (this.isCapturing) {
+      this.captureSum += sample
+      if (++this.captureCount >= this.captureTarget) {
+        this.current = this.captureSum / this.captureCount
+        this.info = this.describe(this.current, this.captureCount, new Date().toISOString())
+        this.captureTarget = 0
+        this.onCaptured?.(this.info)
+      }
+      return subtract
+    }
+
+    if (this.info && this.options.trackDrift && Math.abs(sample - this.current) < this.options.restBandCounts) {
+      const alpha = 1 / Math.max(1, this.options.driftTimeConstantSec * this.sampleRate)
+      this.current += (sample - this.current) * alpha
+    }
+
+    return subtract
+  }
+
+  private describe(value: number, windowSamples: number, capturedAt: string): BaselineInfo {
+    const { trackDrift, driftTimeConstantSec, restBandCounts } = this.options
+    return trackDrift
+      ? { method: 'tracking', value, windowSamples, capturedAt, driftTimeConstantSec, restBandCounts }
+      : { method: 'static', value, windowSamples, capturedAt }
+  }
+}
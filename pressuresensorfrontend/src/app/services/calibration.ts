@@ -0,0 +1,200 @@
+/* =========================
+   Pressure calibration
+   Each gain setting gets its own curve from ADC counts to kPa, fitted
+   to reference pressures captured in the calibration wizard. Profiles
+   are keyed by device name and kept in localStorage.
+========================= */
+
+export type PressureUnit = 'raw' | 'kPa' | 'mmHg'
+export type FitKind = 'linear' | 'polynomial'
+
+export const UNIT_LABELS: Record<PressureUnit, string> = {
+  raw: 'Raw counts',
+  kPa: 'kPa',
+  mmHg: 'mmHg',
+}
+
+export const MMHG_PER_KPA = 7.50062
+
+export interface CalibrationPoint {
+  counts: number
+  kPa: number
+}
+
+export interface GainCalibration {
+  fit: FitKind
+  /** kPa = Σ coefficients[i] · counts^i */
+  coefficients: number[]
+  points: CalibrationPoint[]
+  rSquared: number
+  calibratedAt: string
+}
+
+export interface CalibrationProfile {
+  deviceName: string
+  /** Keyed by gain (0–15) */
+  gains: Record<number, GainCalibration>
+  updatedAt: string
+}
+
+const STORAGE_KEY = 'ps02-calibration-profiles'
+
+// Counts are scaled into roughly [-1, 1] before fitting so the normal
+// equations stay well conditioned for higher degrees
+const COUNT_SCALE = 2048
+
+/* =========================
+   Fitting
+========================= */
+
+export const evaluatePolynomial = (coefficients: number[], x: number) => {
+  let y = 0
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    y = y * x + coefficients[i]
+  }
+  return y
+}
+
+/** Solves A·x = b in place by Gaussian elimination with partial pivoting. */
+const solve = (a: number[][], b: number[]) => {
+  const n = b.length
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Reference points do not determine a curve — capture more distinct pressures')
+    }
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+    ;[b[col], b[pivot]] = [b[pivot], b[col]]
+
+    for (let row = col + 1; row < n; row++) {
+      const f = a[row][col] / a[col][col]
+      for (let k = col; k < n; k++) a[row][k] -= f * a[col][k]
+      b[row] -= f * b[col]
+    }
+  }
+
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row]
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k]
+    x[row] = sum / a[row][row]
+  }
+  return x
+}
+
+/**
+ * Least-squares fit of kPa against counts. Linear fits need two points,
+ * a polynomial of the given degree needs degree + 1.
+ */
+export function fitCalibration(points: CalibrationPoint[], fit: FitKind, degree = 2): GainCalibration {
+  const order = fit === 'linear' ? 1 : degree
+  if (points.length < order + 1) {
+    throw new Error(`A ${fit === 'linear' ? 'linear' : `degree-${order}`} fit needs at least ${order + 1} reference points`)
+  }
+
+  const terms = order + 1
+  const ata = Array.from({ length: terms }, () => new Array<number>(terms).fill(0))
+  const atb = new Array<number>(terms).fill(0)
+
+  for (const p of points) {
+    const u = p.counts / COUNT_SCALE
+    const powers = Array.from({ length: terms }, (_, i) => u ** i)
+    for (let i = 0; i < terms; i++) {
+      atb[i] += powers[i] * p.kPa
+      for (let j = 0; j < terms; j++) ata[i][j] += powers[i] * powers[j]
+    }
+  }
+
+  const coefficients = solve(ata, atb).map((c, i) => c / COUNT_SCALE ** i)
+
+  const mean = points.reduce((s, p) => s + p.kPa, 0) / points.length
+  let ssRes = 0
+  let ssTot = 0
+  for (const p of points) {
+    ssRes += (p.kPa - evaluatePolynomial(coefficients, p.counts)) ** 2
+    ssTot += (p.kPa - mean) ** 2
+  }
+
+  return {
+    fit,
+    coefficients,
+    points: [...points],
+    rSquared: ssTot === 0 ? 1 : 1 - ssRes / ssTot,
+    calibratedAt: new Date().toISOString(),
+  }
+}
+
+/* =========================
+   Unit conversion
+========================= */
+
+export const kPaToUnit = (kPa: number, unit: Exclude<PressureUnit, 'raw'>) =>
+  unit === 'mmHg' ? kPa * MMHG_PER_KPA : kPa
+
+export const unitToKpa = (value: number, unit: Exclude<PressureUnit, 'raw'>) =>
+  unit === 'mmHg' ? value / MMHG_PER_KPA : value
+
+/**
+ * Converter from ADC counts to the requested unit, or null when that
+ * unit needs a calibration this gain doesn't have.
+ */
+export function createPressureConverter(
+  calibration: GainCalibration | undefined,
+  unit: PressureUnit,
+): ((counts: number) => number) | null {
+  if (unit === 'raw') return counts => counts
+  if (!calibration) return null
+  const { coefficients } = calibration
+  return counts => kPaToUnit(evaluatePolynomial(coefficients, counts), unit)
+}
+
+/* =========================
+   Profile storage
+========================= */
+
+export function loadCalibrationProfiles(): Record<string, CalibrationProfile> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+const saveProfiles = (profiles: Record<string, CalibrationProfile>) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+
+export const getCalibrationProfile = (deviceName: string): CalibrationProfile | null =>
+  loadCalibrationProfiles()[deviceName] ?? null
+
+export function saveGainCalibration(deviceName: string, gain: number, calibration: GainCalibration) {
+  const profiles = loadCalibrationProfiles()
+  const profile: CalibrationProfile = {
+    deviceName,
+    gains: { ...profiles[deviceName]?.gains, [gain]: calibration },
+    updatedAt: new Date().toISOString(),
+  }
+  saveProfiles({ ...profiles, [deviceName]: profile })
+  return profile
+}
+
+export function deleteGainCalibration(deviceName: string, gain: number) {
+  const profiles = loadCalibrationProfiles()
+  const existing = profiles[deviceName]
+  if (!existing) return null
+
+  const gains = { ...existing.gains }
+  delete gains[gain]
+
+  if (Object.keys(gains).length === 0) {
+    delete profiles[deviceName]
+    saveProfiles(profiles)
+    return null
+  }
+
+  const profile = { ...existing, gains, updatedAt: new Date().toISOString() }
+  saveProfiles({ ...profiles, [deviceName]: profile })
+  return profile
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { ClipTracker, clippedPercent, clippedRanges, isClipped, recommendGain } from './clipping'
+
+describe('isClipped', () => {
+  it('flags samples at or near either rail', () => {
+    expect([-2048, -2032, 2031, 2047].map(isClipped)).toEqual([true, true, true, true])
+    expect([-2031, 0, 2030].map(isClipped)).toEqual([false, false, false])
+  })
+})
+
+describe('ClipTracker', () => {
+  it('counts clipped samples and stays active for the recent window', () => {
+    const tracker = new ClipTracker()
+    ;[0, 2047, 2047, 100].forEach(s => tracker.push(s))
+
+    expect(tracker.snapshot()).toMatchObject({ samples: 4, clipped: 2, fraction: 0.5, active: true })
+
+    for (let i = 0; i < 2000; i++) tracker.push(0)
+    expect(tracker.active).toBe(false)
+    expect(tracker.snapshot().recentFraction).toBeLessThan(0.001)
+  })
+
+  it('clears on reset', () => {
+    const tracker = new ClipTracker()
+    tracker.push(-2048)
+    tracker.reset()
+    expect(tracker.snapshot()).toMatchObject({ samples: 0, clipped: 0, active: false })
+  })
+})
+
+describe('clippedRanges', () => {
+  const raw = [0, 2047, 2047, 0, NaN, -2048, 0, 0, 0, 2047]
+
+  it('finds runs, ended by lost samples', () => {
+    expect(clippedRanges(raw)).toEqual([[1, 3], [5, 6], [9, 10]])
+  })
+
+  it('merges runs closer than the gap', () => {
+    expect(clippedRanges(raw, 2)).toEqual([[1, 6], [9, 10]])
+  })
+})
+
+describe('recommendGain', () => {
+  it('aims the peak at the headroom, assuming counts scale with gain + 1', () => {
+    expect(recommendGain(1500, false, 7)).toEqual({ fromGain: 7, gain: 6, peak: 1500, clipped: false })
+    expect(recommendGain(1000, false, 15).gain).toBe(15)
+    expect(recommendGain(0, false, 3).gain).toBe(15)
+  })
+
+  it('at least halves the gain when the signal clipped', () => {
+    expect(recommendGain(2040, true, 15).gain).toBe(7)
+    expect(recommendGain(2047, true, 0).gain).toBe(0)
+  })
+})
+
+describe('clippedPercent', () => {
+  it('is zero for an empty recording', () => {
+    expect(clippedPercent(0, 0)).toBe(0)
+    expect(clippedPercent(5, 200)).toBe(2.5)
+  })
+})
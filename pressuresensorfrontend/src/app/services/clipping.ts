@@ -0,0 +1,135 @@
+import { ADC_MAX, ADC_MIN } from './ps02Protocol'
+
+/* =========================
+   Saturation detection
+   Samples are 12-bit, so a press too strong for the gain pegs at a
+   rail and its peak is lost for good. A sample within CLIP_MARGIN
+   counts of either rail is treated as clipped: the front end flattens
+   out slightly before the ADC's last code. Everything here looks at
+   absolute (untared) counts, since the rails don't move with a zero.
+========================= */
+
+export const CLIP_MARGIN = 16
+
+export const isClipped = (raw: number) => raw <= ADC_MIN + CLIP_MARGIN || raw >= ADC_MAX - CLIP_MARGIN
+
+export interface ClipStats {
+  samples: number
+  clipped: number
+  /** Clipped / received samples over the whole stream */
+  fraction: number
+  /** Clipped / received samples, exponentially weighted over recent samples */
+  recentFraction: number
+  /** A sample clipped within the recent window */
+  active: boolean
+}
+
+export const EMPTY_CLIP_STATS: ClipStats = {
+  samples: 0,
+  clipped: 0,
+  fraction: 0,
+  recentFraction: 0,
+  active: false,
+}
+
+/** About two seconds at the PS02's 1 kHz */
+const RECENT_WINDOW_SAMPLES = 2000
+
+export class ClipTracker {
+  private stats: ClipStats = { ...EMPTY_CLIP_STATS }
+  private sinceClip = Infinity
+
+  reset() {
+    this.stats = { ...EMPTY_CLIP_STATS }
+    this.sinceClip = Infinity
+  }
+
+  /** Records one received sample (absolute counts) and returns whether it clipped */
+  push(raw: number): boolean {
+    const clipped = isClipped(raw)
+    const s = this.stats
+    s.samples++
+    s.recentFraction *= 1 - 1 / RECENT_WINDOW_SAMPLES
+
+    if (clipped) {
+      s.clipped++
+      s.recentFraction += 1 / RECENT_WINDOW_SAMPLES
+      this.sinceClip = 0
+    } else {
+      this.sinceClip++
+    }
+    s.fraction = s.clipped / s.samples
+    s.active = this.sinceClip < RECENT_WINDOW_SAMPLES
+
+    return clipped
+  }
+
+  get active() {
+    return this.stats.active
+  }
+
+  snapshot(): ClipStats {
+    return { ...this.stats }
+  }
+}
+
+/** Percent of recorded samples that clipped; 0 for an empty recording */
+export const clippedPercent = (clipped: number, samples: number) => (samples > 0 ? (clipped / samples) * 100 : 0)
+
+/**
+ * Runs of clipped samples as [start, end) indices, for shading.
+ * Lost (NaN) samples end a run; runs closer than `mergeGap` samples
+ * are joined so a long recording yields a drawable number of bands.
+ */
+export function clippedRanges(raw: ArrayLike<number>, mergeGap = 0): [number, number][] {
+  const ranges: [number, number][] = []
+  let start = -1
+
+  for (let i = 0; i <= raw.length; i++) {
+    const clipped = i < raw.length && !Number.isNaN(raw[i]) && isClipped(raw[i])
+    if (clipped && start < 0) start = i
+    if (clipped || start < 0) continue
+
+    const last = ranges[ranges.length - 1]
+    if (last && start - last[1] <= mergeGap) last[1] = i
+    else ranges.push([start, i])
+    start = -1
+  }
+  return ranges
+}
+
+/* =========================
+   Auto-range
+========================= */
+
+export const MAX_GAIN = 15
+/** How long auto-range watches the signal at each gain */
+export const AUTO_RANGE_SECONDS = 3
+/** Fraction of full scale the expected peak is aimed at, leaving room for a harder press */
+export const AUTO_RANGE_HEADROOM = 0.7
+/** Gain changes auto-range may make before settling for what it has */
+export const AUTO_RANGE_MAX_STEPS = 4
+
+export interface GainAdvice {
+  /** Gain the signal was watched at */
+  fromGain: number
+  gain: number
+  /** Largest absolute count seen */
+  peak: number
+  /** The window clipped, so the true peak is higher and `gain` may still be too high */
+  clipped: boolean
+}
+
+/**
+ * Picks the highest gain whose expected peak stays within the
+ * headroom, assuming the signal scales with gain + 1 (the model the
+ * simulator follows). A clipped window hides the true peak, so the
+ * gain is at least halved and should be checked again.
+ */
+export function recommendGain(peak: number, clipped: boolean, fromGain: number): GainAdvice {
+  const target = AUTO_RANGE_HEADROOM * -ADC_MIN
+  let gain = peak > 0 ? Math.floor(((fromGain + 1) * target) / peak) - 1 : MAX_GAIN
+  if (clipped) gain = Math.min(gain, Math.floor((fromGain + 1) / 2) - 1)
+
+  return { fromGain, gain: Math.max(0, Math.min(MAX_GAIN, gain)), peak, clipped }
+}
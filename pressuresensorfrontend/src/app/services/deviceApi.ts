@@ -4,22 +4,58 @@ export interface DeviceStatus {
   port?: string;
 }
 
-const API_BASE = 'https://cd80329152e9.ngrok-free.app';
+/** Which of the backend's device links to drive */
+export type BridgeLink = 'usb' | 'bluetooth';
 
-export async function getDeviceStatus(): Promise<DeviceStatus> {
-  const res = await fetch(`${API_BASE}/device/status`);
+export interface BridgeResult {
+  /** 'queued' when the backend applies the change between frames */
+  status?: string;
+  gain?: number;
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Every call takes the backend's base URL, e.g. http://localhost:5000
+const join = (base: string, path: string) => `${base.trim().replace(/\/+$/, '')}${path}`;
+
+/** WebSocket URL of a link's sample stream */
+export const streamUrl = (base: string, link: BridgeLink) =>
+  join(base, `/ws/${link}`).replace(/^http/, 'ws');
+
+async function post(url: string, body?: unknown): Promise<BridgeResult> {
+  const res = await fetch(url, {
+    method: 'POST',
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    ...(body !== undefined
+      ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+      : {}),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  // STOP may answer with the backend's own CSV; only JSON bodies are results
+  return res.headers.get('content-type')?.includes('application/json') ? res.json() : {};
+}
+
+export async function getDeviceStatus(base: string): Promise<DeviceStatus> {
+  const res = await fetch(join(base, '/device/status'), { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
   if (!res.ok) throw new Error('Failed to get device status');
   return res.json();
 }
 
-export async function startMeasurement(): Promise<void> {
-  const res = await fetch(`${API_BASE}/device/start`, { method: 'POST' });
-  if (!res.ok) throw new Error('Failed to start measurement');
+export async function startMeasurement(base: string, link: BridgeLink): Promise<BridgeResult> {
+  return post(join(base, `/${link}/start`));
+}
+
+export async function stopMeasurement(base: string, link: BridgeLink): Promise<void> {
+  await post(join(base, `/${link}/stop`));
+}
+
+export async function setDeviceGain(base: string, link: BridgeLink, gain: number): Promise<BridgeResult> {
+  return post(join(base, `/${link}/gain`), { gain });
 }
 
-export async function stopMeasurement(): Promise<void> {
-  const res = await fetch(`${API_BASE}/device/stop`, { method: 'POST' });
-  if (!res.ok) throw new Error('Failed to stop measurement');
+/** Whether the backend also writes its own CSV, and where */
+export async function updateCsvConfig(base: string, enabled: boolean, dir: string | null = null): Promise<void> {
+  await post(join(base, '/csv/config'), { enabled, dir });
 }
 
 
@@ -28,8 +64,8 @@ export interface MeasurementPoint {
   raw?: number;
 }
 
-export async function fetchLatestMeasurement(): Promise<MeasurementPoint> {
-  const res = await fetch(`${API_BASE}/device/latest`);
+export async function fetchLatestMeasurement(base: string): Promise<MeasurementPoint> {
+  const res = await fetch(join(base, '/device/latest'));
   if (!res.ok) throw new Error('Failed to fetch measurement');
   return res.json();
 }
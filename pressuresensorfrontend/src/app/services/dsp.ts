@@ -0,0 +1,230 @@
+/* =========================
+   Streaming DSP
+   Every filter processes one sample at a time and keeps its own state,
+   so a chain can run directly on incoming frames.
+========================= */
+
+export type FilterType = 'lowpass' | 'highpass' | 'movingAverage' | 'median' | 'notch'
+
+export type FilterParams =
+  | { type: 'lowpass'; cutoffHz: number }
+  | { type: 'highpass'; cutoffHz: number }
+  | { type: 'movingAverage'; window: number }
+  | { type: 'median'; window: number }
+  | { type: 'notch'; frequencyHz: 50 | 60; q: number }
+
+export type FilterSpec = FilterParams & {
+  id: string
+  enabled: boolean
+}
+
+export interface StreamingFilter {
+  process(x: number): number
+  reset(): void
+}
+
+export const FILTER_LABELS: Record<FilterType, string> = {
+  lowpass: 'Low-pass',
+  highpass: 'High-pass',
+  movingAverage: 'Moving average',
+  median: 'Median',
+  notch: 'Notch (mains)',
+}
+
+export const DEFAULT_FILTER_PARAMS: Record<FilterType, FilterParams> = {
+  lowpass: { type: 'lowpass', cutoffHz: 20 },
+  highpass: { type: 'highpass', cutoffHz: 0.1 },
+  movingAverage: { type: 'movingAverage', window: 10 },
+  median: { type: 'median', window: 5 },
+  notch: { type: 'notch', frequencyHz: 50, q: 30 },
+}
+
+let nextFilterId = 0
+
+export const createFilterSpec = (type: FilterType): FilterSpec => ({
+  ...DEFAULT_FILTER_PARAMS[type],
+  id: `filter-${nextFilterId++}`,
+  enabled: true,
+})
+
+/* =========================
+   Biquad (RBJ audio EQ cookbook), direct form I
+========================= */
+
+class Biquad implements StreamingFilter {
+  private x1 = 0
+  private x2 = 0
+  private y1 = 0
+  private y2 = 0
+  private primed = false
+
+  constructor(
+    private b0: number,
+    private b1: number,
+    private b2: number,
+    private a1: number,
+    private a2: number,
+  ) {}
+
+  static lowpass(fs: number, f0: number, q = Math.SQRT1_2) {
+    const { cos, alpha } = Biquad.prewarp(fs, f0, q)
+    const a0 = 1 + alpha
+    return new Biquad(
+      (1 - cos) / 2 / a0,
+      (1 - cos) / a0,
+      (1 - cos) / 2 / a0,
+      (-2 * cos) / a0,
+      (1 - alpha) / a0,
+    )
+  }
+
+  static highpass(fs: number, f0: number, q = Math.SQRT1_2) {
+    const { cos, alpha } = Biquad.prewarp(fs, f0, q)
+    const a0 = 1 + alpha
+    return new Biquad(
+      (1 + cos) / 2 / a0,
+      -(1 + cos) / a0,
+      (1 + cos) / 2 / a0,
+      (-2 * cos) / a0,
+      (1 - alpha) / a0,
+    )
+  }
+
+  static notch(fs: number, f0: number, q: number) {
+    const { cos, alpha } = Biquad.prewarp(fs, f0, q)
+    const a0 = 1 + alpha
+    return new Biquad(
+      1 / a0,
+      (-2 * cos) / a0,
+      1 / a0,
+      (-2 * cos) / a0,
+      (1 - alpha) / a0,
+    )
+  }
+
+  private static prewarp(fs: number, f0: number, q: number) {
+    // Keep the corner strictly inside (0, Nyquist) so the filter stays stable
+    const f = Math.min(Math.max(f0, 1e-3), fs * 0.49)
+    const w0 = (2 * Math.PI * f) / fs
+    return { cos: Math.cos(w0), alpha: Math.sin(w0) / (2 * q) }
+  }
+
+  process(x: number) {
+    // Start from steady state on the first sample to avoid a start-up transient
+    if (!this.primed) {
+      const dcGain = (this.b0 + this.b1 + this.b2) / (1 + this.a1 + this.a2)
+      this.x1 = this.x2 = x
+      this.y1 = this.y2 = x * dcGain
+      this.primed = true
+    }
+
+    const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2
+    this.x2 = this.x1
+    this.x1 = x
+    this.y2 = this.y1
+    this.y1 = y
+    return y
+  }
+
+  reset() {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0
+    this.primed = false
+  }
+}
+
+/* =========================
+   Window filters
+========================= */
+
+class MovingAverage implements StreamingFilter {
+  private buf: Float64Array
+  private idx = 0
+  private count = 0
+  private sum = 0
+
+  constructor(window: number) {
+    this.buf = new Float64Array(Math.max(1, Math.round(window)))
+  }
+
+  process(x: number) {
+    if (this.count === this.buf.length) {
+      this.sum -= this.buf[this.idx]
+    } else {
+      this.count++
+    }
+    this.buf[this.idx] = x
+    this.sum += x
+    this.idx = (this.idx + 1) % this.buf.length
+    return this.sum / this.count
+  }
+
+  reset() {
+    this.buf.fill(0)
+    this.idx = this.count = this.sum = 0
+  }
+}
+
+class Median implements StreamingFilter {
+  private buf: number[] = []
+  private size: number
+
+  constructor(window: number) {
+    this.size = Math.max(1, Math.round(window))
+  }
+
+  process(x: number) {
+    this.buf.push(x)
+    if (this.buf.length > this.size) this.buf.shift()
+
+    const sorted = [...this.buf].sort((a, b) => a - b)
+    const mid = sorted.length >> 1
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+  }
+
+  reset() {
+    this.buf = []
+  }
+}
+
+/* =========================
+   Factory & chain
+========================= */
+
+export function createFilter(params: FilterParams, sampleRate: number): StreamingFilter {
+  switch (params.type) {
+    case 'lowpass':
+      return Biquad.lowpass(sampleRate, params.cutoffHz)
+    case 'highpass':
+      return Biquad.highpass(sampleRate, params.cutoffHz)
+    case 'notch':
+      return Biquad.notch(sampleRate, params.frequencyHz, params.q)
+    case 'movingAverage':
+      return new MovingAverage(params.window)
+    case 'median':
+      return new Median(params.window)
+  }
+}
+
+export class FilterChain implements StreamingFilter {
+  private filters: StreamingFilter[]
+
+  constructor(specs: FilterSpec[], sampleRate: number) {
+    this.filters = specs
+      .filter(spec => spec.enabled)
+      .map(spec => createFilter(spec, sampleRate))
+  }
+
+  get isEmpty() {
+    return this.filters.length === 0
+  }
+
+  process(x: number) {
+    let y = x
+    for (const f of this.filters) y = f.process(y)
+    return y
+  }
+
+  reset() {
+    this.filters.forEach(f => f.reset())
+  }
+}
@@ -0,0 +1,118 @@
+import { BLE_SEQ_MODULO, SERIAL_SEQ_MODULO, type DecodedFrame, type DeviceInfoReport, type DeviceResponse } from './ps02Protocol'
+import { EMPTY_PARSE_STATS, Ps02Parser, type FrameSource, type ParseStats } from './ps02Parser'
+
+export type { FrameSource } from './ps02Parser'
+
+/* =========================
+   Frame decoding off the main thread
+   Transports hand raw bytes to a FrameDecoder, which forwards them to
+   a Web Worker running FrameParser and gets decoded frames (and any
+   command acknowledgements or info reports in between) back in
+   batches. Where workers are unavailable (tests, old browsers) the
+   parser runs inline with the same batching. Decoded frames then go
+   on to each channel's SamplePipeline, also a worker.
+========================= */
+
+export interface DecoderInput {
+  type: 'feed'
+  source: FrameSource
+  bytes: Uint8Array
+  /** Host time the bytes arrived, echoed back with the batch */
+  receivedAt: number
+}
+
+export type DecoderMessage = DecoderInput | { type: 'reset' }
+
+export interface DecodedBatch {
+  source: FrameSource
+  seqModulo: number
+  frames: DecodedFrame[]
+  responses: DeviceResponse[]
+  reports: DeviceInfoReport[]
+  /** Frames, lines or packets the parser threw away */
+  dropped: number
+  /** Totals since the last reset */
+  stats: ParseStats
+  receivedAt: number
+}
+
+/** Whether a batch carries anything worth posting back */
+export const hasContent = (batch: DecodedBatch) =>
+  batch.frames.length > 0 || batch.responses.length > 0 || batch.reports.length > 0 || batch.dropped > 0
+
+/** Wraps the PS02 parser in the batch format shared by the worker and the inline fallback */
+export class FrameParser {
+  private parser = new Ps02Parser()
+
+  reset() {
+    this.parser.reset()
+  }
+
+  feed({ source, bytes, receivedAt }: DecoderInput): DecodedBatch {
+    const chunk = this.parser.feed(source, bytes)
+    return {
+      source,
+      seqModulo: source === 'ble' ? BLE_SEQ_MODULO : SERIAL_SEQ_MODULO,
+      ...chunk,
+      stats: this.parser.stats,
+      receivedAt,
+    }
+  }
+}
+
+export class FrameDecoder {
+  private worker: Worker | null = null
+  private inline: FrameParser | null = null
+  private latestStats: ParseStats = EMPTY_PARSE_STATS
+
+  constructor(private onBatch: (batch: DecodedBatch) => void) {}
+
+  /** Parser counters as of the last batch */
+  get stats() {
+    return this.latestStats
+  }
+
+  feed(source: FrameSource, bytes: Uint8Array, receivedAt = performance.now()) {
+    const input: DecoderInput = { type: 'feed', source, bytes, receivedAt }
+
+    if (this.ensureWorker()) {
+      this.worker!.postMessage(input)
+      return
+    }
+
+    const batch = this.inline!.feed(input)
+    if (hasContent(batch)) this.receive(batch)
+  }
+
+  /** Drops any partial line left from a previous stream */
+  reset() {
+    this.worker?.postMessage({ type: 'reset' } satisfies DecoderMessage)
+    this.inline?.reset()
+    this.latestStats = EMPTY_PARSE_STATS
+  }
+
+  dispose() {
+    this.worker?.terminate()
+    this.worker = null
+    this.inline = null
+  }
+
+  private ensureWorker() {
+    if (this.worker) return true
+    if (this.inline) return false
+
+    if (typeof Worker === 'undefined') {
+      this.inline = new FrameParser()
+      return false
+    }
+
+    this.worker = new Worker(new URL('./frameDecoder.worker.ts', import.meta.url), { type: 'module' })
+    this.worker.onmessage = (e: MessageEvent<DecodedBatch>) => this.receive(e.data)
+    return true
+  }
+
+  private receive(batch: DecodedBatch) {
+    this.latestStats = batch.stats
+    this.onBatch(batch)
+  }
+}
@@ -0,0 +1,23 @@
+import { FrameParser, hasContent, type DecoderMessage } from './frameDecoder'
+
+/* =========================
+   PS02 decoder worker
+   Parses raw transport bytes and posts decoded frames, command
+   acknowledgements and info reports back, so hex/bit unpacking never
+   runs on the UI thread.
+========================= */
+
+const ctx = self as unknown as Worker
+const parser = new FrameParser()
+
+ctx.onmessage = (e: MessageEvent<DecoderMessage>) => {
+  const msg = e.data
+
+  if (msg.type === 'reset') {
+    parser.reset()
+    return
+  }
+
+  const batch = parser.feed(msg)
+  if (hasContent(batch)) ctx.postMessage(batch)
+}
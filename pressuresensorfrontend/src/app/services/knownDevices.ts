@@ -0,0 +1,167 @@
+import { describeSerialPort, describeUsbDevice, type DeviceHandle } from './transports'
+
+/* =========================
+   Known devices
+   The browser remembers which serial ports, USB and BLE devices this
+   origin was granted and hands them back from getPorts()/getDevices() without
+   a picker. Labels, the last-used device and the auto-connect setting
+   are ours, kept in localStorage under a key derived from each handle.
+========================= */
+
+export type KnownDeviceMode = DeviceHandle['mode']
+
+export interface KnownDevice {
+  key: string
+  handle: DeviceHandle
+  /** What the browser calls the device */
+  name: string
+  /** User-given label, empty if none */
+  label: string
+  lastUsedAt: number | null
+}
+
+interface StoredDevice {
+  label: string
+  lastUsedAt: number | null
+}
+
+interface StoredState {
+  devices: Record<string, StoredDevice>
+  lastKey: string | null
+  autoConnect: boolean
+}
+
+const STORAGE_KEY = 'ps02-known-devices'
+
+function loadState(): StoredState {
+  try {
+    return { devices: {}, lastKey: null, autoConnect: false, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') }
+  } catch {
+    return { devices: {}, lastKey: null, autoConnect: false }
+  }
+}
+
+const saveState = (state: StoredState) => localStorage.setItem(STORAGE_KEY, JSON.stringify(state))
+
+export const isDeviceListSupported = (mode: KnownDeviceMode) =>
+  mode === 'serial'
+    ? 'serial' in navigator
+    : mode === 'usb'
+      ? 'usb' in navigator
+      : 'bluetooth' in navigator && typeof navigator.bluetooth.getDevices === 'function'
+
+/* =========================
+   Keys
+   BLE device ids are stable per origin. Serial ports expose only
+   USB VID:PID, so identical adapters are told apart by their order
+   in getPorts(), which is stable while the same ones stay plugged in.
+   USB devices use their serial number where they report one, and
+   the same ordering otherwise.
+========================= */
+
+const serialKey = (port: SerialPort, ports: SerialPort[]) => {
+  const name = describeSerialPort(port)
+  const twins = ports.filter(p => describeSerialPort(p) === name)
+  return `serial:${name}#${twins.indexOf(port)}`
+}
+
+const usbKey = (device: USBDevice, devices: USBDevice[]) => {
+  const id = `${device.vendorId.toString(16)}:${device.productId.toString(16)}`
+  if (device.serialNumber) return `usb:${id}:${device.serialNumber}`
+  const twins = devices.filter(d => d.vendorId === device.vendorId && d.productId === device.productId)
+  return `usb:${id}#${twins.indexOf(device)}`
+}
+
+export const modeOfKey = (key: string): KnownDeviceMode =>
+  key.startsWith('serial:') ? 'serial' : key.startsWith('usb:') ? 'usb' : 'bluetooth'
+
+async function grantedHandles(mode: KnownDeviceMode): Promise<{ key: string; handle: DeviceHandle; name: string }[]> {
+  if (!isDeviceListSupported(mode)) return []
+
+  if (mode === 'serial') {
+    const ports = await navigator.serial.getPorts()
+    return ports.map(port => ({
+      key: serialKey(port, ports),
+      handle: { mode, port },
+      name: describeSerialPort(port),
+    }))
+  }
+
+  if (mode === 'usb') {
+    const devices = await navigator.usb.getDevices()
+    return devices.map(device => ({
+      key: usbKey(device, devices),
+      handle: { mode, device },
+      name: describeUsbDevice(device),
+    }))
+  }
+
+  const devices = await navigator.bluetooth.getDevices!()
+  return devices.map(device => ({
+    key: `bluetooth:${device.id}`,
+    handle: { mode, device },
+    name: device.name || 'Unknown',
+  }))
+}
+
+/** Granted devices for a mode, most recently used first */
+export async function listKnownDevices(mode: KnownDeviceMode): Promise<KnownDevice[]> {
+  const { devices } = loadState()
+  const granted = await grantedHandles(mode)
+
+  return granted
+    .map(({ key, handle, name }) => ({
+      key,
+      handle,
+      name,
+      label: devices[key]?.label ?? '',
+      lastUsedAt: devices[key]?.lastUsedAt ?? null,
+    }))
+    .sort((a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0))
+}
+
+/** Storage key of a connected handle */
+export async function keyOfHandle(handle: DeviceHandle) {
+  if (handle.mode === 'bluetooth') return `bluetooth:${handle.device.id}`
+  if (handle.mode === 'usb') return usbKey(handle.device, await navigator.usb.getDevices())
+  return serialKey(handle.port, await navigator.serial.getPorts())
+}
+
+export const displayName = (device: Pick<KnownDevice, 'label' | 'name'>) => device.label || device.name
+
+/* =========================
+   Preferences
+========================= */
+
+export function setDeviceLabel(key: string, label: string) {
+  const state = loadState()
+  state.devices[key] = { lastUsedAt: state.devices[key]?.lastUsedAt ?? null, label: label.trim() }
+  saveState(state)
+}
+
+export function markDeviceUsed(key: string) {
+  const state = loadState()
+  state.devices[key] = { label: state.devices[key]?.label ?? '', lastUsedAt: Date.now() }
+  state.lastKey = key
+  saveState(state)
+}
+
+export const getLastDeviceKey = () => loadState().lastKey
+
+export const getAutoConnect = () => loadState().autoConnect
+
+export function setAutoConnect(autoConnect: boolean) {
+  saveState({ ...loadState(), autoConnect })
+}
+
+/** Revokes the browser permission where supported and drops our record */
+export async function forgetDevice(device: KnownDevice) {
+  const { handle } = device
+  if (handle.mode === 'serial') await handle.port.forget?.()
+  else await handle.device.forget?.()
+
+  const state = loadState()
+  delete state.devices[device.key]
+  if (state.lastKey === device.key) state.lastKey = null
+  saveState(state)
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest'
+import { installFakeSerial } from '@/test/fakeSerial'
+import { csvSafeLabel, markerColumn, parseMarkerLabels, sortEvents } from './markers'
+import { Recorder, type RecordingStartInfo, type RecordingSummary } from './recorder'
+import { SensorChannel } from './sensorChannel'
+
+describe('parseMarkerLabels', () => {
+  it('splits on commas, drops blanks and keeps one label per hotkey', () => {
+    expect(parseMarkerLabels(' Start rep, ,Swallow,Cough ')).toEqual(['Start rep', 'Swallow', 'Cough'])
+    expect(parseMarkerLabels('a,b,c,d,e,f,g,h,i,j')).toHaveLength(9)
+  })
+})
+
+describe('markerColumn', () => {
+  it('joins markers on the same row and keeps labels inside one cell', () => {
+    const column = markerColumn([
+      { label: 'Swallow', index: 4, time: 0.004 },
+      { label: 'Cough, hard', index: 4, time: 0.004 },
+      { label: 'Start "rep"', index: 1, time: null },
+    ])
+
+    expect(column.get(4)).toBe('Swallow; Cough  hard')
+    expect(column.get(1)).toBe(csvSafeLabel('Start "rep"'))
+    expect(column.get(1)).not.toMatch(/[",]/)
+    expect(column.has(0)).toBe(false)
+  })
+})
+
+describe('sortEvents', () => {
+  it('orders events by row without touching the input', () => {
+    const events = [
+      { label: 'b', index: 9, time: null },
+      { label: 'a', index: 2, time: null },
+    ]
+    expect(sortEvents(events).map(e => e.label)).toEqual(['a', 'b'])
+    expect(events[0].label).toBe('b')
+  })
+})
+
+describe('live markers', () => {
+  it('go on the next sample, the row the recording puts them on', async () => {
+    installFakeSerial()
+    const channel = new SensorChannel(1, 'serial', { log: () => {}, change: () => {}, stats: () => {} })
+    let summary: RecordingSummary | null = null
+    const recorder = new Recorder([
+      {
+        description: 'memory',
+        open: async () => {},
+        write: async () => {},
+        close: async s => {
+          summary = s
+        },
+        discard: async () => {},
+      },
+    ])
+
+    // Mid-stream, once the third frame is in the chart
+    let taken: number | null = null
+    channel.transport.on('frame', () => {
+      if (taken !== null || channel.streamStats.link.framesReceived < 3) return
+      taken = channel.buffer.written
+      channel.mark('Swallow')
+    })
+
+    await channel.connect()
+    await recorder.start({ notes: '', calibration: null, unit: 'raw', gain: 5 } as unknown as RecordingStartInfo)
+    channel.resetStream(performance.now())
+    await channel.start(recorder)
+    await vi.waitFor(() => expect(channel.streamStats.link.framesReceived).toBe(10))
+    await channel.stop()
+    await vi.waitFor(() => expect(summary).not.toBeNull())
+
+    expect(channel.markers).toEqual([{ index: taken, label: 'Swallow' }])
+    expect(summary!.events.map(e => e.index)).toEqual([taken])
+
+    await channel.dispose()
+  })
+})
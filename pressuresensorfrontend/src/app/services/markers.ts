@@ -0,0 +1,63 @@
+/* =========================
+   Event markers
+   Labelled instants ("start rep", "swallow", "cough") dropped into
+   the stream while recording. A recording keeps them as an events
+   list indexed by sample, which is also where the CSV marker column
+   comes from, so editing the list in review edits both.
+========================= */
+
+export interface RecordingEvent {
+  label: string
+  /** Recording row the marker sits on */
+  index: number
+  /** Seconds since the recording's time origin; estimated from the sample rate once moved in review */
+  time: number | null
+}
+
+/** A marker on a live channel, at an absolute sample index of its ring buffer: the sample after the latest, like a recorded one */
+export interface LiveMarker {
+  index: number
+  label: string
+}
+
+/** Hotkeys 1–9 drop these, in order */
+export const DEFAULT_MARKER_LABELS = ['Start rep', 'Swallow', 'Cough']
+
+const STORAGE_KEY = 'ps02-marker-labels'
+
+export function loadMarkerLabels(): string[] {
+  try {
+    const labels = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    return Array.isArray(labels) ? labels.filter(l => typeof l === 'string') : DEFAULT_MARKER_LABELS
+  } catch {
+    return DEFAULT_MARKER_LABELS
+  }
+}
+
+export const saveMarkerLabels = (labels: string[]) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(labels))
+
+/** Labels as typed into a comma-separated field, at most one per hotkey */
+export const parseMarkerLabels = (text: string) =>
+  text
+    .split(',')
+    .map(l => l.trim())
+    .filter(Boolean)
+    .slice(0, 9)
+
+/** Keeps a label inside one CSV cell */
+export const csvSafeLabel = (label: string) => label.replace(/[",\n\r]/g, ' ').trim()
+
+/** Marker column value per row index; several markers on one row are joined */
+export function markerColumn(events: RecordingEvent[]) {
+  const byIndex = new Map<number, string>()
+  for (const event of events) {
+    const label = csvSafeLabel(event.label)
+    const existing = byIndex.get(event.index)
+    byIndex.set(event.index, existing ? `${existing}; ${label}` : label)
+  }
+  return byIndex
+}
+
+/** Events in row order, as kept on a recording */
+export const sortEvents = (events: RecordingEvent[]) => [...events].sort((a, b) => a.index - b.index)
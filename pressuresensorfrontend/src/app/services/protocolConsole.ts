@@ -0,0 +1,174 @@
+import { isValidFrame } from './ps02Parser'
+import type { RawFormat, TrafficEvent } from './transports'
+
+/* =========================
+   Protocol console
+   Raw traffic to and from the device, for poking at firmware commands
+   by hand. Serial input arrives in arbitrary chunks, so received text is
+   reassembled into lines before it is logged; BLE notifications are
+   logged one per entry as they come.
+========================= */
+
+export type LineEnding = 'none' | 'cr' | 'lf' | 'crlf'
+
+export const LINE_ENDINGS: Record<LineEnding, { label: string; text: string }> = {
+  none: { label: 'None', text: '' },
+  cr: { label: 'CR', text: '\r' },
+  lf: { label: 'LF', text: '\n' },
+  crlf: { label: 'CR+LF', text: '\r\n' },
+}
+
+export interface ConsoleEntry {
+  id: number
+  direction: TrafficEvent['direction']
+  /** Wall-clock ms */
+  at: number
+  bytes: Uint8Array
+  /** A regular stream frame, which the console can hide */
+  isFrame: boolean
+}
+
+const MAX_ENTRIES = 1000
+/** A serial "line" without a newline this long is logged as-is */
+const MAX_PENDING_BYTES = 512
+
+/* =========================
+   Formatting
+========================= */
+
+export const formatHex = (bytes: Uint8Array) =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ')
+
+export const formatAscii = (bytes: Uint8Array) =>
+  Array.from(bytes, b => (b >= 0x20 && b <= 0x7e ? String.fromCharCode(b) : '.')).join('')
+
+export const formatTime = (at: number) => {
+  const d = new Date(at)
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0')
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`
+}
+
+/** Parses "FE 00 47", "fe,00,47" or "0xFE 0x00 0x47"; throws on anything else */
+export function parseHex(text: string): Uint8Array {
+  const digits = text.replace(/0x/gi, '').replace(/[\s,:-]/g, '')
+  if (!digits) throw new Error('Nothing to send')
+  if (!/^[0-9a-f]+$/i.test(digits)) throw new Error('Hex bytes only (0-9, A-F)')
+  if (digits.length % 2) throw new Error('Odd number of hex digits')
+
+  const bytes = new Uint8Array(digits.length / 2)
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(digits.substr(i * 2, 2), 16)
+  return bytes
+}
+
+/** Turns console input into bytes for the given format */
+export function encodeConsoleInput(format: RawFormat, text: string, lineEnding: LineEnding): Uint8Array {
+  if (format === 'bytes') return parseHex(text)
+  if (!text && lineEnding === 'none') throw new Error('Nothing to send')
+  return new TextEncoder().encode(text + LINE_ENDINGS[lineEnding].text)
+}
+
+/* =========================
+   Traffic log
+========================= */
+
+export class TrafficLog {
+  private entries: ConsoleEntry[] = []
+  private nextId = 0
+  private pendingRx: number[] = []
+  private pendingAt = 0
+
+  constructor(private format: RawFormat) {}
+
+  setFormat(format: RawFormat) {
+    this.format = format
+    this.pendingRx = []
+  }
+
+  push({ direction, bytes, at }: TrafficEvent) {
+    if (direction === 'tx' || this.format === 'bytes') {
+      this.add(direction, at, bytes.slice())
+      return
+    }
+
+    // Serial RX: one entry per line, stamped when the line started
+    for (const byte of bytes) {
+      if (this.pendingRx.length === 0) this.pendingAt = at
+      this.pendingRx.push(byte)
+      if (byte === 0x0a || this.pendingRx.length >= MAX_PENDING_BYTES) {
+        this.add('rx', this.pendingAt, Uint8Array.from(this.pendingRx))
+        this.pendingRx = []
+      }
+    }
+  }
+
+  clear() {
+    this.entries = []
+    this.pendingRx = []
+  }
+
+  list(): readonly ConsoleEntry[] {
+    return this.entries
+  }
+
+  private add(direction: ConsoleEntry['direction'], at: number, bytes: Uint8Array) {
+    this.entries.push({ id: this.nextId++, direction, at, bytes, isFrame: this.isFrame(bytes) })
+    if (this.entries.length > MAX_ENTRIES) this.entries.splice(0, this.entries.length - MAX_ENTRIES)
+  }
+
+  private isFrame(bytes: Uint8Array) {
+    return isValidFrame(this.format === 'ascii' ? 'serial' : 'ble', bytes)
+  }
+}
+
+/* =========================
+   Macros
+   Saved per format: a serial macro is text plus a line ending, a BLE
+   macro is a hex byte string.
+========================= */
+
+export interface ConsoleMacro {
+  id: string
+  name: string
+  format: RawFormat
+  payload: string
+  lineEnding: LineEnding
+}
+
+const STORAGE_KEY = 'ps02-console-macros'
+
+const DEFAULT_MACROS: ConsoleMacro[] = [
+  { id: 'serial-start', name: 'Start', format: 'ascii', payload: 'S0', lineEnding: 'crlf' },
+  { id: 'serial-stop', name: 'Stop', format: 'ascii', payload: 'B0', lineEnding: 'crlf' },
+  { id: 'serial-gain-8', name: 'Gain 8', format: 'ascii', payload: 'G8', lineEnding: 'crlf' },
+  { id: 'serial-info', name: 'Info', format: 'ascii', payload: 'I0', lineEnding: 'crlf' },
+  { id: 'ble-start', name: 'Start', format: 'bytes', payload: 'FE 00 53 00 00', lineEnding: 'none' },
+  { id: 'ble-stop', name: 'Stop', format: 'bytes', payload: 'FE 00 42 00 00', lineEnding: 'none' },
+  { id: 'ble-gain-8', name: 'Gain 8', format: 'bytes', payload: 'FE 00 47 08 00', lineEnding: 'none' },
+  { id: 'ble-info', name: 'Info', format: 'bytes', payload: 'FE 00 49 00 00', lineEnding: 'none' },
+]
+
+export function loadMacros(): ConsoleMacro[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : DEFAULT_MACROS
+  } catch {
+    return DEFAULT_MACROS
+  }
+}
+
+const saveMacros = (macros: ConsoleMacro[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(macros))
+
+/** Saves a macro, replacing one with the same name and format */
+export function saveMacro(macro: Omit<ConsoleMacro, 'id'>): ConsoleMacro[] {
+  const name = macro.name.trim()
+  const macros = loadMacros().filter(m => !(m.format === macro.format && m.name === name))
+  macros.push({ ...macro, name, id: `${macro.format}-${Date.now().toString(36)}` })
+  saveMacros(macros)
+  return macros
+}
+
+export function deleteMacro(id: string): ConsoleMacro[] {
+  const macros = loadMacros().filter(m => m.id !== id)
+  saveMacros(macros)
+  return macros
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import { encodeBleNotification, encodeBleResponse, encodeSerialLine } from './ps02Protocol'
+import { Ps02Parser, checkBleNotification, checkSerialLine, totalMalformed } from './ps02Parser'
+
+const samples = Array.from({ length: 36 }, (_, i) => i * 50 - 900)
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+describe('checkSerialLine', () => {
+  it('accepts frames with and without a CRC', () => {
+    expect(checkSerialLine(encodeSerialLine(7, samples))).toEqual({ frame: { seq: 7, samples }, crc: false })
+    expect(checkSerialLine(encodeSerialLine(7, samples, true))).toEqual({ frame: { seq: 7, samples }, crc: true })
+  })
+
+  it('names what is wrong with a damaged frame', () => {
+    const line = encodeSerialLine(7, samples, true).trim()
+    const flipped = line.replace(/:(.)/, (_, c) => `:${c === '0' ? '1' : '0'}`)
+
+    expect(checkSerialLine(flipped)).toEqual({ error: 'crc' })
+    expect(checkSerialLine(line.slice(0, 50))).toEqual({ error: 'length' })
+    expect(checkSerialLine(line.replace(/:(.)/, ':Z'))).toEqual({ error: 'encoding' })
+  })
+
+  it('leaves other lines to the message parsers', () => {
+    expect(checkSerialLine('OK:G5')).toBeNull()
+    expect(checkSerialLine('INFO:FW=1.2.0')).toBeNull()
+  })
+})
+
+describe('checkBleNotification', () => {
+  it('accepts 56-byte frames and 58-byte frames with a CRC', () => {
+    expect(checkBleNotification(encodeBleNotification(3, samples))).toMatchObject({ frame: { seq: 3 }, crc: false })
+    expect(checkBleNotification(encodeBleNotification(3, samples, true))).toMatchObject({ frame: { seq: 3 }, crc: true })
+  })
+
+  it('rejects bad length, header and CRC', () => {
+    const frame = encodeBleNotification(3, samples, true)
+    const corrupt = frame.slice()
+    corrupt[20] ^= 0x01
+    const header = encodeBleNotification(3, samples)
+    header[0] = 0x01
+
+    expect(checkBleNotification(frame.slice(0, 40))).toEqual({ error: 'length' })
+    expect(checkBleNotification(header)).toEqual({ error: 'header' })
+    expect(checkBleNotification(corrupt)).toEqual({ error: 'crc' })
+  })
+
+  it('leaves control messages to the message parsers', () => {
+    expect(checkBleNotification(encodeBleResponse({ cmd: 0x47, value: 5, ok: true }))).toBeNull()
+  })
+})
+
+describe('Ps02Parser', () => {
+  it('reassembles lines split across reads', () => {
+    const parser = new Ps02Parser()
+    const stream = encodeSerialLine(1, samples) + 'OK:G5\r\n' + encodeSerialLine(2, samples)
+
+    const frames = []
+    const responses = []
+    for (let i = 0; i < stream.length; i += 17) {
+      const chunk = parser.feed('serial', bytes(stream.slice(i, i + 17)))
+      frames.push(...chunk.frames)
+      responses.push(...chunk.responses)
+    }
+
+    expect(frames.map(f => f.seq)).toEqual([1, 2])
+    expect(responses).toEqual([{ cmd: 0x47, value: 5, ok: true }])
+    expect(totalMalformed(parser.stats)).toBe(0)
+  })
+
+  it('drops the cut-off first line after a reset', () => {
+    const parser = new Ps02Parser()
+    const chunk = parser.feed('serial', bytes(encodeSerialLine(1, samples).slice(60) + encodeSerialLine(2, samples)))
+
+    expect(chunk.frames.map(f => f.seq)).toEqual([2])
+    expect(parser.stats.malformed.partial).toBe(1)
+  })
+
+  it('recovers a frame that lost the newline before it', () => {
+    const parser = new Ps02Parser()
+    parser.feed('serial', bytes(encodeSerialLine(1, samples)))
+    const joined = encodeSerialLine(2, samples).slice(0, 80) + encodeSerialLine(3, samples)
+    const chunk = parser.feed('serial', bytes(joined))
+
+    expect(chunk.frames.map(f => f.seq)).toEqual([3])
+    expect(parser.stats).toMatchObject({ frames: 2, resyncs: 1, malformed: { partial: 1 } })
+  })
+
+  it('gives up on an endless line and resynchronises at the next newline', () => {
+    const parser = new Ps02Parser()
+    parser.feed('serial', bytes(encodeSerialLine(1, samples)))
+    parser.feed('serial', bytes('A'.repeat(1500)))
+    const chunk = parser.feed('serial', bytes('AAAA\r\n' + encodeSerialLine(2, samples)))
+
+    expect(chunk.frames.map(f => f.seq)).toEqual([2])
+    expect(parser.stats.malformed).toMatchObject({ overflow: 1, partial: 1 })
+  })
+
+  it('counts malformed frames by reason and other text separately', () => {
+    const parser = new Ps02Parser()
+    const good = encodeSerialLine(1, samples, true)
+    const badCrc = good.replace(/:(.)/, (_, c) => `:${c === '0' ? '1' : '0'}`)
+    parser.feed('serial', bytes(good + badCrc + '05:ABCD\r\n' + 'boot ok\r\n'))
+    parser.feed('ble', encodeBleNotification(1, samples).slice(0, 30))
+
+    expect(parser.stats).toMatchObject({
+      frames: 1,
+      crcVerified: 1,
+      ignored: 1,
+      malformed: { crc: 1, length: 2 },
+    })
+  })
+
+  it('clears its counters on reset', () => {
+    const parser = new Ps02Parser()
+    parser.feed('serial', bytes('junk\r\n' + encodeSerialLine(1, samples)))
+    parser.reset()
+
+    expect(parser.stats.frames).toBe(0)
+    expect(totalMalformed(parser.stats)).toBe(0)
+  })
+})
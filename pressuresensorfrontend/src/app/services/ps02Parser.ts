@@ -0,0 +1,268 @@
+import {
+  BLE_FRAME_BYTES,
+  CRC_BYTES,
+  FRAME_PAYLOAD_BYTES,
+  crc16,
+  decodeBytesToSamples,
+  parseBleInfo,
+  parseBleResponse,
+  parseSerialInfo,
+  parseSerialResponse,
+  type DecodedFrame,
+  type DeviceInfoReport,
+  type DeviceResponse,
+} from './ps02Protocol'
+
+/* =========================
+   PS02 frame parser
+   Validates frames against the formats in ps02Protocol and turns a raw
+   byte stream into frames, acknowledgements and info reports, counting
+   whatever it has to throw away. Has no DOM or worker dependencies, so
+   the decoder worker, the inline fallback and the console share it.
+========================= */
+
+export type FrameSource = 'serial' | 'ble'
+
+/** Why a frame was thrown away */
+export type MalformedReason = 'length' | 'header' | 'encoding' | 'crc' | 'partial' | 'overflow'
+
+export const MALFORMED_REASON_LABELS: Record<MalformedReason, string> = {
+  length: 'Wrong length',
+  header: 'Bad header',
+  encoding: 'Not hex',
+  crc: 'CRC mismatch',
+  partial: 'Partial line',
+  overflow: 'Line overflow',
+}
+
+export interface ParseStats {
+  frames: number
+  /** Frames whose CRC was present and correct */
+  crcVerified: number
+  malformed: Record<MalformedReason, number>
+  /** Times the parser dropped data to find the next frame boundary */
+  resyncs: number
+  /** Lines or packets that were neither frames nor device messages (e.g. firmware debug text) */
+  ignored: number
+  bytes: number
+}
+
+export const EMPTY_PARSE_STATS: ParseStats = {
+  frames: 0,
+  crcVerified: 0,
+  malformed: { length: 0, header: 0, encoding: 0, crc: 0, partial: 0, overflow: 0 },
+  resyncs: 0,
+  ignored: 0,
+  bytes: 0,
+}
+
+export const totalMalformed = (stats: ParseStats) =>
+  Object.values(stats.malformed).reduce((sum, n) => sum + n, 0)
+
+/** A frame, or the reason it was rejected */
+export type FrameCheck = { frame: DecodedFrame; crc: boolean } | { error: MalformedReason }
+
+/** Longest text kept while waiting for a newline; a frame line is ~120 chars */
+const MAX_LINE_CHARS = 1024
+
+const HEX_PAYLOAD_CHARS = FRAME_PAYLOAD_BYTES * 2
+const FRAME_LINE_START = /^([0-9A-Fa-f]+):(.*)$/
+const HEX = /^[0-9A-Fa-f]*$/
+// A complete frame at the end of a damaged line, e.g. after a lost newline
+const FRAME_LINE_TAIL = new RegExp(`[0-9A-Fa-f]{1,2}:[0-9A-Fa-f]{${HEX_PAYLOAD_CHARS}}(?:\\*[0-9A-Fa-f]{4})?$`)
+
+const hexToBytes = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16)
+  }
+  return bytes
+}
+
+/* =========================
+   Validation
+========================= */
+
+/** Checks one serial line; null if it isn't a frame line at all */
+export function checkSerialLine(line: string): FrameCheck | null {
+  const match = line.trim().match(FRAME_LINE_START)
+  if (!match) return null
+
+  const [body, crcHex, ...extra] = match[2].split('*')
+  if (extra.length > 0 || !HEX.test(body) || (crcHex !== undefined && !/^[0-9A-Fa-f]{4}$/.test(crcHex))) {
+    return { error: 'encoding' }
+  }
+  if (body.length !== HEX_PAYLOAD_CHARS) return { error: 'length' }
+
+  const seq = parseInt(match[1], 16) & 0xff
+  const payload = hexToBytes(body)
+
+  if (crcHex !== undefined) {
+    const expected = crc16(new Uint8Array([seq, ...payload]))
+    if (parseInt(crcHex, 16) !== expected) return { error: 'crc' }
+  }
+
+  return { frame: { seq, samples: decodeBytesToSamples(payload) }, crc: crcHex !== undefined }
+}
+
+/** Checks one BLE notification; null if it is a control message rather than a frame */
+export function checkBleNotification(bytes: Uint8Array): FrameCheck | null {
+  if (bytes[0] === 0xFE) return null
+
+  const withCrc = bytes.length === BLE_FRAME_BYTES + CRC_BYTES
+  if (bytes.length !== BLE_FRAME_BYTES && !withCrc) return { error: 'length' }
+  if (bytes[0] !== 0x00) return { error: 'header' }
+
+  if (withCrc) {
+    const expected = crc16(bytes.subarray(0, BLE_FRAME_BYTES))
+    if (((bytes[BLE_FRAME_BYTES] << 8) | bytes[BLE_FRAME_BYTES + 1]) !== expected) return { error: 'crc' }
+  }
+
+  return {
+    frame: { seq: bytes[1] & 0x0F, samples: decodeBytesToSamples(bytes.slice(2, BLE_FRAME_BYTES)) },
+    crc: withCrc,
+  }
+}
+
+/** Whether the bytes are one well-formed frame in the given format */
+export function isValidFrame(source: FrameSource, bytes: Uint8Array) {
+  const check = source === 'serial' ? checkSerialLine(new TextDecoder().decode(bytes)) : checkBleNotification(bytes)
+  return check !== null && 'frame' in check
+}
+
+/* =========================
+   Stream parser
+========================= */
+
+export interface ParsedChunk {
+  frames: DecodedFrame[]
+  responses: DeviceResponse[]
+  reports: DeviceInfoReport[]
+  /** Frames, lines or packets thrown away in this chunk */
+  dropped: number
+}
+
+/**
+ * Splits serial bytes into lines and classifies BLE notifications.
+ * After a reset or an overlong line the first line is expected to be
+ * cut short and is dropped as partial; a damaged line that still ends
+ * in a complete frame gives that frame up.
+ */
+export class Ps02Parser {
+  private text = new TextDecoder()
+  private buffer = ''
+  // False until the first newline after a reset marks a line boundary
+  private synced = false
+  private counts: ParseStats = structuredClone(EMPTY_PARSE_STATS)
+
+  get stats(): ParseStats {
+    return structuredClone(this.counts)
+  }
+
+  reset() {
+    this.text = new TextDecoder()
+    this.buffer = ''
+    this.synced = false
+    this.counts = structuredClone(EMPTY_PARSE_STATS)
+  }
+
+  feed(source: FrameSource, bytes: Uint8Array): ParsedChunk {
+    const chunk: ParsedChunk = { frames: [], responses: [], reports: [], dropped: 0 }
+    this.counts.bytes += bytes.length
+
+    if (source === 'ble') {
+      this.handlePacket(bytes, chunk)
+      return chunk
+    }
+
+    this.buffer += this.text.decode(bytes, { stream: true })
+
+    let idx
+    while ((idx = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, idx)
+      this.buffer = this.buffer.slice(idx + 1)
+      this.handleLine(line, chunk)
+    }
+
+    if (this.buffer.length > MAX_LINE_CHARS) {
+      // Whatever follows up to the next newline is the rest of this line
+      this.buffer = ''
+      this.synced = false
+      this.reject('overflow', chunk)
+      this.counts.resyncs++
+    }
+
+    return chunk
+  }
+
+  private handlePacket(bytes: Uint8Array, chunk: ParsedChunk) {
+    const check = checkBleNotification(bytes)
+    if (check) {
+      if ('frame' in check) this.accept(check, chunk)
+      else this.reject(check.error, chunk)
+      return
+    }
+
+    const response = parseBleResponse(bytes)
+    const report = response ? null : parseBleInfo(bytes)
+    if (response) chunk.responses.push(response)
+    else if (report) chunk.reports.push(report)
+    else this.ignore(chunk)
+  }
+
+  private handleLine(raw: string, chunk: ParsedChunk) {
+    const line = raw.trim()
+    const wasSynced = this.synced
+    this.synced = true
+    if (!line) return
+
+    const check = checkSerialLine(line)
+    if (check && 'frame' in check) {
+      this.accept(check, chunk)
+      return
+    }
+
+    if (!check) {
+      const response = parseSerialResponse(line)
+      if (response) {
+        chunk.responses.push(response)
+        return
+      }
+      const report = parseSerialInfo(line)
+      if (report) {
+        chunk.reports.push(report)
+        return
+      }
+    }
+
+    // Recover a whole frame from the end of the line and drop the rest
+    const tail = line.match(FRAME_LINE_TAIL)
+    const recovered = tail && tail.index! > 0 ? checkSerialLine(tail[0]) : null
+    if (recovered && 'frame' in recovered) {
+      this.reject('partial', chunk)
+      this.counts.resyncs++
+      this.accept(recovered, chunk)
+      return
+    }
+
+    if (!wasSynced) this.reject('partial', chunk)
+    else if (check) this.reject(check.error, chunk)
+    else this.ignore(chunk)
+  }
+
+  private accept(check: { frame: DecodedFrame; crc: boolean }, chunk: ParsedChunk) {
+    chunk.frames.push(check.frame)
+    this.counts.frames++
+    if (check.crc) this.counts.crcVerified++
+  }
+
+  private reject(reason: MalformedReason, chunk: ParsedChunk) {
+    this.counts.malformed[reason]++
+    chunk.dropped++
+  }
+
+  private ignore(chunk: ParsedChunk) {
+    this.counts.ignored++
+    chunk.dropped++
+  }
+}
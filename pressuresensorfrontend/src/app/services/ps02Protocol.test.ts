@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SAMPLES_PER_FRAME,
+  crc16,
+  decodeBytesToSamples,
+  decodeHexToSamples,
+  encodeBleNotification,
+  encodeSamplesToBytes,
+  encodeSerialLine,
+  parseSerialInfo,
+  parseSerialResponse,
+} from './ps02Protocol'
+
+/*
+ * Golden payload: each 3-byte group [b0, b1, b2] packs two 12-bit
+ * samples, low bytes first and both high nibbles in b2 (v1 high, v2
+ * low), offset by 2048. Expected values are worked out by hand.
+ */
+const GROUPS: [string, [number, number]][] = [
+  ['000088', [0, 0]],
+  ['FF0070', [-1, -2048]],
+  ['FFFFFF', [2047, 2047]],
+  ['34129A', [308, 530]],
+  ['000000', [-2048, -2048]],
+  ['01FF87', [1, -1]],
+  ['E818B4', [1000, -1000]],
+  ['0CF487', [12, -12]],
+]
+
+const GOLDEN_ORDER = [...Array(16).keys()].map(i => i % 8).concat([0, 1])
+const GOLDEN_HEX = GOLDEN_ORDER.map(i => GROUPS[i][0]).join('')
+const GOLDEN_SAMPLES = GOLDEN_ORDER.flatMap(i => GROUPS[i][1])
+
+const hexBytes = (hex: string) => new Uint8Array(hex.match(/../g)!.map(b => parseInt(b, 16)))
+
+describe('decodeBytesToSamples', () => {
+  it.each(GROUPS)('unpacks %s', (hex, expected) => {
+    const payload = new Uint8Array(54)
+    payload.set(hexBytes(hex))
+    expect(decodeBytesToSamples(payload).slice(0, 2)).toEqual(expected)
+  })
+
+  it('decodes a full golden frame', () => {
+    const samples = decodeBytesToSamples(hexBytes(GOLDEN_HEX))
+    expect(samples).toHaveLength(SAMPLES_PER_FRAME)
+    expect(samples).toEqual(GOLDEN_SAMPLES)
+  })
+
+  it('ignores bytes past the payload', () => {
+    const bytes = new Uint8Array(60).fill(0xFF)
+    bytes.set(hexBytes(GOLDEN_HEX))
+    expect(decodeBytesToSamples(bytes)).toEqual(GOLDEN_SAMPLES)
+  })
+})
+
+describe('decodeHexToSamples', () => {
+  it('decodes the golden frame from hex', () => {
+    expect(decodeHexToSamples(GOLDEN_HEX)).toEqual(GOLDEN_SAMPLES)
+  })
+
+  it('accepts lower-case hex', () => {
+    expect(decodeHexToSamples(GOLDEN_HEX.toLowerCase())).toEqual(GOLDEN_SAMPLES)
+  })
+})
+
+describe('encoders', () => {
+  it('pack the golden samples back into the golden bytes', () => {
+    expect(Array.from(encodeSamplesToBytes(GOLDEN_SAMPLES))).toEqual(Array.from(hexBytes(GOLDEN_HEX)))
+  })
+
+  it('round-trip every 12-bit value', () => {
+    for (let start = -2048; start < 2048; start += SAMPLES_PER_FRAME) {
+      const samples = Array.from({ length: SAMPLES_PER_FRAME }, (_, i) => Math.min(2047, start + i))
+      expect(decodeBytesToSamples(encodeSamplesToBytes(samples))).toEqual(samples)
+    }
+  })
+
+  it('write a serial frame line', () => {
+    expect(encodeSerialLine(0x1A, GOLDEN_SAMPLES)).toBe(`1A:${GOLDEN_HEX}\r\n`)
+  })
+
+  it('write a BLE notification with the sequence nibble', () => {
+    const bytes = encodeBleNotification(0x13, GOLDEN_SAMPLES)
+    expect(bytes).toHaveLength(56)
+    expect([bytes[0], bytes[1]]).toEqual([0x00, 0x03])
+    expect(decodeBytesToSamples(bytes.slice(2))).toEqual(GOLDEN_SAMPLES)
+  })
+})
+
+describe('crc16', () => {
+  it('matches the CCITT-FALSE check value', () => {
+    expect(crc16(new TextEncoder().encode('123456789'))).toBe(0x29B1)
+  })
+
+  it('is appended to serial lines over the seq byte and payload', () => {
+    const line = encodeSerialLine(0x1A, GOLDEN_SAMPLES, true)
+    const crc = crc16(new Uint8Array([0x1A, ...hexBytes(GOLDEN_HEX)]))
+    expect(line).toBe(`1A:${GOLDEN_HEX}*${crc.toString(16).toUpperCase().padStart(4, '0')}\r\n`)
+  })
+})
+
+describe('device messages', () => {
+  it('parse acknowledgements and echoes', () => {
+    expect(parseSerialResponse('OK:G5')).toEqual({ cmd: 0x47, value: 5, ok: true })
+    expect(parseSerialResponse('ERR:G1F')).toEqual({ cmd: 0x47, value: 0x1F, ok: false })
+    expect(parseSerialResponse('S0')).toEqual({ cmd: 0x53, value: 0, ok: true })
+    expect(parseSerialResponse(`00:${GOLDEN_HEX}`)).toBeNull()
+  })
+
+  it('parse info reports with either field missing', () => {
+    expect(parseSerialInfo('INFO:FW=1.2.0,BAT=76')).toEqual({ firmware: '1.2.0', battery: 76 })
+    expect(parseSerialInfo('INFO:BAT=140')).toEqual({ firmware: null, battery: 100 })
+    expect(parseSerialInfo('OK:G5')).toBeNull()
+  })
+})
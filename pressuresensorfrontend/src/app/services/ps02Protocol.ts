@@ -0,0 +1,229 @@
+/* =========================
+   PS02 frame format
+   - Serial: one ASCII line per frame, `SEQ:<108 hex chars>`
+   - BLE: 56-byte notification, [0x00, seq nibble, 54 payload bytes]
+   The 54 payload bytes pack 36 12-bit samples, 2 samples per 3 bytes.
+   Firmware with checksums appends a CRC-16/CCITT-FALSE: `*<4 hex>`
+   on serial lines (over the seq byte and payload), and 2 big-endian
+   bytes on BLE notifications (over the first 56). Validation and
+   stream parsing live in ps02Parser.
+========================= */
+
+export const FRAME_PAYLOAD_BYTES = 54
+export const SAMPLES_PER_FRAME = 36
+export const BLE_FRAME_BYTES = 56
+export const CRC_BYTES = 2
+
+/** Range of a decoded sample: 12-bit, offset so mid-scale reads 0 */
+export const ADC_MIN = -2048
+export const ADC_MAX = 2047
+
+export const SERIAL_SEQ_MODULO = 256
+export const BLE_SEQ_MODULO = 16
+
+export interface DecodedFrame {
+  seq: number
+  samples: number[]
+}
+
+/* =========================
+   DECODING FUNCTIONS
+========================= */
+
+export const decodeHexToSamples = (hexString: string): number[] => {
+  const bytes = []
+  for (let i = 0; i < hexString.length; i += 2) {
+    bytes.push(parseInt(hexString.substr(i, 2), 16))
+  }
+  return decodeBytesToSamples(new Uint8Array(bytes))
+}
+
+export const decodeBytesToSamples = (bytes: Uint8Array): number[] => {
+  const samples: number[] = []
+  for (let i = 0; i < FRAME_PAYLOAD_BYTES; i += 3) {
+    const b0 = bytes[i]
+    const b1 = bytes[i + 1]
+    const b2 = bytes[i + 2]
+
+    const v1 = (((b2 << 4) & 0x0F00) | b0) - 2048
+    const v2 = (((b2 << 8) & 0x0F00) | b1) - 2048
+
+    samples.push(v1)
+    samples.push(v2)
+  }
+  return samples
+}
+
+/** CRC-16/CCITT-FALSE: poly 0x1021, init 0xFFFF, no reflection */
+export const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFF
+  for (const byte of bytes) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF
+    }
+  }
+  return crc
+}
+
+/* =========================
+   COMMANDS
+   G<hex> sets gain (0–15), S0 starts and B0 stops streaming, I0
+   asks for firmware and battery (see DEVICE INFO below).
+========================= */
+
+export const SERIAL_BAUD_RATE = 115200
+
+export const CMD_GAIN = 0x47
+export const CMD_START = 0x53
+export const CMD_STOP = 0x42
+export const CMD_INFO = 0x49
+
+export const serialGainCommand = (gain: number) => `G${gain.toString(16).toUpperCase()}\r\n`
+export const SERIAL_START_COMMAND = 'S0\r\n'
+export const SERIAL_STOP_COMMAND = 'B0\r\n'
+export const SERIAL_INFO_COMMAND = 'I0\r\n'
+
+export const bleCommand = (cmd: number, value = 0) =>
+  new Uint8Array([0xFE, 0x00, cmd, value & 0xFF, 0x00])
+
+/* =========================
+   RESPONSES
+   Acknowledgements the command layer understands:
+   - Serial: `OK:<cmd><hex>` or `ERR:<cmd><hex>` lines, or a bare
+     echo of the command (`G5`, `S0`)
+   - BLE: 5-byte notification [0xFE, 0x01, cmd, value, status],
+     status 0 meaning accepted
+========================= */
+
+export interface DeviceResponse {
+  cmd: number
+  value: number
+  ok: boolean
+}
+
+const SERIAL_RESPONSE_PATTERN = /^(?:(OK|ERR):)?([GSB])([0-9A-Fa-f]{1,2})$/
+const BLE_RESPONSE_MARKER = 0x01
+
+export const parseSerialResponse = (line: string): DeviceResponse | null => {
+  const match = line.trim().match(SERIAL_RESPONSE_PATTERN)
+  if (!match) return null
+
+  return {
+    cmd: match[2].charCodeAt(0),
+    value: parseInt(match[3], 16),
+    ok: match[1] !== 'ERR',
+  }
+}
+
+export const parseBleResponse = (bytes: Uint8Array): DeviceResponse | null => {
+  if (bytes.length < 5 || bytes[0] !== 0xFE || bytes[1] !== BLE_RESPONSE_MARKER) return null
+
+  return { cmd: bytes[2], value: bytes[3], ok: bytes[4] === 0x00 }
+}
+
+export const encodeSerialResponse = ({ cmd, value, ok }: DeviceResponse) =>
+  `${ok ? 'OK' : 'ERR'}:${String.fromCharCode(cmd)}${value.toString(16).toUpperCase()}\r\n`
+
+export const encodeBleResponse = ({ cmd, value, ok }: DeviceResponse) =>
+  new Uint8Array([0xFE, BLE_RESPONSE_MARKER, cmd, value & 0xFF, ok ? 0x00 : 0x01])
+
+/* =========================
+   DEVICE INFO
+   Firmware that supports the info query answers with:
+   - Serial: `INFO:FW=<version>,BAT=<percent>` (either field optional)
+   - BLE: [0xFE, 0x02, major, minor, patch, battery], battery 0xFF
+     meaning unknown
+   Older firmware doesn't answer at all.
+========================= */
+
+export interface DeviceInfoReport {
+  firmware: string | null
+  /** Percent, 0–100 */
+  battery: number | null
+}
+
+const SERIAL_INFO_PATTERN = /^INFO:(.*)$/
+const BLE_INFO_MARKER = 0x02
+const BLE_INFO_BYTES = 6
+const BATTERY_UNKNOWN = 0xFF
+
+const clampBattery = (value: number) => Math.max(0, Math.min(100, Math.round(value)))
+
+export const parseSerialInfo = (line: string): DeviceInfoReport | null => {
+  const match = line.trim().match(SERIAL_INFO_PATTERN)
+  if (!match) return null
+
+  const fields = new Map(
+    match[1].split(',').map(field => {
+      const [key, ...value] = field.split('=')
+      return [key.trim().toUpperCase(), value.join('=').trim()] as const
+    }),
+  )
+  const battery = Number(fields.get('BAT'))
+
+  return {
+    firmware: fields.get('FW') || null,
+    battery: fields.has('BAT') && Number.isFinite(battery) ? clampBattery(battery) : null,
+  }
+}
+
+export const parseBleInfo = (bytes: Uint8Array): DeviceInfoReport | null => {
+  if (bytes.length < BLE_INFO_BYTES || bytes[0] !== 0xFE || bytes[1] !== BLE_INFO_MARKER) return null
+
+  return {
+    firmware: `${bytes[2]}.${bytes[3]}.${bytes[4]}`,
+    battery: bytes[5] === BATTERY_UNKNOWN ? null : clampBattery(bytes[5]),
+  }
+}
+
+export const encodeSerialInfo = ({ firmware, battery }: DeviceInfoReport) => {
+  const fields = [firmware !== null && `FW=${firmware}`, battery !== null && `BAT=${battery}`].filter(Boolean)
+  return `INFO:${fields.join(',')}\r\n`
+}
+
+/** Firmware must be a major.minor.patch version */
+export const encodeBleInfo = ({ firmware, battery }: DeviceInfoReport) => {
+  const [major = 0, minor = 0, patch = 0] = (firmware ?? '').split('.').map(n => Number(n) || 0)
+  return new Uint8Array([0xFE, BLE_INFO_MARKER, major, minor, patch, battery === null ? BATTERY_UNKNOWN : battery])
+}
+
+/* =========================
+   ENCODING FUNCTIONS
+   Inverse of the decoders above, used by the simulator.
+========================= */
+
+export const encodeSamplesToBytes = (samples: number[]): Uint8Array => {
+  const bytes = new Uint8Array(FRAME_PAYLOAD_BYTES)
+  for (let i = 0, j = 0; i < FRAME_PAYLOAD_BYTES; i += 3, j += 2) {
+    const u1 = (samples[j] ?? 0) + 2048
+    const u2 = (samples[j + 1] ?? 0) + 2048
+
+    bytes[i] = u1 & 0xFF
+    bytes[i + 1] = u2 & 0xFF
+    bytes[i + 2] = ((u1 >> 4) & 0xF0) | ((u2 >> 8) & 0x0F)
+  }
+  return bytes
+}
+
+const toHex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0')
+
+export const encodeSerialLine = (seq: number, samples: number[], withCrc = false): string => {
+  const payload = encodeSamplesToBytes(samples)
+  const hex = Array.from(payload, b => toHex(b, 2)).join('')
+  const crc = withCrc ? `*${toHex(crc16(new Uint8Array([seq & 0xff, ...payload])), 4)}` : ''
+  return `${toHex(seq & 0xff, 2)}:${hex}${crc}\r\n`
+}
+
+export const encodeBleNotification = (seq: number, samples: number[], withCrc = false): Uint8Array => {
+  const bytes = new Uint8Array(BLE_FRAME_BYTES + (withCrc ? CRC_BYTES : 0))
+  bytes[0] = 0x00
+  bytes[1] = seq & 0x0F
+  bytes.set(encodeSamplesToBytes(samples), 2)
+  if (withCrc) {
+    const crc = crc16(bytes.subarray(0, BLE_FRAME_BYTES))
+    bytes[BLE_FRAME_BYTES] = crc >> 8
+    bytes[BLE_FRAME_BYTES + 1] = crc & 0xFF
+  }
+  return bytes
+}
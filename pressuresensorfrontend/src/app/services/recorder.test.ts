@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { FakeDirectory } from '@/test/fakeDirectory'
+import {
+  CsvDirectorySink,
+  Recorder,
+  type RecordingInfo,
+  type RecordingRow,
+  type RecordingSink,
+  type RecordingStartInfo,
+  type RecordingSummary,
+} from './recorder'
+
+const info = { notes: '', calibration: null, unit: 'raw', events: [] } as unknown as RecordingInfo
+
+const rows = (from: number, count: number): RecordingRow[] =>
+  Array.from({ length: count }, (_, i) => ({
+    index: from + i,
+    time: null,
+    raw: 100,
+    filtered: 100,
+    baseline: null,
+    pressure: null,
+    marker: null,
+  }))
+
+describe('CsvDirectorySink', () => {
+  it('continues in a new part file, each with the header, once a part is full', async () => {
+    const dir = new FakeDirectory()
+    const sink = new CsvDirectorySink(dir as unknown as FileSystemDirectoryHandle, 'data.csv', 200)
+
+    await sink.open(info)
+    for (let batch = 0; batch < 6; batch++) await sink.write(rows(batch * 10, 10))
+    await sink.close({ ...info, samples: 60 } as RecordingSummary)
+
+    expect(sink.parts.length).toBeGreaterThan(1)
+    expect(sink.parts.slice(0, 2)).toEqual(['data.csv', 'data.part2.csv'])
+
+    const indices = sink.parts.flatMap(part => {
+      const [header, ...lines] = dir.text(part).trim().split('\n')
+      expect(header).toBe('index,time_s,raw,filtered,baseline,marker')
+      return lines.map(line => Number(line.split(',')[0]))
+    })
+    expect(indices).toEqual(Array.from({ length: 60 }, (_, i) => i))
+
+    const metadata = JSON.parse(dir.text('data.json'))
+    expect(metadata.files).toEqual(sink.parts)
+    expect(metadata.samples).toBe(60)
+  })
+
+  it('keeps a short recording in one file', async () => {
+    const dir = new FakeDirectory()
+    const sink = new CsvDirectorySink(dir as unknown as FileSystemDirectoryHandle, 'data.csv')
+
+    await sink.open(info)
+    await sink.write(rows(0, 10))
+    await sink.close({ ...info, samples: 10 } as RecordingSummary)
+
+    expect([...dir.files.keys()].sort()).toEqual(['data.csv', 'data.json'])
+  })
+})
+
+describe('Recorder', () => {
+  it('discards the sinks that opened when another fails to', async () => {
+    const dir = new FakeDirectory()
+    const csv = new CsvDirectorySink(dir as unknown as FileSystemDirectoryHandle, 'data.csv')
+    const broken: RecordingSink = {
+      description: 'broken',
+      open: async () => {
+        throw new Error('Permission lost')
+      },
+      write: async () => {},
+      close: async () => {},
+      discard: async () => {},
+    }
+    const recorder = new Recorder([csv, broken])
+
+    await expect(recorder.start({ ...info, gain: 5 } as unknown as RecordingStartInfo)).rejects.toThrow('Permission lost')
+    expect(recorder.isActive).toBe(false)
+    expect(dir.files.size).toBe(0)
+  })
+})
@@ -0,0 +1,479 @@
+import type { ConnectionMode, DeviceInfo } from './transports'
+import {
+  createPressureConverter,
+  kPaToUnit,
+  type CalibrationProfile,
+  type PressureUnit,
+} from './calibration'
+import type { BaselineInfo } from './baseline'
+import { clippedPercent, isClipped } from './clipping'
+import { csvSafeLabel, type RecordingEvent } from './markers'
+
+/* =========================
+   Recording pipeline
+   Transports feed samples into a Recorder, which buffers them briefly
+   and flushes batches to every sink. Sinks persist incrementally, so a
+   crash loses at most one flush interval of data.
+========================= */
+
+export interface RecordingRow {
+  index: number
+  /** Seconds since the time origin (the first recorded sample unless shared); null when not timestamped */
+  time: number | null
+  /** null when the sample was lost in a gap */
+  raw: number | null
+  filtered: number | null
+  /** Tare subtracted from raw for display and filtering; null when not zeroed */
+  baseline: number | null
+  /** Tared sample in kPa; null when lost or the gain is uncalibrated */
+  pressure: number | null
+  /** Labels of markers dropped on this sample */
+  marker: string | null
+}
+
+export interface GainChange {
+  /** ms since the recording started */
+  at: number
+  gain: number
+}
+
+export interface RecordingActivity {
+  id: number
+  description: string
+}
+
+/** Where a recording sits among sensors recorded together */
+export interface RecordingChannel {
+  /** Shared by every channel of one multi-sensor recording */
+  groupId: string
+  /** 1-based */
+  index: number
+  count: number
+  label: string
+  color: string
+}
+
+export interface SignalStats {
+  min: number
+  max: number
+  mean: number
+  /** Noise estimate: RMS of successive raw differences / √2 */
+  noiseRms: number
+}
+
+export interface RecordingInfo {
+  startedAt: Date
+  mode: ConnectionMode
+  deviceName: string
+  /** Firmware, battery and link details when recording started */
+  device: DeviceInfo | null
+  activity: RecordingActivity | null
+  /** null for a single-sensor recording */
+  channel: RecordingChannel | null
+  notes: string
+  gainHistory: GainChange[]
+  /** Calibration in effect when recording started, if any */
+  calibration: CalibrationProfile | null
+  /** Unit of the pressure column in CSV exports */
+  unit: PressureUnit
+  /** Latest tare; per-sample values are in the rows */
+  baseline: BaselineInfo | null
+  /** Markers dropped while recording */
+  events: RecordingEvent[]
+}
+
+export interface RecordingSummary extends RecordingInfo {
+  endedAt: Date
+  samples: number
+  lostSamples: number
+  droppedFrames: number
+  /** Samples at or near an ADC rail */
+  clippedSamples: number
+  /** clippedSamples as a percent of received samples */
+  clippedPercent: number
+  /** Estimated from sample timestamps; null when too few */
+  sampleRate: number | null
+  stats: SignalStats | null
+  /** Same statistics in kPa, over calibrated samples only */
+  pressureStats: SignalStats | null
+}
+
+export interface RecordingSink {
+  readonly description: string
+  open(info: RecordingInfo): Promise<void>
+  write(rows: RecordingRow[]): Promise<void>
+  close(summary: RecordingSummary): Promise<void>
+  /** Removes whatever open() created, when the recording can't start after all */
+  discard(): Promise<void>
+}
+
+export interface RecorderOptions {
+  flushIntervalMs?: number
+  onError?: (err: Error) => void
+}
+
+export type RecordingStartInfo = Omit<RecordingInfo, 'startedAt' | 'gainHistory' | 'events'> & {
+  gain: number
+  /** Stream time (s) that becomes t = 0; defaults to the first recorded sample */
+  timeOrigin?: number | null
+}
+
+export const DEFAULT_FLUSH_INTERVAL_MS = 2000
+
+/** Running min/max/mean and difference-based noise over a sample stream */
+class RunningStats {
+  private count = 0
+  private sum = 0
+  private min = Infinity
+  private max = -Infinity
+  private diffSq = 0
+  private diffs = 0
+  private prev: number | null = null
+
+  push(value: number) {
+    this.count++
+    this.sum += value
+    if (value < this.min) this.min = value
+    if (value > this.max) this.max = value
+    if (this.prev !== null) {
+      this.diffSq += (value - this.prev) ** 2
+      this.diffs++
+    }
+    this.prev = value
+  }
+
+  /** Don't difference across a discontinuity */
+  break() {
+    this.prev = null
+  }
+
+  snapshot(): SignalStats | null {
+    if (this.count === 0) return null
+    return {
+      min: this.min,
+      max: this.max,
+      mean: this.sum / this.count,
+      noiseRms: this.diffs === 0 ? 0 : Math.sqrt(this.diffSq / this.diffs / 2),
+    }
+  }
+}
+
+export class Recorder {
+  private pending: RecordingRow[] = []
+  private nextIndex = 0
+  private samples = 0
+  private lostSamples = 0
+  private droppedFrames = 0
+  private clippedSamples = 0
+  private info: RecordingInfo | null = null
+  // Marked but not yet placed on a row
+  private pendingEvents: RecordingEvent[] = []
+
+  private rawStats = new RunningStats()
+  private pressureStats = new RunningStats()
+  private toKpa: ((counts: number) => number) | null = null
+  private timeOrigin: number | null = null
+  private firstTime: number | null = null
+  private lastTime: number | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  // Serializes sink writes so batches land in order
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(
+    private sinks: RecordingSink[],
+    private options: RecorderOptions = {},
+  ) {}
+
+  get isActive() {
+    return this.timer !== null
+  }
+
+  get sampleCount() {
+    return this.samples
+  }
+
+  get destinations() {
+    return this.sinks.map(sink => sink.description)
+  }
+
+  async start({ gain, timeOrigin = null, ...rest }: RecordingStartInfo) {
+    const info: RecordingInfo = { ...rest, startedAt: new Date(), gainHistory: [{ at: 0, gain }], events: [] }
+    this.info = info
+    this.pendingEvents = []
+    this.timeOrigin = timeOrigin
+    this.firstTime = null
+    this.lastTime = null
+    this.useGain(gain)
+
+    const opened = await Promise.allSettled(this.sinks.map(sink => sink.open(info)))
+    const failed = opened.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+    if (failed) {
+      // Don't leave a recording that never ran in the sinks that did open
+      await Promise.all(this.sinks.map(sink => sink.discard().catch(err => this.options.onError?.(err))))
+      this.info = null
+      throw failed.reason
+    }
+
+    this.timer = setInterval(() => this.flush(), this.options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS)
+  }
+
+  noteGain(gain: number) {
+    if (!this.info) return
+    // Re-sent (e.g. after a reconnect) rather than changed
+    if (this.info.gainHistory[this.info.gainHistory.length - 1]?.gain === gain) return
+    this.info.gainHistory.push({ at: Date.now() - this.info.startedAt.getTime(), gain })
+    this.useGain(gain)
+  }
+
+  private useGain(gain: number) {
+    const calibration = this.info?.calibration?.gains[gain]
+    this.toKpa = createPressureConverter(calibration, 'kPa')
+    this.pressureStats.break()
+  }
+
+  setNotes(notes: string) {
+    if (this.info) this.info.notes = notes
+  }
+
+  setBaseline(baseline: BaselineInfo | null) {
+    if (this.info) this.info.baseline = baseline
+  }
+
+  /** Drops a marker on the next recorded row, the sample being taken now */
+  mark(label: string) {
+    if (!this.info || !this.isActive) return
+    const event: RecordingEvent = { label, index: this.nextIndex, time: null }
+    this.info.events.push(event)
+    this.pendingEvents.push(event)
+  }
+
+  /** Places pending markers on `row` */
+  private placeEvents(row: RecordingRow) {
+    if (this.pendingEvents.length === 0) return
+    for (const event of this.pendingEvents) {
+      event.index = row.index
+      event.time = row.time
+    }
+    row.marker = [row.marker, ...this.pendingEvents.map(e => csvSafeLabel(e.label))].filter(Boolean).join('; ')
+    this.pendingEvents = []
+  }
+
+  /**
+   * raw is the untared device value; filtered is already tared. time is
+   * the stream time in seconds, rebased to the recording's time origin.
+   */
+  push(raw: number, filtered: number, baseline: number | null = null, time: number | null = null) {
+    if (!this.isActive) return
+    const pressure = this.toKpa ? this.toKpa(raw) - (baseline === null ? 0 : this.toKpa(baseline)) : null
+    const row: RecordingRow = { index: this.nextIndex++, time: this.rebase(time), raw, filtered, baseline, pressure, marker: null }
+    this.placeEvents(row)
+    this.pending.push(row)
+    this.samples++
+    if (isClipped(raw)) this.clippedSamples++
+
+    this.rawStats.push(raw)
+    if (pressure !== null) this.pressureStats.push(pressure)
+  }
+
+  /**
+   * Lost samples keep their index with empty values, so nothing is
+   * spliced. They are timestamped from startTime in steps of period.
+   */
+  pushGap(lostSamples: number, lostFrames: number, startTime: number | null = null, period = 0) {
+    if (!this.isActive) return
+    this.droppedFrames += lostFrames
+    if (lostSamples > 0) {
+      this.rawStats.break()
+      this.pressureStats.break()
+    }
+    for (let i = 0; i < lostSamples; i++) {
+      const time = startTime === null ? null : this.rebase(startTime + i * period)
+      const row: RecordingRow = { index: this.nextIndex++, time, raw: null, filtered: null, baseline: null, pressure: null, marker: null }
+      this.placeEvents(row)
+      this.pending.push(row)
+    }
+    this.lostSamples += lostSamples
+  }
+
+  async stop(): Promise<RecordingSummary> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+
+    // A marker dropped after the last sample goes on that sample; if it
+    // was already flushed, only the events list can still point at it
+    const last = this.pending[this.pending.length - 1]
+    if (last) this.placeEvents(last)
+    for (const event of this.pendingEvents) event.index = Math.max(0, this.nextIndex - 1)
+    this.pendingEvents = []
+    this.flush()
+    await this.queue
+
+    const summary: RecordingSummary = {
+      ...this.info!,
+      endedAt: new Date(),
+      samples: this.samples,
+      lostSamples: this.lostSamples,
+      droppedFrames: this.droppedFrames,
+      clippedSamples: this.clippedSamples,
+      clippedPercent: clippedPercent(this.clippedSamples, this.samples),
+      sampleRate: this.estimateRate(),
+      stats: this.rawStats.snapshot(),
+      pressureStats: this.pressureStats.snapshot(),
+    }
+
+    await Promise.all(this.sinks.map(sink => sink.close(summary).catch(err => this.options.onError?.(err))))
+    return summary
+  }
+
+  private rebase(time: number | null) {
+    if (time === null) return null
+    this.timeOrigin ??= time
+    this.lastTime = time - this.timeOrigin
+    this.firstTime ??= this.lastTime
+    return this.lastTime
+  }
+
+  private estimateRate() {
+    const indexed = this.samples + this.lostSamples
+    if (this.lastTime === null || this.firstTime === null || indexed < 2) return null
+    const span = this.lastTime - this.firstTime
+    return span > 0 ? (indexed - 1) / span : null
+  }
+
+  private flush() {
+    if (this.pending.length === 0) return
+
+    const rows = this.pending
+    this.pending = []
+
+    this.queue = this.queue.then(async () => {
+      await Promise.all(
+        this.sinks.map(sink => sink.write(rows).catch(err => this.options.onError?.(err))),
+      )
+    })
+  }
+}
+
+/* =========================
+   CSV file sink (File System Access API)
+   Each flush re-opens the file, appends and closes it again: a
+   writable stream only commits to disk on close(). Reopening is not
+   free — Chromium copies the existing file to a swap file before
+   every append — so once a file reaches CSV_PART_BYTES the recording
+   continues in a new part file, which bounds the copy per flush.
+   Every part starts with the header. Recording metadata (device, gain
+   history, calibration, part files…) goes to a JSON file alongside,
+   written on open and rewritten with the summary on close.
+========================= */
+
+type ExportUnit = Exclude<PressureUnit, 'raw'>
+
+const formatRow = (row: RecordingRow, unit: ExportUnit | null) => {
+  const pressure = unit === null ? '' : `,${row.pressure === null ? '' : +kPaToUnit(row.pressure, unit).toFixed(4)}`
+  const time = row.time === null ? '' : row.time.toFixed(6)
+
+  const baseline = row.baseline === null ? '' : +row.baseline.toFixed(3)
+  const marker = row.marker ?? ''
+
+  return row.raw === null
+    ? `${row.index},${time},,,${pressure},${marker}\n`
+    : `${row.index},${time},${row.raw},${+(row.filtered ?? row.raw).toFixed(3)},${baseline}${pressure},${marker}\n`
+}
+
+/** Size after which a recording continues in a new CSV part file */
+export const CSV_PART_BYTES = 8 * 1024 * 1024
+
+/** data_<timestamp>[_<suffix>].csv; channels recorded together share the timestamp */
+export const csvFileName = (suffix = '', at = new Date()) =>
+  `data_${at.toISOString().replace(/[:.]/g, '-').slice(0, -5)}${suffix ? `_${suffix}` : ''}.csv`
+
+/** <name>.csv, then <name>.part2.csv, <name>.part3.csv… */
+const csvPartName = (filename: string, part: number) =>
+  part === 1 ? filename : filename.replace(/\.csv$/, '') + `.part${part}.csv`
+
+export class CsvDirectorySink implements RecordingSink {
+  private file: FileSystemFileHandle | null = null
+  private size = 0
+  /** Unit of the extra pressure column, or null when there is none */
+  private unit: ExportUnit | null = null
+  private header = ''
+  private lastMeta: RecordingInfo | RecordingSummary | null = null
+  readonly filename: string
+  readonly metaFilename: string
+  /** CSV files written so far, in order */
+  readonly parts: string[] = []
+
+  constructor(
+    private dir: FileSystemDirectoryHandle,
+    filename?: string,
+    private partBytes = CSV_PART_BYTES,
+  ) {
+    this.filename = filename ?? csvFileName()
+    this.metaFilename = this.filename.replace(/\.csv$/, '') + '.json'
+  }
+
+  get description() {
+    return `${this.dir.name}/${this.filename}`
+  }
+
+  async open(info: RecordingInfo) {
+    this.unit = info.calibration && info.unit !== 'raw' ? info.unit : null
+    this.header = `index,time_s,raw,filtered,baseline${this.unit ? `,pressure_${this.unit}` : ''},marker\n`
+    this.parts.length = 0
+    await this.openPart()
+    await this.writeMeta(info)
+  }
+
+  async write(rows: RecordingRow[]) {
+    if (!this.file) return
+    if (this.size >= this.partBytes) {
+      await this.openPart()
+      // Keep the metadata's list of parts current in case the session never closes
+      await this.writeMeta(null)
+    }
+    await this.append(rows.map(row => formatRow(row, this.unit)).join(''))
+  }
+
+  async close(summary: RecordingSummary) {
+    this.file = null
+    await this.writeMeta(summary)
+  }
+
+  async discard() {
+    this.file = null
+    for (const name of [...this.parts, this.metaFilename]) {
+      await this.dir.removeEntry(name).catch(() => {})
+    }
+    this.parts.length = 0
+  }
+
+  private async openPart() {
+    const name = csvPartName(this.filename, this.parts.length + 1)
+    this.file = await this.dir.getFileHandle(name, { create: true })
+    this.parts.push(name)
+    this.size = 0
+    await this.append(this.header, false)
+  }
+
+  /** Rewrites the metadata file; null re-saves the last metadata with the current parts */
+  private async writeMeta(meta: RecordingInfo | RecordingSummary | null) {
+    if (meta) this.lastMeta = meta
+    const file = await this.dir.getFileHandle(this.metaFilename, { create: true })
+    const writable = await file.createWritable()
+    await writable.write(JSON.stringify({ ...this.lastMeta, files: this.parts }, null, 2))
+    await writable.close()
+  }
+
+  private async append(text: string, keepExistingData = true) {
+    if (!this.file) return
+
+    const data = new TextEncoder().encode(text)
+    const writable = await this.file.createWritable({ keepExistingData })
+    await writable.seek(this.size)
+    await writable.write(data)
+    await writable.close()
+    this.size += data.byteLength
+  }
+}
@@ -0,0 +1,140 @@
+/* =========================
+   Live sample ring buffer
+   Fixed-size typed arrays written a block of samples at a time by the
+   sample pipeline and read by the UI once per animation frame, so
+   history depth costs memory only, never allocations or renders.
+   Columns and counters all live in one backing store, which is a
+   SharedArrayBuffer where the page is cross-origin isolated: the
+   pipeline worker then writes into it directly.
+========================= */
+
+/** One column per field, the same length each; what the pipeline produces per frame */
+export interface SampleColumns {
+  time: Float64Array
+  raw: Float64Array
+  filtered: Float64Array
+  baseline: Float64Array
+  lostBefore: Uint32Array
+  clipped: Uint8Array
+}
+
+// Counters at the start of the store, read and written atomically
+const HEAD = 0
+const COUNT = 1
+const TOTAL = 2
+const REVISION = 3
+const STATE_BYTES = 16
+
+/** Time (8 bytes), raw/filtered/baseline/lostBefore (4 each) and clipped (1) */
+const BYTES_PER_SAMPLE = 25
+
+export const ringBufferBytes = (capacity: number) => STATE_BYTES + BYTES_PER_SAMPLE * capacity
+
+/** Whether a buffer can be shared with a worker on this page */
+export const canShareBuffers = () =>
+  typeof SharedArrayBuffer !== 'undefined' && (globalThis as { crossOriginIsolated?: boolean }).crossOriginIsolated === true
+
+export class SampleRingBuffer {
+  /** Seconds since the stream started */
+  readonly time: Float64Array
+  /** NaN for samples lost in a gap */
+  readonly raw: Float32Array
+  readonly filtered: Float32Array
+  /** NaN where no zero was active */
+  readonly baseline: Float32Array
+  /** Set on the first sample of a gap: how many samples were lost */
+  readonly lostBefore: Uint32Array
+  /** 1 where the sample was at or near an ADC rail */
+  readonly clipped: Uint8Array
+
+  private state: Uint32Array
+
+  /** Wraps `storage` (e.g. a buffer shared by another thread), or allocates a private one */
+  constructor(
+    readonly capacity: number,
+    readonly storage: ArrayBuffer | SharedArrayBuffer = new ArrayBuffer(ringBufferBytes(capacity)),
+  ) {
+    let offset = STATE_BYTES
+    const take = <T>(make: (offset: number) => T, bytes: number) => {
+      const column = make(offset)
+      offset += bytes * capacity
+      return column
+    }
+
+    this.state = new Uint32Array(storage, 0, STATE_BYTES / 4)
+    this.time = take(o => new Float64Array(storage, o, capacity), 8)
+    this.raw = take(o => new Float32Array(storage, o, capacity), 4)
+    this.filtered = take(o => new Float32Array(storage, o, capacity), 4)
+    this.baseline = take(o => new Float32Array(storage, o, capacity), 4)
+    this.lostBefore = take(o => new Uint32Array(storage, o, capacity), 4)
+    this.clipped = take(o => new Uint8Array(storage, o, capacity), 1)
+  }
+
+  /** A buffer a worker can write into, where the page allows it */
+  static create(capacity: number) {
+    return canShareBuffers()
+      ? new SampleRingBuffer(capacity, new SharedArrayBuffer(ringBufferBytes(capacity)))
+      : new SampleRingBuffer(capacity)
+  }
+
+  get isShared() {
+    return typeof SharedArrayBuffer !== 'undefined' && this.storage instanceof SharedArrayBuffer
+  }
+
+  /** Samples currently held */
+  get length() {
+    return Atomics.load(this.state, COUNT)
+  }
+
+  /** Samples written since the last clear, including overwritten ones */
+  get written() {
+    return Atomics.load(this.state, TOTAL)
+  }
+
+  /** Changes on every write or clear; compare to skip redundant renders */
+  get version() {
+    return Atomics.load(this.state, REVISION)
+  }
+
+  /** Appends a block of samples, one typed-array copy per column (two where it wraps) */
+  write(block: SampleColumns) {
+    const n = block.time.length
+    if (n === 0) return
+
+    // Only the newest `capacity` samples can be held
+    let from = Math.max(0, n - this.capacity)
+    let head = (Atomics.load(this.state, HEAD) + from) % this.capacity
+
+    while (from < n) {
+      const run = Math.min(n - from, this.capacity - head)
+      const to = from + run
+      this.time.set(block.time.subarray(from, to), head)
+      this.raw.set(block.raw.subarray(from, to), head)
+      this.filtered.set(block.filtered.subarray(from, to), head)
+      this.baseline.set(block.baseline.subarray(from, to), head)
+      this.lostBefore.set(block.lostBefore.subarray(from, to), head)
+      this.clipped.set(block.clipped.subarray(from, to), head)
+      head = (head + run) % this.capacity
+      from = to
+    }
+
+    // Counters last, so a reader never sees samples that aren't there yet
+    Atomics.store(this.state, COUNT, Math.min(this.capacity, this.length + n))
+    Atomics.store(this.state, HEAD, head)
+    Atomics.add(this.state, TOTAL, n)
+    Atomics.add(this.state, REVISION, 1)
+  }
+
+  clear() {
+    Atomics.store(this.state, HEAD, 0)
+    Atomics.store(this.state, COUNT, 0)
+    Atomics.store(this.state, TOTAL, 0)
+    Atomics.add(this.state, REVISION, 1)
+  }
+
+  /** Storage slot of the i-th oldest held sample (0 ≤ i < length) */
+  slot(i: number) {
+    const head = Atomics.load(this.state, HEAD)
+    return (head - this.length + i + this.capacity) % this.capacity
+  }
+}
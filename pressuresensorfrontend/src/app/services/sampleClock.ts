@@ -0,0 +1,148 @@
+/* =========================
+   Sample timing
+   Frames are timestamped on arrival with the host clock. A least-
+   squares line through recent (sample index, arrival time) pairs gives
+   the sample rate; residuals around it are the arrival jitter. Sample
+   times come from that line, so they are evenly spaced rather than
+   bunched per frame, and never run backwards.
+========================= */
+
+export interface ClockStats {
+  /** Estimated samples per second, null until enough frames arrived */
+  sampleRate: number | null
+  /** RMS deviation of frame arrivals from the fitted line (ms) */
+  jitterMs: number
+  /** Estimated rate relative to the nominal one, in percent */
+  driftPct: number | null
+}
+
+export const EMPTY_CLOCK_STATS: ClockStats = { sampleRate: null, jitterMs: 0, driftPct: null }
+
+export interface FrameTiming {
+  /** Seconds since the clock origin, for the frame's first sample */
+  start: number
+  /** Seconds between samples */
+  period: number
+}
+
+const WINDOW_FRAMES = 200
+const MIN_FRAMES = 10
+const MIN_SPAN_MS = 200
+
+export class SampleClock {
+  private arrivals: { index: number; at: number }[] = []
+  private origin: number | null = null
+  private nextIndex = 0
+  private lastTime = -Infinity
+  private fit: { slope: number; intercept: number; jitter: number } | null = null
+
+  constructor(private nominalRate: number) {}
+
+  setNominalRate(rate: number) {
+    this.nominalRate = rate
+  }
+
+  /**
+   * Starts over. Clocks given the same origin (ms, performance.now())
+   * produce comparable times; without one, time starts at the first frame.
+   */
+  reset(origin: number | null = null) {
+    this.arrivals = []
+    this.origin = origin
+    this.nextIndex = 0
+    this.lastTime = -Infinity
+    this.fit = null
+  }
+
+  /**
+   * Records a frame of `samples` that arrived at `receivedAt` (ms,
+   * performance.now()) after `lostSamples` went missing, and returns the
+   * timing of its samples. Lost samples get times as if they had arrived.
+   */
+  push(receivedAt: number, samples: number, lostSamples = 0): FrameTiming {
+    if (this.origin === null) this.origin = receivedAt
+
+    const first = this.nextIndex + lostSamples
+    this.nextIndex = first + samples
+
+    // The frame is complete when its last sample is in
+    this.arrivals.push({ index: this.nextIndex - 1, at: receivedAt - this.origin })
+    if (this.arrivals.length > WINDOW_FRAMES) this.arrivals.shift()
+    this.refit()
+
+    const periodMs = this.fit ? this.fit.slope : 1000 / this.nominalRate
+    const lastMs = this.fit
+      ? this.fit.intercept + this.fit.slope * (this.nextIndex - 1)
+      : receivedAt - this.origin
+
+    const period = periodMs / 1000
+    const total = lostSamples + samples
+    let firstTime = (lastMs - periodMs * (total - 1)) / 1000
+    // Refits can pull the line back slightly; keep time monotonic
+    if (firstTime <= this.lastTime) firstTime = this.lastTime + period
+    this.lastTime = firstTime + period * (total - 1)
+
+    return { start: firstTime + lostSamples * period, period }
+  }
+
+  /**
+   * How many samples should have arrived between the last timed sample
+   * and a frame of `samples` arriving at `receivedAt`, i.e. the size of
+   * an outage the sequence number cannot measure.
+   */
+  missedBefore(receivedAt: number, samples: number) {
+    if (this.origin === null || this.nextIndex === 0) return 0
+    const periodMs = this.fit ? this.fit.slope : 1000 / this.nominalRate
+    const firstMs = receivedAt - this.origin - periodMs * (samples - 1)
+    return Math.max(0, Math.round((firstMs - this.lastTime * 1000) / periodMs) - 1)
+  }
+
+  stats(): ClockStats {
+    if (!this.fit) return { ...EMPTY_CLOCK_STATS }
+    const sampleRate = 1000 / this.fit.slope
+    return {
+      sampleRate,
+      jitterMs: this.fit.jitter,
+      driftPct: this.nominalRate > 0 ? (sampleRate / this.nominalRate - 1) * 100 : null,
+    }
+  }
+
+  private refit() {
+    const n = this.arrivals.length
+    const span = n > 0 ? this.arrivals[n - 1].at - this.arrivals[0].at : 0
+    if (n < MIN_FRAMES || span < MIN_SPAN_MS) {
+      this.fit = null
+      return
+    }
+
+    let sx = 0
+    let sy = 0
+    for (const a of this.arrivals) {
+      sx += a.index
+      sy += a.at
+    }
+    const mx = sx / n
+    const my = sy / n
+
+    let sxx = 0
+    let sxy = 0
+    for (const a of this.arrivals) {
+      sxx += (a.index - mx) ** 2
+      sxy += (a.index - mx) * (a.at - my)
+    }
+    if (sxx === 0 || sxy <= 0) {
+      this.fit = null
+      return
+    }
+
+    const slope = sxy / sxx
+    const intercept = my - slope * mx
+
+    let sr = 0
+    for (const a of this.arrivals) {
+      sr += (a.at - (intercept + slope * a.index)) ** 2
+    }
+
+    this.fit = { slope, intercept, jitter: Math.sqrt(sr / n) }
+  }
+}
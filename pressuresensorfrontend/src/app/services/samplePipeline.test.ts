@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { SampleRingBuffer } from './sampleBuffer'
+import { SampleProcessor, type PipelineFrame } from './samplePipeline'
+
+const frame = (seq: number, samples: number[], receivedAt = seq * 10): PipelineFrame => ({
+  seq,
+  seqModulo: 256,
+  samples,
+  receivedAt,
+})
+
+const held = (buffer: SampleRingBuffer, column: ArrayLike<number>) =>
+  Array.from({ length: buffer.length }, (_, i) => column[buffer.slot(i)])
+
+describe('SampleProcessor', () => {
+  it('writes each frame into the ring buffer, holding the place of lost samples', () => {
+    const buffer = new SampleRingBuffer(64)
+    const processor = new SampleProcessor()
+    processor.attach(buffer)
+
+    processor.handle({ type: 'reset', origin: 0 })
+    processor.handle({ type: 'frame', frame: frame(0, [1, 2]) })
+    const update = processor.handle({ type: 'frame', frame: frame(2, [5, 6]) })!
+
+    expect(update.inBuffer).toBe(true)
+    expect(update.block!.lostFrames).toBe(1)
+    expect(Array.from(update.block!.counts)).toEqual([5, 6])
+    expect(update.status.link.framesLost).toBe(1)
+
+    expect(buffer.written).toBe(6)
+    expect(held(buffer, buffer.raw)).toEqual([1, 2, NaN, NaN, 5, 6])
+    expect(held(buffer, buffer.lostBefore)).toEqual([0, 0, 0, 0, 2, 0])
+
+    const times = held(buffer, buffer.time)
+    expect(times.every((t, i) => i === 0 || t > times[i - 1])).toBe(true)
+  })
+
+  it('tares the samples after a zero and reports the capture once', () => {
+    const buffer = new SampleRingBuffer(64)
+    const processor = new SampleProcessor()
+    processor.attach(buffer)
+    processor.handle({ type: 'baseline', options: { windowSeconds: 0.002, trackDrift: false, driftTimeConstantSec: 30, restBandCounts: 20 } })
+
+    processor.handle({ type: 'zero' })
+    const captured = processor.handle({ type: 'frame', frame: frame(0, [100, 102, 150]) })!
+    const next = processor.handle({ type: 'frame', frame: frame(1, [101]) })!
+
+    expect(captured.zeroCaptured?.value).toBe(101)
+    expect(captured.baselineChanged).toBe(true)
+    expect(next.zeroCaptured).toBeNull()
+    expect(held(buffer, buffer.raw).slice(-2)).toEqual([49, 0])
+  })
+})
+
+describe('SampleRingBuffer', () => {
+  it('keeps the newest samples across a wrap', () => {
+    const buffer = new SampleRingBuffer(4)
+    const block = (values: number[]) => ({
+      time: Float64Array.from(values),
+      raw: Float64Array.from(values),
+      filtered: Float64Array.from(values),
+      baseline: new Float64Array(values.length).fill(NaN),
+      lostBefore: new Uint32Array(values.length),
+      clipped: new Uint8Array(values.length),
+    })
+
+    buffer.write(block([1, 2, 3]))
+    buffer.write(block([4, 5]))
+    expect(held(buffer, buffer.raw)).toEqual([2, 3, 4, 5])
+
+    buffer.write(block([6, 7, 8, 9, 10, 11]))
+    expect(held(buffer, buffer.raw)).toEqual([8, 9, 10, 11])
+    expect(buffer.written).toBe(11)
+    expect(buffer.length).toBe(4)
+  })
+})
@@ -0,0 +1,320 @@
+import type { SampleFrame } from './transports'
+import { FilterChain, type FilterSpec } from './dsp'
+import { BaselineTracker, DEFAULT_BASELINE_OPTIONS, type BaselineInfo, type BaselineOptions } from './baseline'
+import { ClipTracker, EMPTY_CLIP_STATS, type ClipStats } from './clipping'
+import { EMPTY_CLOCK_STATS, SampleClock, type ClockStats } from './sampleClock'
+import { EMPTY_LINK_STATS, SequenceTracker, type LinkStats } from './sequenceTracker'
+import { SampleRingBuffer, type SampleColumns } from './sampleBuffer'
+
+/* =========================
+   Per-sample processing off the main thread
+   A channel's decoded frames go through a SamplePipeline: loss
+   tracking, timing, clip detection, tare and filters run in a Web
+   Worker, which writes the results into the channel's ring buffer
+   when that is shared memory, and otherwise posts each frame's block
+   back with its arrays transferred for the main thread to copy in.
+   Either way the block comes back once, for the recorder, along with
+   the counters the UI shows. Where workers are unavailable (tests,
+   old browsers) the same processor runs inline.
+========================= */
+
+export const DEFAULT_SAMPLE_RATE = 1000
+
+export type PipelineFrame = Pick<SampleFrame, 'seq' | 'seqModulo' | 'samples' | 'receivedAt'>
+
+export type PipelineMessage =
+  | { type: 'attach'; storage: SharedArrayBuffer; capacity: number }
+  | { type: 'frame'; frame: PipelineFrame }
+  /** New stream timed from `origin` (ms, performance.now()), or from its first frame */
+  | { type: 'reset'; origin: number | null }
+  /** The transport came back after a dropout; the next frame's gap is measured by time */
+  | { type: 'resumed' }
+  | { type: 'configure'; filters: FilterSpec[]; sampleRate: number }
+  | { type: 'baseline'; options: BaselineOptions }
+  | { type: 'zero' }
+  | { type: 'clearZero' }
+  /** Answered once every earlier message is processed */
+  | { type: 'drain'; id: number }
+
+/** Counters the UI reads, as of the last processed message */
+export interface PipelineStatus {
+  link: LinkStats
+  clock: ClockStats
+  clips: ClipStats
+  baseline: BaselineInfo | null
+  /** Baseline currently being subtracted, including drift */
+  baselineValue: number | null
+}
+
+export const EMPTY_PIPELINE_STATUS: PipelineStatus = {
+  link: EMPTY_LINK_STATS,
+  clock: EMPTY_CLOCK_STATS,
+  clips: EMPTY_CLIP_STATS,
+  baseline: null,
+  baselineValue: null,
+}
+
+/** One frame's rows: the lost samples before it (NaN), then its tared samples */
+export interface ProcessedBlock extends SampleColumns {
+  seq: number
+  lostFrames: number
+  /** Leading gap rows */
+  lostSamples: number
+  /** The frame's samples in absolute counts, as recorded */
+  counts: Float64Array
+  /** Seconds between samples */
+  period: number
+}
+
+export interface PipelineUpdate {
+  status: PipelineStatus
+  block: ProcessedBlock | null
+  /** The processor applied `block` and `cleared` to the ring buffer itself */
+  inBuffer: boolean
+  /** The stream was reset; history starts over */
+  cleared: boolean
+  clippingStarted: boolean
+  /** A zero finished during this frame */
+  zeroCaptured: BaselineInfo | null
+  /** The tare changed; the recording's metadata should follow */
+  baselineChanged: boolean
+  drained: number | null
+}
+
+/** Block buffers, to transfer rather than copy */
+export const blockTransfers = (block: ProcessedBlock): ArrayBuffer[] =>
+  [block.time, block.raw, block.filtered, block.baseline, block.lostBefore, block.clipped, block.counts].map(
+    column => column.buffer as ArrayBuffer,
+  )
+
+/** Runs a channel's per-sample stages, in the worker or inline */
+export class SampleProcessor {
+  private tracker = new SequenceTracker()
+  private clips = new ClipTracker()
+  private clock = new SampleClock(DEFAULT_SAMPLE_RATE)
+  private baseline: BaselineTracker
+  private filterChain = new FilterChain([], DEFAULT_SAMPLE_RATE)
+  private sampleRate = DEFAULT_SAMPLE_RATE
+  private resumed = false
+  private buffer: SampleRingBuffer | null = null
+  private captured: BaselineInfo | null = null
+
+  constructor() {
+    this.baseline = new BaselineTracker(DEFAULT_BASELINE_OPTIONS, DEFAULT_SAMPLE_RATE, info => {
+      // Restart filters so they don't ring on the step
+      this.filterChain.reset()
+      this.captured = info
+    })
+  }
+
+  /** Writes results straight into `buffer` from now on */
+  attach(buffer: SampleRingBuffer) {
+    this.buffer = buffer
+  }
+
+  handle(msg: PipelineMessage): PipelineUpdate | null {
+    let block: ProcessedBlock | null = null
+    let cleared = false
+    let clippingStarted = false
+    let baselineChanged = false
+    let drained: number | null = null
+
+    switch (msg.type) {
+      case 'attach':
+        this.buffer = new SampleRingBuffer(msg.capacity, msg.storage)
+        return null
+      case 'frame': {
+        const wasClipping = this.clips.active
+        block = this.process(msg.frame)
+        clippingStarted = this.clips.active && !wasClipping
+        baselineChanged = this.captured !== null
+        break
+      }
+      case 'reset':
+        this.tracker.reset()
+        this.clips.reset()
+        this.clock.reset(msg.origin)
+        this.filterChain.reset()
+        this.resumed = false
+        cleared = true
+        break
+      case 'resumed':
+        this.resumed = true
+        return null
+      case 'configure':
+        this.sampleRate = msg.sampleRate
+        this.filterChain = new FilterChain(msg.filters, msg.sampleRate)
+        this.clock.setNominalRate(msg.sampleRate)
+        break
+      case 'baseline':
+        this.baseline.configure(msg.options, this.sampleRate)
+        baselineChanged = true
+        break
+      case 'zero':
+        this.baseline.zero()
+        break
+      case 'clearZero':
+        this.baseline.clear()
+        this.filterChain.reset()
+        baselineChanged = true
+        break
+      case 'drain':
+        drained = msg.id
+        break
+    }
+
+    if (this.buffer) {
+      if (cleared) this.buffer.clear()
+      if (block) this.buffer.write(block)
+    }
+
+    const zeroCaptured = this.captured
+    this.captured = null
+    return {
+      status: this.status(),
+      block,
+      inBuffer: this.buffer !== null,
+      cleared,
+      clippingStarted,
+      zeroCaptured,
+      baselineChanged,
+      drained,
+    }
+  }
+
+  private status(): PipelineStatus {
+    return {
+      link: this.tracker.snapshot(),
+      clock: this.clock.stats(),
+      clips: this.clips.snapshot(),
+      baseline: this.baseline.baseline,
+      baselineValue: this.baseline.value,
+    }
+  }
+
+  private process({ seq, seqModulo, samples, receivedAt }: PipelineFrame): ProcessedBlock {
+    const n = samples.length
+    // Sequence numbers wrap many times over an outage, so measure it by time
+    const knownLost = this.resumed ? Math.round(this.clock.missedBefore(receivedAt, n) / n) : undefined
+    this.resumed = false
+
+    const lostFrames = this.tracker.push(seq, seqModulo, n, knownLost)
+    const lostSamples = lostFrames * n
+    const rows = lostSamples + n
+
+    const block: ProcessedBlock = {
+      seq,
+      lostFrames,
+      lostSamples,
+      counts: Float64Array.from(samples),
+      period: 0,
+      time: new Float64Array(rows),
+      raw: new Float64Array(rows),
+      filtered: new Float64Array(rows),
+      baseline: new Float64Array(rows),
+      lostBefore: new Uint32Array(rows),
+      clipped: new Uint8Array(rows),
+    }
+
+    // Lost samples hold their place so the x axis stays evenly timed
+    block.raw.fill(NaN, 0, lostSamples)
+    block.filtered.fill(NaN, 0, lostSamples)
+    block.baseline.fill(NaN, 0, lostSamples)
+    block.lostBefore[lostSamples] = lostSamples
+
+    // Stage by stage, as a zero completing mid-frame restarts the filters
+    for (let i = 0; i < n; i++) block.clipped[lostSamples + i] = this.clips.push(samples[i]) ? 1 : 0
+
+    for (let i = 0; i < n; i++) {
+      const baseline = this.baseline.process(samples[i])
+      block.baseline[lostSamples + i] = baseline ?? NaN
+      block.raw[lostSamples + i] = samples[i] - (baseline ?? 0)
+    }
+
+    const chain = this.filterChain
+    for (let i = lostSamples; i < rows; i++) block.filtered[i] = chain.process(block.raw[i])
+
+    const { start, period } = this.clock.push(receivedAt, n, lostSamples)
+    const gapStart = start - lostSamples * period
+    for (let i = 0; i < rows; i++) block.time[i] = gapStart + i * period
+    block.period = period
+
+    return block
+  }
+}
+
+export class SamplePipeline {
+  private worker: Worker | null = null
+  private inline: SampleProcessor | null = null
+  private drains = new Map<number, () => void>()
+  private nextDrain = 0
+
+  constructor(
+    private buffer: SampleRingBuffer,
+    private onUpdate: (update: PipelineUpdate) => void,
+  ) {}
+
+  send(msg: PipelineMessage) {
+    if (this.ensureWorker()) {
+      this.worker!.postMessage(msg)
+      return
+    }
+
+    const update = this.inline!.handle(msg)
+    if (update) this.receive(update)
+  }
+
+  /** Resolves once everything sent so far has been processed and delivered */
+  drain() {
+    const id = this.nextDrain++
+    return new Promise<void>(resolve => {
+      this.drains.set(id, resolve)
+      this.send({ type: 'drain', id })
+    })
+  }
+
+  dispose() {
+    this.worker?.terminate()
+    this.worker = null
+    this.inline = null
+    // Nothing more will arrive
+    this.drains.forEach(resolve => resolve())
+    this.drains.clear()
+  }
+
+  private ensureWorker() {
+    if (this.worker) return true
+    if (this.inline) return false
+
+    if (typeof Worker === 'undefined') {
+      this.inline = new SampleProcessor()
+      this.inline.attach(this.buffer)
+      return false
+    }
+
+    this.worker = new Worker(new URL('./samplePipeline.worker.ts', import.meta.url), { type: 'module' })
+    this.worker.onmessage = (e: MessageEvent<PipelineUpdate>) => this.receive(e.data)
+    if (this.buffer.isShared) {
+      this.worker.postMessage({
+        type: 'attach',
+        storage: this.buffer.storage as SharedArrayBuffer,
+        capacity: this.buffer.capacity,
+      } satisfies PipelineMessage)
+    }
+    return true
+  }
+
+  private receive(update: PipelineUpdate) {
+    if (!update.inBuffer) {
+      if (update.cleared) this.buffer.clear()
+      if (update.block) this.buffer.write(update.block)
+    }
+
+    this.onUpdate(update)
+
+    if (update.drained !== null) {
+      this.drains.get(update.drained)?.()
+      this.drains.delete(update.drained)
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { blockTransfers, SampleProcessor, type PipelineMessage } from './samplePipeline'
+
+/* =========================
+   Sample pipeline worker
+   Tracks loss and timing, tares and filters each decoded frame, and
+   writes the rows into the shared ring buffer when it has one; the
+   block is posted back either way, transferred, for the recorder.
+========================= */
+
+const ctx = self as unknown as Worker
+const processor = new SampleProcessor()
+
+ctx.onmessage = (e: MessageEvent<PipelineMessage>) => {
+  const update = processor.handle(e.data)
+  if (!update) return
+  ctx.postMessage(update, update.block ? blockTransfers(update.block) : [])
+}
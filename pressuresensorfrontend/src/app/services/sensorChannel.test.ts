@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { SILENT_FIRMWARE } from '@/test/silentFirmware'
+import { SensorChannel } from './sensorChannel'
+
+describe.each(SILENT_FIRMWARE)('SensorChannel on $mode firmware that never acknowledges', ({ mode, install, gain }) => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('applies the gain auto-range picks although the device never confirms it', async () => {
+    const replay = install()
+    const logs: string[] = []
+    const channel = new SensorChannel(1, mode, {
+      log: (_, type, message) => logs.push(`${type}: ${message}`),
+      change: () => {},
+      stats: () => {},
+    })
+
+    channel.gain = 5
+    await channel.connect()
+    await vi.waitFor(() => expect(logs.some(log => log.includes('did not answer the info query'))).toBe(true))
+    channel.resetStream(performance.now())
+    await channel.start(null)
+    await vi.waitFor(() => expect(channel.streamStats.link.framesReceived).toBe(10))
+    expect(channel.appliedGain).toBe(5)
+
+    // Watch windows and unanswered gain changes, without waiting them out
+    vi.useFakeTimers()
+    const ranging = channel.autoRange(true)
+    await vi.advanceTimersByTimeAsync(30_000)
+    const advice = await ranging
+    vi.useRealTimers()
+
+    expect(advice!.gain).not.toBe(5)
+    expect(replay.sent).toContain(gain(advice!.gain))
+    // What auto-range recommends is what the device was last set to, so there is nothing left to apply
+    expect(channel.appliedGain).toBe(advice!.gain)
+    expect(channel.unconfirmedGain).toBe(advice!.gain)
+    expect(channel.deviceGain).toBeNull()
+    expect(logs.filter(log => log.startsWith('error'))).toEqual([])
+
+    await channel.dispose()
+  })
+})
@@ -0,0 +1,454 @@
+import {
+  BridgeTransport,
+  createTransport,
+  SimulatorTransport,
+  sleep,
+  type BridgeOptions,
+  type ConnectionMode,
+  type ConnStatus,
+  type DeviceHandle,
+  type DeviceTransport,
+  type LogLevel,
+  type SimulatorOptions,
+} from './transports'
+import type { FilterSpec } from './dsp'
+import type { BaselineOptions } from './baseline'
+import { getCalibrationProfile, type CalibrationProfile } from './calibration'
+import { SampleRingBuffer } from './sampleBuffer'
+import {
+  DEFAULT_SAMPLE_RATE,
+  EMPTY_PIPELINE_STATUS,
+  SamplePipeline,
+  type PipelineStatus,
+  type PipelineUpdate,
+} from './samplePipeline'
+import { AUTO_RANGE_MAX_STEPS, AUTO_RANGE_SECONDS, recommendGain, type GainAdvice } from './clipping'
+import { keyOfHandle, markDeviceUsed } from './knownDevices'
+import type { Recorder } from './recorder'
+import type { LiveMarker } from './markers'
+
+/* =========================
+   Sensor channels
+   One channel per PS02: its transport and everything downstream of it
+   (a sample pipeline for loss tracking, timing, tare and filters, then
+   history and recording), so several sensors can stream side by side
+   without sharing state.
+   Channels started together share a clock origin, which puts their
+   sample times on one timeline.
+========================= */
+
+export const CHANNEL_COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#0891b2', '#db2777']
+
+/** Ring buffer depth per channel; independent of how much the chart draws */
+export const HISTORY_SAMPLES = 1 << 18
+
+const DEFAULT_GAIN = 15
+
+export interface SensorChannelCallbacks {
+  log: (channel: SensorChannel, type: LogLevel, message: string) => void
+  /** Connection, gain, streaming or recording changed; samples never call this */
+  change: (channel: SensorChannel) => void
+  /** Samples were processed and streamStats moved on; called per frame */
+  stats: (channel: SensorChannel) => void
+}
+
+export class SensorChannel {
+  label: string
+  color: string
+  /** Whether starting a measurement records this channel */
+  record = true
+  /** Gain sent when streaming starts */
+  gain = DEFAULT_GAIN
+
+  status: ConnStatus = 'disconnected'
+  streaming = false
+  /** Confirmed gain of the connected device, and a change awaiting confirmation */
+  deviceGain: number | null = null
+  pendingGain: number | null = null
+  /** Gain sent with START that the device hasn't acknowledged (older firmware never does) */
+  unconfirmedGain: number | null = null
+  /** Gain the device was last set to, confirmed or sent with START; selects the calibration curve */
+  appliedGain = DEFAULT_GAIN
+  calibration: CalibrationProfile | null = null
+  zeroing = false
+  /** Auto-range is watching the signal */
+  autoRanging = false
+  /** Latest auto-range result */
+  gainAdvice: GainAdvice | null = null
+  /** Known-devices key of the connected port/device */
+  deviceKey: string | null = null
+
+  // Written a frame at a time by the sample pipeline, drawn once per animation frame
+  readonly buffer = SampleRingBuffer.create(HISTORY_SAMPLES)
+  /** Markers dropped this stream, oldest first */
+  markers: LiveMarker[] = []
+  /** Link, timing, clipping and tare as of the last processed frame */
+  streamStats: PipelineStatus = EMPTY_PIPELINE_STATUS
+
+  private device: DeviceTransport
+  private unsubscribers: (() => void)[] = []
+  private pipeline: SamplePipeline
+  private sampleRate = DEFAULT_SAMPLE_RATE
+  private recorder: Recorder | null = null
+  // Rows handed back by the pipeline since history was cleared; the next one is the sample being taken now
+  private received = 0
+
+  constructor(
+    readonly id: number,
+    mode: ConnectionMode,
+    private callbacks: SensorChannelCallbacks,
+  ) {
+    this.label = `Sensor ${id}`
+    this.color = CHANNEL_COLORS[(id - 1) % CHANNEL_COLORS.length]
+    this.pipeline = new SamplePipeline(this.buffer, update => this.handleUpdate(update))
+    this.device = createTransport(mode)
+    this.bind()
+  }
+
+  get transport() {
+    return this.device
+  }
+
+  get mode() {
+    return this.device.mode
+  }
+
+  get isRecording() {
+    return this.recorder !== null
+  }
+
+  get activeRecorder() {
+    return this.recorder
+  }
+
+  /* =========================
+     Settings
+  ========================= */
+
+  /** Rebuilds the filters for a new chain or sample rate */
+  configure(filters: FilterSpec[], sampleRate: number) {
+    this.sampleRate = sampleRate
+    this.pipeline.send({ type: 'configure', filters, sampleRate })
+  }
+
+  configureBaseline(options: BaselineOptions) {
+    this.pipeline.send({ type: 'baseline', options })
+  }
+
+  configureSimulator(options: SimulatorOptions) {
+    if (this.device instanceof SimulatorTransport) this.device.configure(options)
+  }
+
+  /** Backend URL and link; null unless this channel is in bridge mode */
+  get bridgeOptions(): BridgeOptions | null {
+    return this.device instanceof BridgeTransport ? this.device.options : null
+  }
+
+  configureBridge(options: Partial<BridgeOptions>) {
+    if (this.device instanceof BridgeTransport) this.device.configure(options)
+  }
+
+  /** Replaces the transport, disconnecting the current one first */
+  async setMode(mode: ConnectionMode) {
+    if (mode === this.mode) return
+    await this.disconnect()
+
+    this.unbind()
+    this.device = createTransport(mode)
+    this.bind()
+
+    this.status = 'disconnected'
+    this.calibration = null
+    this.clearZero()
+    this.pipeline.send({ type: 'reset', origin: null })
+    this.log('info', `Mode switched to ${mode.toUpperCase()}`)
+    this.changed()
+  }
+
+  /* =========================
+     Device control
+  ========================= */
+
+  async connect(handle?: DeviceHandle) {
+    await this.device.connect(handle)
+  }
+
+  async disconnect() {
+    if (this.streaming) await this.stop()
+    await this.device.disconnect()
+  }
+
+  /** Clears history, loss and timing state for a new stream timed from `origin` (ms, performance.now()) */
+  resetStream(origin: number) {
+    this.markers = []
+    this.gainAdvice = null
+    this.pipeline.send({ type: 'reset', origin })
+  }
+
+  /** Starts streaming at this channel's gain, recording into `recorder` if given */
+  async start(recorder: Recorder | null) {
+    this.recorder = recorder
+    this.changed()
+    await this.device.start(this.gain)
+    if (!this.device.isStreaming) await this.finishRecording()
+  }
+
+  async stop() {
+    await this.device.stop()
+    // Keep recording if the device never confirmed the stop
+    if (!this.device.isStreaming) await this.finishRecording()
+  }
+
+  /** Sends a gain and waits for the device to take it, confirmed or (silent firmware) not; false if it failed */
+  async sendGain(gain: number) {
+    this.pendingGain = gain
+    this.changed()
+    try {
+      // Recorder, calibration and readout follow the transport's 'gain' or 'gainUnconfirmed' event
+      await this.device.setGain(gain)
+      if (this.deviceGain === gain) this.log('response', `✅ Gain ${gain} confirmed by device`)
+      return true
+    } catch (e: any) {
+      this.log('error', `SET_GAIN failed: ${e?.message ?? 'unknown error'}`)
+      return false
+    } finally {
+      this.pendingGain = null
+      this.changed()
+    }
+  }
+
+  zero() {
+    this.pipeline.send({ type: 'zero' })
+    this.zeroing = true
+    this.changed()
+  }
+
+  clearZero() {
+    const wasZeroed = this.streamStats.baseline !== null
+    this.pipeline.send({ type: 'clearZero' })
+    this.zeroing = false
+    if (wasZeroed) this.log('info', 'Zero cleared')
+    this.changed()
+  }
+
+  /** Drops a labelled marker on the next sample, on the chart and, as the recorder does, in the recording */
+  mark(label: string) {
+    if (!this.streaming) return
+    this.markers.push({ index: this.received, label })
+    this.recorder?.mark(label)
+  }
+
+  /** Mean absolute ADC counts over the last `seconds`, or null when not streaming */
+  meanCounts(seconds: number) {
+    const buffer = this.buffer
+    if (!this.streaming || buffer.length === 0) return null
+
+    const n = Math.min(buffer.length, Math.max(1, Math.round(this.sampleRate * seconds)))
+    let sum = 0
+    let count = 0
+    for (let i = buffer.length - n; i < buffer.length; i++) {
+      const slot = buffer.slot(i)
+      if (Number.isNaN(buffer.raw[slot])) continue
+      // Calibration needs absolute counts, so undo any tare
+      sum += buffer.raw[slot] + (Number.isNaN(buffer.baseline[slot]) ? 0 : buffer.baseline[slot])
+      count++
+    }
+    return count > 0 ? sum / count : null
+  }
+
+  /** Largest absolute ADC count over the last `seconds` and whether any clipped, or null when not streaming */
+  peakCounts(seconds: number) {
+    const buffer = this.buffer
+    if (!this.streaming || buffer.length === 0) return null
+
+    const n = Math.min(buffer.length, Math.max(1, Math.round(this.sampleRate * seconds)))
+    let peak = 0
+    let clipped = false
+    let count = 0
+    for (let i = buffer.length - n; i < buffer.length; i++) {
+      const slot = buffer.slot(i)
+      if (Number.isNaN(buffer.raw[slot])) continue
+      const counts = buffer.raw[slot] + (Number.isNaN(buffer.baseline[slot]) ? 0 : buffer.baseline[slot])
+      peak = Math.max(peak, Math.abs(counts))
+      if (buffer.clipped[slot]) clipped = true
+      count++
+    }
+    return count > 0 ? { peak, clipped } : null
+  }
+
+  /**
+   * Watches the signal for a few seconds and works out the best gain.
+   * With `apply`, sends it and keeps stepping down while the signal
+   * still clips, since a clipped window only bounds the peak.
+   */
+  async autoRange(apply: boolean) {
+    if (!this.streaming) {
+      this.log('error', 'Auto-range needs a streaming sensor')
+      return null
+    }
+
+    this.autoRanging = true
+    this.changed()
+    try {
+      for (let step = 0; step < AUTO_RANGE_MAX_STEPS; step++) {
+        await sleep(AUTO_RANGE_SECONDS * 1000)
+        const seen = this.peakCounts(AUTO_RANGE_SECONDS)
+        if (!seen) {
+          this.log('warning', 'Auto-range stopped: no samples to measure')
+          return null
+        }
+
+        const advice = recommendGain(seen.peak, seen.clipped, this.appliedGain)
+        this.gainAdvice = advice
+        this.log(
+          'info',
+          `🎚 Auto-range: peak ${Math.round(advice.peak)} counts at gain ${advice.fromGain}${advice.clipped ? ' (clipping)' : ''} → gain ${advice.gain}`,
+        )
+
+        if (!apply || advice.gain === advice.fromGain) return advice
+        this.gain = advice.gain
+        if (!(await this.sendGain(advice.gain)) || !advice.clipped) return advice
+      }
+      return this.gainAdvice
+    } finally {
+      this.autoRanging = false
+      this.changed()
+    }
+  }
+
+  async dispose() {
+    await this.disconnect()
+    this.unbind()
+    this.pipeline.dispose()
+  }
+
+  /* =========================
+     Transport events
+  ========================= */
+
+  private bind() {
+    const transport = this.device
+    this.unsubscribers = [
+      transport.on('log', ({ type, message }) => this.log(type, message)),
+      transport.on('status', status => {
+        this.status = status
+        if (status === 'disconnected' || status === 'error') {
+          this.deviceGain = null
+          this.unconfirmedGain = null
+          this.deviceKey = null
+        }
+        if (status === 'connected') this.onConnected()
+        this.changed()
+      }),
+      transport.on('gain', gain => {
+        this.deviceGain = gain
+        this.unconfirmedGain = null
+        this.appliedGain = gain
+        this.recorder?.noteGain(gain)
+        this.changed()
+      }),
+      // Most likely applied, so calibration and the recording follow it; the readout says unconfirmed
+      transport.on('gainUnconfirmed', gain => {
+        this.deviceGain = null
+        this.unconfirmedGain = gain
+        this.appliedGain = gain
+        this.recorder?.noteGain(gain)
+        this.changed()
+      }),
+      transport.on('streaming', streaming => {
+        this.streaming = streaming
+        if (!streaming) {
+          void this.finishRecording().catch(err => this.log('error', `Saving the recording failed: ${err?.message ?? err}`))
+        }
+        this.changed()
+      }),
+      transport.on('info', () => this.changed()),
+      transport.on('resumed', ({ outageMs }) => {
+        this.pipeline.send({ type: 'resumed' })
+        this.log('warning', `⚠️ Stream resumed after ${(outageMs / 1000).toFixed(1)}s outage; recorded as a gap`)
+      }),
+      transport.on('frame', frame => this.pipeline.send({ type: 'frame', frame })),
+    ]
+  }
+
+  private unbind() {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+  }
+
+  private onConnected() {
+    const { deviceName, handle } = this.device
+    if (deviceName) this.calibration = getCalibrationProfile(deviceName)
+
+    // Remember whatever we end up connected to, picker or not
+    if (handle) {
+      keyOfHandle(handle)
+        .then(key => {
+          markDeviceUsed(key)
+          this.deviceKey = key
+          this.changed()
+        })
+        .catch(err => this.log('warning', `Could not remember this device: ${err?.message ?? err}`))
+    }
+  }
+
+  /** Pipeline results: the processed block goes to the recorder, the rest to the log and readouts */
+  private handleUpdate({ status, block, cleared, clippingStarted, zeroCaptured, baselineChanged }: PipelineUpdate) {
+    this.streamStats = status
+    if (cleared) this.received = 0
+    if (block) this.received += block.time.length
+
+    if (block && block.lostFrames > 0) {
+      this.log('warning', `⚠️ Lost ${block.lostFrames} frame(s) (~${block.lostSamples} samples) before seq ${block.seq}`)
+    }
+    if (clippingStarted) {
+      this.log('warning', `⚠️ Signal clipping at gain ${this.appliedGain}; lower the gain or run auto-range`)
+    }
+    if (zeroCaptured) {
+      this.zeroing = false
+      this.log('response', `✅ Zeroed at ${zeroCaptured.value.toFixed(1)} counts (${zeroCaptured.windowSamples} samples)`)
+    }
+    if (baselineChanged) {
+      this.recorder?.setBaseline(status.baseline)
+      this.changed()
+    }
+
+    const recorder = this.recorder
+    if (recorder && block) {
+      const { lostSamples, counts } = block
+      recorder.pushGap(lostSamples, block.lostFrames, block.time[0], block.period)
+      for (let i = 0; i < counts.length; i++) {
+        const baseline = block.baseline[lostSamples + i]
+        recorder.push(counts[i], block.filtered[lostSamples + i], Number.isNaN(baseline) ? null : baseline, block.time[lostSamples + i])
+      }
+    }
+
+    this.callbacks.stats(this)
+  }
+
+  private async finishRecording() {
+    const recorder = this.recorder
+    if (!recorder) return
+    // Frames still in the pipeline belong to this recording
+    await this.pipeline.drain()
+    if (this.recorder !== recorder) return
+    this.recorder = null
+
+    const summary = await recorder.stop()
+    this.log(
+      'response',
+      `✅ Recording saved to ${recorder.destinations.join(', ')} (${summary.samples} samples${summary.lostSamples ? `, ${summary.lostSamples} lost` : ''}${
+        summary.clippedSamples ? `, ${summary.clippedPercent.toFixed(1)}% clipped` : ''
+      })`,
+    )
+    this.changed()
+  }
+
+  private log(type: LogLevel, message: string) {
+    this.callbacks.log(this, type, message)
+  }
+
+  private changed() {
+    this.callbacks.change(this)
+  }
+}
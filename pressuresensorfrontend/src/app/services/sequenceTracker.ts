@@ -0,0 +1,69 @@
+/* =========================
+   Frame sequence tracking
+   Serial frames carry an 8-bit sequence number and BLE notifications a
+   4-bit one, so a gap longer than the modulus cannot be detected; what
+   is reported is the smallest number of frames consistent with the
+   numbers seen.
+========================= */
+
+export interface LinkStats {
+  framesReceived: number
+  framesLost: number
+  samplesLost: number
+  gaps: number
+  /** Lost / expected frames over the whole stream */
+  dropRate: number
+  /** Lost / expected frames, exponentially weighted over recent frames */
+  recentDropRate: number
+}
+
+export const EMPTY_LINK_STATS: LinkStats = {
+  framesReceived: 0,
+  framesLost: 0,
+  samplesLost: 0,
+  gaps: 0,
+  dropRate: 0,
+  recentDropRate: 0,
+}
+
+const RECENT_WINDOW_FRAMES = 200
+
+export class SequenceTracker {
+  private lastSeq: number | null = null
+  private stats: LinkStats = { ...EMPTY_LINK_STATS }
+
+  reset() {
+    this.lastSeq = null
+    this.stats = { ...EMPTY_LINK_STATS }
+  }
+
+  /**
+   * Records one received frame and returns how many frames were lost
+   * immediately before it. Pass knownLost when the loss was measured
+   * some other way (e.g. by time across a reconnect) and the sequence
+   * number cannot be trusted to cover it.
+   */
+  push(seq: number, modulo: number, samplesPerFrame: number, knownLost?: number): number {
+    const lost = knownLost ?? (this.lastSeq === null ? 0 : (seq - this.lastSeq - 1 + modulo) % modulo)
+    this.lastSeq = seq
+
+    const alpha = 1 / RECENT_WINDOW_FRAMES
+    const s = this.stats
+    s.framesReceived++
+
+    if (lost > 0) {
+      s.framesLost += lost
+      s.samplesLost += lost * samplesPerFrame
+      s.gaps++
+      s.recentDropRate = 1 - (1 - s.recentDropRate) * Math.pow(1 - alpha, lost)
+    }
+    s.recentDropRate *= 1 - alpha
+    s.dropRate = s.framesLost / (s.framesReceived + s.framesLost)
+
+    return lost
+  }
+
+  snapshot(): LinkStats {
+    return { ...this.stats }
+  }
+}
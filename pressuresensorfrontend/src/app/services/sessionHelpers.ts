@@ -0,0 +1,103 @@
+import { loadSessionData, type SessionMeta } from './sessionStore'
+import type { SignalStats } from './recorder'
+import { kPaToUnit, type PressureUnit } from './calibration'
+import { markerColumn } from './markers'
+
+/* =========================
+   Session helpers
+   Formatting, stats in a chosen unit and CSV downloads for stored
+   sessions, shared by the pages that list or review them.
+========================= */
+
+export const formatDuration = (ms: number) => {
+  const total = Math.round(ms / 1000)
+  const m = Math.floor(total / 60)
+  const s = total % 60
+  return m > 0 ? `${m} min ${s}s` : `${s}s`
+}
+
+export const sessionDuration = (s: SessionMeta) =>
+  s.endedAt === null ? 'Incomplete' : formatDuration(s.endedAt - s.startedAt)
+
+/** Stats in the requested unit; physical units need a calibrated recording */
+export const sessionStats = (s: SessionMeta, unit: PressureUnit): SignalStats | null => {
+  if (unit === 'raw') return s.stats ?? null
+  const p = s.pressureStats
+  if (!p) return null
+  return {
+    min: kPaToUnit(p.min, unit),
+    max: kPaToUnit(p.max, unit),
+    mean: kPaToUnit(p.mean, unit),
+    noiseRms: kPaToUnit(p.noiseRms, unit),
+  }
+}
+
+export async function downloadSessionCsv(session: SessionMeta, unit: PressureUnit = 'raw') {
+  const data = await loadSessionData(session.id)
+  const pressure = unit === 'raw' ? null : data.pressure
+  const markers = markerColumn(session.events ?? [])
+
+  let csvContent = `index,time_s,raw,filtered,baseline${pressure ? `,pressure_${unit}` : ''},marker\n`
+  for (let i = 0; i < data.raw.length; i++) {
+    const p = !pressure || unit === 'raw'
+      ? ''
+      : `,${Number.isNaN(pressure[i]) ? '' : +kPaToUnit(pressure[i], unit).toFixed(4)}`
+    const t = !data.time || Number.isNaN(data.time[i]) ? '' : data.time[i].toFixed(6)
+    const b = !data.baseline || Number.isNaN(data.baseline[i]) ? '' : +data.baseline[i].toFixed(3)
+    const m = markers.get(i) ?? ''
+    csvContent += Number.isNaN(data.raw[i])
+      ? `${i},${t},,,${p},${m}\n`
+      : `${i},${t},${data.raw[i]},${+data.filtered[i].toFixed(3)},${b}${p},${m}\n`
+  }
+
+  const blob = new Blob([csvContent], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `session_${session.id}_${new Date(session.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, -5)}.csv`
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/** Every channel of a multi-sensor recording, in channel order */
+export const sessionGroup = (sessions: SessionMeta[], session: SessionMeta) =>
+  !session.channel
+    ? [session]
+    : sessions
+        .filter(s => s.channel?.groupId === session.channel!.groupId)
+        .sort((a, b) => a.channel!.index - b.channel!.index)
+
+/**
+ * Channels recorded together in one long-format CSV, one row per
+ * channel sample. Times share an origin, so rows line up by time_s.
+ */
+export async function downloadGroupCsv(group: SessionMeta[], unit: PressureUnit = 'raw') {
+  const withPressure = unit !== 'raw' && group.some(s => s.pressureStats)
+
+  let csvContent = `channel,label,index,time_s,raw,filtered,baseline${withPressure ? `,pressure_${unit}` : ''},marker\n`
+  for (const session of group) {
+    const data = await loadSessionData(session.id)
+    const markers = markerColumn(session.events ?? [])
+    const channel = session.channel?.index ?? 1
+    const label = (session.channel?.label ?? session.deviceName).replace(/[",\n]/g, ' ')
+    for (let i = 0; i < data.raw.length; i++) {
+      const p = !withPressure
+        ? ''
+        : `,${!data.pressure || Number.isNaN(data.pressure[i]) ? '' : +kPaToUnit(data.pressure[i], unit).toFixed(4)}`
+      const t = !data.time || Number.isNaN(data.time[i]) ? '' : data.time[i].toFixed(6)
+      const b = !data.baseline || Number.isNaN(data.baseline[i]) ? '' : +data.baseline[i].toFixed(3)
+      const m = markers.get(i) ?? ''
+      csvContent += Number.isNaN(data.raw[i])
+        ? `${channel},${label},${i},${t},,,${p},${m}\n`
+        : `${channel},${label},${i},${t},${data.raw[i]},${+data.filtered[i].toFixed(3)},${b}${p},${m}\n`
+    }
+  }
+
+  const blob = new Blob([csvContent], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `sessions_${group.map(s => s.id).join('-')}_${new Date(group[0].startedAt).toISOString().replace(/[:.]/g, '-').slice(0, -5)}.csv`
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,292 @@
+import type { ConnectionMode, DeviceInfo } from './transports'
+import type { CalibrationProfile } from './calibration'
+import type { BaselineInfo } from './baseline'
+import type { RecordingEvent } from './markers'
+import type {
+  GainChange,
+  RecordingActivity,
+  RecordingChannel,
+  RecordingInfo,
+  RecordingRow,
+  RecordingSink,
+  RecordingSummary,
+  SignalStats,
+} from './recorder'
+
+/* =========================
+   Session library (IndexedDB)
+   'sessions' holds one metadata record per recording; 'chunks' holds
+   the sample data in the batches the recorder flushed, so a session
+   survives a crash up to its last flush.
+========================= */
+
+const DB_NAME = 'ps02-sessions'
+const DB_VERSION = 1
+const SESSIONS = 'sessions'
+const CHUNKS = 'chunks'
+
+export interface SessionMeta {
+  id: number
+  startedAt: number
+  /** null while recording, or if the browser closed before stop */
+  endedAt: number | null
+  mode: ConnectionMode
+  deviceName: string
+  /** Firmware, battery and link details when recording started */
+  device?: DeviceInfo | null
+  gainHistory: GainChange[]
+  sampleCount: number
+  lostSamples: number
+  droppedFrames: number
+  activity: RecordingActivity | null
+  notes: string
+  /** Set on each channel of a multi-sensor recording */
+  channel?: RecordingChannel | null
+  /** Set when the recording is stopped */
+  sampleRate?: number | null
+  clippedSamples?: number
+  clippedPercent?: number
+  stats?: SignalStats | null
+  pressureStats?: SignalStats | null
+  /** Calibration in effect when the recording started */
+  calibration?: CalibrationProfile | null
+  /** Latest tare applied during the recording */
+  baseline?: BaselineInfo | null
+  /** Markers, in row order; editable in review */
+  events?: RecordingEvent[]
+}
+
+interface SessionChunk {
+  sessionId: number
+  seq: number
+  /** NaN marks a sample lost in a gap */
+  raw: Float32Array
+  filtered: Float32Array
+  /** Seconds since the recording's time origin; only stored when rows were timestamped */
+  time?: Float64Array
+  /** Only stored when at least one row was zeroed */
+  baseline?: Float32Array
+  /** kPa; only stored when at least one row was calibrated */
+  pressure?: Float32Array
+}
+
+export interface SessionData {
+  raw: Float32Array
+  filtered: Float32Array
+  /** Seconds since the recording's time origin; null for sessions recorded without timestamps */
+  time: Float64Array | null
+  /** Tare per sample with NaN where not zeroed; null if never zeroed */
+  baseline: Float32Array | null
+  /** kPa with NaN where uncalibrated or lost; null for uncalibrated sessions */
+  pressure: Float32Array | null
+}
+
+/* =========================
+   IndexedDB helpers
+========================= */
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id', autoIncrement: true })
+      sessions.createIndex('startedAt', 'startedAt')
+      const chunks = db.createObjectStore(CHUNKS, { keyPath: ['sessionId', 'seq'] })
+      chunks.createIndex('sessionId', 'sessionId')
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => {
+      dbPromise = null
+      reject(req.error)
+    }
+  })
+  return dbPromise
+}
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+
+const transaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T>,
+) => {
+  const db = await openDb()
+  const tx = db.transaction(stores, mode)
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+  const result = await fn(tx)
+  await done
+  return result
+}
+
+/* =========================
+   Public API
+========================= */
+
+export const isSessionStoreSupported = () => 'indexedDB' in window
+
+export async function createSession(meta: Omit<SessionMeta, 'id'>): Promise<number> {
+  return transaction([SESSIONS], 'readwrite', tx =>
+    request(tx.objectStore(SESSIONS).add(meta)) as Promise<number>,
+  )
+}
+
+export async function updateSession(id: number, patch: Partial<Omit<SessionMeta, 'id'>>) {
+  await transaction([SESSIONS], 'readwrite', async tx => {
+    const store = tx.objectStore(SESSIONS)
+    const current = await request<SessionMeta | undefined>(store.get(id))
+    if (!current) throw new Error(`Session #${id} not found`)
+    await request(store.put({ ...current, ...patch, id }))
+  })
+}
+
+/** All sessions, newest first */
+export async function listSessions(): Promise<SessionMeta[]> {
+  const sessions = await transaction([SESSIONS], 'readonly', tx =>
+    request<SessionMeta[]>(tx.objectStore(SESSIONS).index('startedAt').getAll()),
+  )
+  return sessions.reverse()
+}
+
+export async function getSession(id: number): Promise<SessionMeta | undefined> {
+  return transaction([SESSIONS], 'readonly', tx => request<SessionMeta | undefined>(tx.objectStore(SESSIONS).get(id)))
+}
+
+/** Stores one batch of rows and keeps the session's counts current. */
+export async function appendSessionChunk(sessionId: number, seq: number, rows: RecordingRow[]) {
+  const chunk: SessionChunk = {
+    sessionId,
+    seq,
+    raw: Float32Array.from(rows, r => r.raw ?? NaN),
+    filtered: Float32Array.from(rows, r => r.filtered ?? NaN),
+  }
+  if (rows.some(r => r.time !== null)) {
+    chunk.time = Float64Array.from(rows, r => r.time ?? NaN)
+  }
+  if (rows.some(r => r.baseline !== null)) {
+    chunk.baseline = Float32Array.from(rows, r => r.baseline ?? NaN)
+  }
+  if (rows.some(r => r.pressure !== null)) {
+    chunk.pressure = Float32Array.from(rows, r => r.pressure ?? NaN)
+  }
+  const lost = rows.filter(r => r.raw === null).length
+
+  await transaction([SESSIONS, CHUNKS], 'readwrite', async tx => {
+    await request(tx.objectStore(CHUNKS).put(chunk))
+
+    const sessions = tx.objectStore(SESSIONS)
+    const meta = await request<SessionMeta | undefined>(sessions.get(sessionId))
+    if (!meta) return
+    meta.sampleCount += rows.length - lost
+    meta.lostSamples += lost
+    await request(sessions.put(meta))
+  })
+}
+
+export async function loadSessionData(id: number): Promise<SessionData> {
+  const chunks = await transaction([CHUNKS], 'readonly', tx =>
+    request<SessionChunk[]>(tx.objectStore(CHUNKS).index('sessionId').getAll(id)),
+  )
+  chunks.sort((a, b) => a.seq - b.seq)
+
+  const length = chunks.reduce((n, c) => n + c.raw.length, 0)
+  const raw = new Float32Array(length)
+  const filtered = new Float32Array(length)
+  const time = chunks.some(c => c.time) ? new Float64Array(length).fill(NaN) : null
+  const baseline = chunks.some(c => c.baseline) ? new Float32Array(length).fill(NaN) : null
+  const pressure = chunks.some(c => c.pressure) ? new Float32Array(length).fill(NaN) : null
+  let offset = 0
+  for (const c of chunks) {
+    raw.set(c.raw, offset)
+    filtered.set(c.filtered, offset)
+    if (time && c.time) time.set(c.time, offset)
+    if (baseline && c.baseline) baseline.set(c.baseline, offset)
+    if (pressure && c.pressure) pressure.set(c.pressure, offset)
+    offset += c.raw.length
+  }
+  return { raw, filtered, time, baseline, pressure }
+}
+
+export async function deleteSession(id: number) {
+  await transaction([SESSIONS, CHUNKS], 'readwrite', async tx => {
+    await request(tx.objectStore(SESSIONS).delete(id))
+    await request(tx.objectStore(CHUNKS).delete(IDBKeyRange.bound([id, -Infinity], [id, Infinity])))
+  })
+}
+
+/* =========================
+   Recording sink
+========================= */
+
+export class SessionStoreSink implements RecordingSink {
+  private sessionId: number | null = null
+  private seq = 0
+
+  get description() {
+    return this.sessionId === null ? 'session library' : `session #${this.sessionId}`
+  }
+
+  get id() {
+    return this.sessionId
+  }
+
+  async open(info: RecordingInfo) {
+    this.seq = 0
+    this.sessionId = await createSession({
+      startedAt: info.startedAt.getTime(),
+      endedAt: null,
+      mode: info.mode,
+      deviceName: info.deviceName,
+      device: info.device,
+      gainHistory: info.gainHistory,
+      sampleCount: 0,
+      lostSamples: 0,
+      droppedFrames: 0,
+      activity: info.activity,
+      notes: info.notes,
+      channel: info.channel,
+      calibration: info.calibration,
+      baseline: info.baseline,
+      events: [],
+    })
+  }
+
+  async write(rows: RecordingRow[]) {
+    if (this.sessionId === null) return
+    await appendSessionChunk(this.sessionId, this.seq++, rows)
+  }
+
+  async close(summary: RecordingSummary) {
+    if (this.sessionId === null) return
+    await updateSession(this.sessionId, {
+      endedAt: summary.endedAt.getTime(),
+      gainHistory: summary.gainHistory,
+      droppedFrames: summary.droppedFrames,
+      sampleRate: summary.sampleRate,
+      clippedSamples: summary.clippedSamples,
+      clippedPercent: summary.clippedPercent,
+      activity: summary.activity,
+      notes: summary.notes,
+      stats: summary.stats,
+      pressureStats: summary.pressureStats,
+      baseline: summary.baseline,
+      events: summary.events,
+    })
+  }
+
+  async discard() {
+    if (this.sessionId === null) return
+    await deleteSession(this.sessionId)
+    this.sessionId = null
+  }
+}
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeBluetoothDevice, installFakeBluetooth } from '@/test/fakeBluetooth'
+import { BleTransport } from './bleTransport'
+import type { SampleFrame } from './deviceTransport'
+
+describe('BleTransport', () => {
+  let device: FakeBluetoothDevice
+  let transport: BleTransport
+  let frames: SampleFrame[]
+
+  beforeEach(async () => {
+    device = installFakeBluetooth()
+    transport = new BleTransport()
+    frames = []
+    transport.on('frame', frame => frames.push(frame))
+
+    await transport.connect()
+    await vi.waitFor(() => expect(transport.info.firmware).toBe('1.2.0'))
+  })
+
+  afterEach(async () => {
+    await transport.disconnect()
+  })
+
+  it('falls back to the info query without the standard GATT services', () => {
+    expect(transport.isConnected).toBe(true)
+    expect(transport.deviceName).toBe('PS02-TEST')
+    expect(transport.info.battery).toBe(76)
+    expect(device.replay.sent).toEqual(['FE 00 49 00 00'])
+  })
+
+  it('sets the gain before starting and streams the replayed notifications', async () => {
+    await transport.start(5)
+    expect(transport.isStreaming).toBe(true)
+    expect(device.replay.sent.slice(1)).toEqual(['FE 00 47 05 00', 'FE 00 53 00 00'])
+
+    await vi.waitFor(() => expect(frames).toHaveLength(10))
+    expect(frames.map(f => f.seq)).toEqual([...Array(10).keys()])
+    expect(frames[0].seqModulo).toBe(16)
+    expect(frames.every(f => f.samples.length === 36)).toBe(true)
+  })
+
+  it('confirms a gain change and stops on the acknowledgement', async () => {
+    await transport.setGain(15)
+    expect(device.replay.sent.at(-1)).toBe('FE 00 47 0F 00')
+
+    await transport.start(5)
+    await vi.waitFor(() => expect(frames).toHaveLength(10))
+    await transport.stop()
+
+    expect(transport.isStreaming).toBe(false)
+    expect(device.replay.sent.at(-1)).toBe('FE 00 42 00 00')
+  })
+})
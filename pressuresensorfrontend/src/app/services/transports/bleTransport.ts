@@ -0,0 +1,506 @@
+import {
+  BaseTransport,
+  EMPTY_DEVICE_INFO,
+  sleep,
+  type DeviceHandle,
+  type GattUuid,
+  type RawFormat,
+} from './deviceTransport'
+import {
+  CMD_GAIN,
+  CMD_INFO,
+  CMD_START,
+  CMD_STOP,
+  bleCommand,
+} from '../ps02Protocol'
+
+/* =========================
+   CONSTANTS
+========================= */
+
+export const BLE_SERVICE_UUID = "6e400001-b5a3-f393-e0a9-e50e24dcca9e"
+export const BLE_RX_CHAR_UUID = "6e400003-b5a3-f393-e0a9-e50e24dcca9e"
+export const BLE_TX_CHAR_UUID = "6e400002-b5a3-f393-e0a9-e50e24dcca9e"
+
+/** Standard services read for battery and firmware, where the device has them */
+export const BLE_BATTERY_SERVICE = 0x180F
+export const BLE_BATTERY_LEVEL_CHAR = 0x2A19
+export const BLE_DEVICE_INFO_SERVICE = 0x180A
+export const BLE_FIRMWARE_REVISION_CHAR = 0x2A26
+
+/** Backoff for automatic reconnection: 0.5 s, 1 s, 2 s … capped at 8 s */
+const RECONNECT_INITIAL_DELAY_MS = 500
+const RECONNECT_MAX_DELAY_MS = 8000
+const RECONNECT_MAX_ATTEMPTS = 10
+/** How long to wait for a remembered device to show up before connecting anyway */
+const ADVERTISEMENT_TIMEOUT_MS = 5000
+
+interface BleConnection {
+  device: BluetoothDevice
+  server: BluetoothRemoteGATTServer | null
+  rxChar: BluetoothRemoteGATTCharacteristic
+  txChar: BluetoothRemoteGATTCharacteristic
+  /** Battery Level characteristic, if the device has one */
+  batteryChar: BluetoothRemoteGATTCharacteristic | null
+}
+
+/* =========================
+   WEB BLUETOOTH TRANSPORT
+========================= */
+
+export class BleTransport extends BaseTransport {
+  readonly mode = 'bluetooth' as const
+  readonly rawFormat: RawFormat = 'bytes'
+
+  private conn: BleConnection | null = null
+  /** Kept across an unexpected disconnect so the same device can be reconnected */
+  private device: BluetoothDevice | null = null
+  /** Bumped to abandon a running reconnect loop */
+  private reconnectGeneration = 0
+  private reconnecting = false
+
+  get isSupported() {
+    return 'bluetooth' in navigator
+  }
+
+  get isConnected() {
+    return this.conn !== null
+  }
+
+  get deviceName() {
+    return this.device ? this.device.name || 'Unknown' : null
+  }
+
+  get handle(): DeviceHandle | null {
+    return this.conn ? { mode: 'bluetooth', device: this.conn.device } : null
+  }
+
+  get isReconnecting() {
+    return this.reconnecting
+  }
+
+  async connect(handle?: DeviceHandle) {
+    try {
+      if (!this.isSupported) {
+        this.log('error', 'Web Bluetooth not supported. Use Chrome/Edge/Opera with HTTPS')
+        return
+      }
+
+      if (this.reconnecting) {
+        this.cancelReconnect()
+        this.device?.removeEventListener('gattserverdisconnected', this.handleDisconnected)
+        this.device = null
+      }
+
+      // Cleanup existing connection
+      if (this.conn) {
+        try {
+          await this.release()
+          this.log('info', 'Disconnected previous BLE device')
+          await sleep(500)
+        } catch (e) {
+          console.log('Previous BLE device cleanup:', e)
+        }
+        this.conn = null
+      }
+
+      let device: BluetoothDevice
+      if (handle?.mode === 'bluetooth') {
+        device = handle.device
+        this.log('info', `Looking for ${device.name || 'Unknown'}...`)
+        await this.waitForAdvertisement(device)
+      } else {
+        this.log('info', 'Requesting Bluetooth device...')
+
+        device = await navigator.bluetooth.requestDevice({
+          filters: [{ namePrefix: 'PS02' }],
+          optionalServices: [BLE_SERVICE_UUID, BLE_BATTERY_SERVICE, BLE_DEVICE_INFO_SERVICE]
+        })
+
+        this.log('info', `Device selected: ${device.name || 'Unknown'}`)
+      }
+
+      device.addEventListener('gattserverdisconnected', this.handleDisconnected)
+      this.device = device
+
+      this.conn = await this.openGatt(device)
+
+      this.emit('status', 'connected')
+      this.log('info', '✅ BLE connected and ready')
+      if (this.deviceInfo.battery === null || this.deviceInfo.firmware === null) void this.refreshInfo()
+
+    } catch (err: any) {
+      let errorMsg = err.message || 'Unknown error'
+
+      if (errorMsg.includes('User cancelled')) {
+        errorMsg = 'Device selection cancelled'
+      } else if (errorMsg.includes('Connection attempt failed')) {
+        errorMsg = 'Connection failed. Try: Reset device, move closer, check battery'
+      } else if (errorMsg.includes('GATT Server is disconnected')) {
+        errorMsg = 'Device disconnected during setup. Try: Reset device and connect immediately after power-on'
+      }
+
+      this.log('error', `BLE connection failed: ${errorMsg}`)
+      this.emit('status', 'error')
+
+      this.device?.removeEventListener('gattserverdisconnected', this.handleDisconnected)
+      if (this.device?.gatt?.connected) this.device.gatt.disconnect()
+      this.device = null
+    }
+  }
+
+  /**
+   * A device from getDevices() may not be in range yet; Chrome only
+   * connects reliably once it has heard an advertisement.
+   */
+  private async waitForAdvertisement(device: BluetoothDevice) {
+    if (!device.watchAdvertisements) return
+
+    const abort = new AbortController()
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ADVERTISEMENT_TIMEOUT_MS)
+        device.addEventListener('advertisementreceived', () => {
+          clearTimeout(timer)
+          resolve()
+        }, { once: true })
+        device.watchAdvertisements!({ signal: abort.signal }).catch(reject)
+      })
+    } catch (err: any) {
+      console.log('watchAdvertisements failed:', err)
+    } finally {
+      abort.abort()
+    }
+  }
+
+  /** Connects GATT and looks up the NUS characteristics */
+  private async openGatt(device: BluetoothDevice): Promise<BleConnection> {
+    // Connect to GATT server with retry logic
+    this.log('info', 'Connecting to GATT server...')
+    let server: BluetoothRemoteGATTServer | null = null
+    let connectAttempts = 0
+    const maxConnectAttempts = 3
+
+    while (!server && connectAttempts < maxConnectAttempts) {
+      try {
+        server = await device.gatt!.connect()
+        this.log('info', '✅ GATT server connected')
+      } catch (err: any) {
+        connectAttempts++
+        if (connectAttempts < maxConnectAttempts) {
+          this.log('warning', `Connection attempt ${connectAttempts} failed, retrying...`)
+          await sleep(1000)
+        } else {
+          throw new Error('Failed to connect to GATT server after multiple attempts.')
+        }
+      }
+    }
+
+    if (!server) {
+      throw new Error('Failed to establish GATT connection')
+    }
+
+    await sleep(300)
+
+    if (!server.connected) {
+      throw new Error('GATT server disconnected immediately after connection.')
+    }
+
+    this.log('info', 'Getting primary service...')
+    const service = await server.getPrimaryService(BLE_SERVICE_UUID)
+    this.log('info', '✅ Service found')
+
+    this.log('info', 'Getting characteristics...')
+    const rxChar = await service.getCharacteristic(BLE_RX_CHAR_UUID)
+    const txChar = await service.getCharacteristic(BLE_TX_CHAR_UUID)
+    this.log('info', '✅ Characteristics found')
+
+    if (!server.connected) {
+      server.disconnect()
+      throw new Error('Device disconnected while getting characteristics')
+    }
+
+    // Subscribe up front: command acknowledgements arrive as notifications too
+    await rxChar.startNotifications()
+    rxChar.addEventListener('characteristicvaluechanged', this.handleNotification)
+
+    const batteryChar = await this.readGattInfo(server, [
+      { role: 'NUS service', uuid: service.uuid },
+      { role: 'Notify (device → app)', uuid: rxChar.uuid },
+      { role: 'Write (app → device)', uuid: txChar.uuid },
+    ])
+
+    return { device, server, rxChar, txChar, batteryChar }
+  }
+
+  /**
+   * Reads the standard Battery and Device Information services. Devices
+   * without them, or granted before we asked for them, fall back to the
+   * PS02 info query.
+   */
+  private async readGattInfo(server: BluetoothRemoteGATTServer, uuids: GattUuid[]) {
+    let battery: number | null = null
+    let firmware: string | null = null
+    let batteryChar: BluetoothRemoteGATTCharacteristic | null = null
+
+    try {
+      const service = await server.getPrimaryService(BLE_BATTERY_SERVICE)
+      batteryChar = await service.getCharacteristic(BLE_BATTERY_LEVEL_CHAR)
+      battery = (await batteryChar.readValue()).getUint8(0)
+      uuids = [...uuids, { role: 'Battery level', uuid: batteryChar.uuid }]
+
+      try {
+        await batteryChar.startNotifications()
+        batteryChar.addEventListener('characteristicvaluechanged', this.handleBattery)
+      } catch {
+        // Read-only on some devices; refreshInfo() re-reads it
+      }
+    } catch {
+      batteryChar = null
+    }
+
+    try {
+      const service = await server.getPrimaryService(BLE_DEVICE_INFO_SERVICE)
+      const char = await service.getCharacteristic(BLE_FIRMWARE_REVISION_CHAR)
+      firmware = new TextDecoder().decode(await char.readValue()).replace(/\0+$/, '').trim() || null
+      uuids = [...uuids, { role: 'Firmware revision', uuid: char.uuid }]
+    } catch {
+      // Not exposed
+    }
+
+    this.updateInfo({
+      ...EMPTY_DEVICE_INFO,
+      firmware,
+      battery,
+      source: battery !== null || firmware !== null ? 'gatt' : null,
+      connectedAt: Date.now(),
+      uuids,
+    })
+    return batteryChar
+  }
+
+  async disconnect() {
+    if (this.reconnecting) {
+      this.cancelReconnect()
+      this.device?.removeEventListener('gattserverdisconnected', this.handleDisconnected)
+      this.device = null
+      if (this.streaming) this.setStreaming(false)
+      this.updateInfo(EMPTY_DEVICE_INFO)
+      this.log('info', 'BLE reconnection cancelled')
+      this.emit('status', 'disconnected')
+      return
+    }
+
+    if (!this.conn) return
+
+    try {
+      this.abortCommand()
+      await this.release()
+      this.log('info', 'BLE device disconnected')
+    } catch (e) {
+      console.log('Error closing BLE:', e)
+    }
+    this.decoder.dispose()
+    this.conn = null
+    this.device = null
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.emit('status', 'disconnected')
+  }
+
+  async start(gain: number) {
+    const conn = this.conn
+    if (!conn) {
+      this.log('error', 'No BLE device connected')
+      return
+    }
+
+    try {
+      this.decoder.reset()
+      await this.startStream(conn, gain)
+      this.setStreaming(true)
+      this.log('info', '📡 BLE streaming started')
+
+    } catch (err: any) {
+      this.log('error', `BLE streaming failed: ${err.message}`)
+      this.setStreaming(false)
+    }
+  }
+
+  private async startStream(conn: BleConnection, gain: number) {
+    // 🔑 SET GAIN FIRST (older firmware never acks it, so don't wait)
+    await this.sendStartGain(gain, () => this.write(conn, bleCommand(CMD_GAIN, gain)))
+    this.log('info', `🎚 BLE gain ${gain} sent`)
+
+    // ▶️ START STREAM
+    await this.command({ type: 'start' }, () => this.write(conn, bleCommand(CMD_START)))
+  }
+
+  async stop() {
+    if (this.reconnecting && this.streaming) {
+      // Nothing to send; just don't resume once the link is back
+      this.setStreaming(false)
+      this.log('info', '🛑 BLE streaming stopped (device still reconnecting)')
+      return
+    }
+
+    const conn = this.conn
+    if (!conn) return
+
+    try {
+      await this.command({ type: 'stop' }, () => this.write(conn, bleCommand(CMD_STOP)))
+      this.setStreaming(false)
+      this.log('info', '🛑 BLE streaming stopped')
+    } catch (err: any) {
+      this.log('error', `BLE stop error: ${err.message}`)
+    }
+  }
+
+  async setGain(gain: number) {
+    const conn = this.conn
+    if (!conn) throw new Error('No BLE device connected')
+
+    if (await this.sendGain(gain, () => this.write(conn, bleCommand(CMD_GAIN, gain)))) {
+      this.log('info', `🎚 BLE gain set to ${gain}`)
+    }
+  }
+
+  async refreshInfo() {
+    const conn = this.conn
+    if (!conn) return
+
+    if (conn.batteryChar) {
+      try {
+        this.updateInfo({ battery: (await conn.batteryChar.readValue()).getUint8(0) })
+        if (this.deviceInfo.firmware !== null) return
+      } catch (err: any) {
+        this.log('warning', `Battery read failed: ${err.message}`)
+      }
+    }
+
+    await this.queryInfo(() => this.write(conn, bleCommand(CMD_INFO)))
+  }
+
+  async sendRaw(bytes: Uint8Array) {
+    if (!this.conn) throw new Error('No BLE device connected')
+    await this.write(this.conn, bytes)
+  }
+
+  private async write(conn: BleConnection, bytes: Uint8Array) {
+    // Copy: writeValue wants a plain ArrayBuffer-backed view
+    await conn.txChar.writeValue(new Uint8Array(bytes))
+    this.sent(bytes)
+  }
+
+  private async release() {
+    const conn = this.conn
+    if (!conn) return
+
+    if (this.streaming) this.setStreaming(false)
+
+    conn.device.removeEventListener('gattserverdisconnected', this.handleDisconnected)
+    conn.rxChar.removeEventListener('characteristicvaluechanged', this.handleNotification)
+    conn.batteryChar?.removeEventListener('characteristicvaluechanged', this.handleBattery)
+
+    try {
+      await conn.rxChar.stopNotifications()
+    } catch (e) {
+      // May already be stopped
+    }
+
+    if (conn.server && conn.server.connected) {
+      conn.server.disconnect()
+    }
+  }
+
+  private handleNotification = (event: Event) => {
+    const data = (event.target as BluetoothRemoteGATTCharacteristic).value
+    if (!data) return
+
+    // Copy out: the browser may reuse the notification buffer
+    this.receive('ble', new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)))
+  }
+
+  private handleBattery = (event: Event) => {
+    const data = (event.target as BluetoothRemoteGATTCharacteristic).value
+    if (data && data.byteLength > 0) this.updateInfo({ battery: data.getUint8(0) })
+  }
+
+  private handleDisconnected = () => {
+    const conn = this.conn
+    if (!conn) return
+
+    conn.rxChar.removeEventListener('characteristicvaluechanged', this.handleNotification)
+    conn.batteryChar?.removeEventListener('characteristicvaluechanged', this.handleBattery)
+    this.conn = null
+    this.abortCommand()
+    this.updateInfo({ connectedAt: null })
+
+    this.log('warning', '⚠️ BLE device disconnected unexpectedly')
+    void this.reconnect(conn.device)
+  }
+
+  private cancelReconnect() {
+    this.reconnectGeneration++
+    this.reconnecting = false
+  }
+
+  /**
+   * Reconnects to the same device with exponential backoff. Streaming
+   * stays "on" throughout, so the recording carries on and the outage
+   * shows up as a gap once frames resume.
+   */
+  private async reconnect(device: BluetoothDevice) {
+    const generation = ++this.reconnectGeneration
+    const lostAt = performance.now()
+    this.reconnecting = true
+    this.emit('status', 'reconnecting')
+
+    for (let attempt = 1; attempt <= RECONNECT_MAX_ATTEMPTS; attempt++) {
+      const delay = Math.min(RECONNECT_INITIAL_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS)
+      this.log('info', `🔄 Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${RECONNECT_MAX_ATTEMPTS})`)
+      await sleep(delay)
+      if (generation !== this.reconnectGeneration) return
+
+      let conn: BleConnection
+      try {
+        conn = await this.openGatt(device)
+      } catch (err: any) {
+        this.log('warning', `Reconnect attempt ${attempt} failed: ${err.message}`)
+        continue
+      }
+
+      if (generation !== this.reconnectGeneration) {
+        conn.server?.disconnect()
+        return
+      }
+
+      this.conn = conn
+      this.reconnecting = false
+      this.emit('status', 'connected')
+      this.log('info', `✅ BLE reconnected after ${((performance.now() - lostAt) / 1000).toFixed(1)}s`)
+
+      const gain = this.unconfirmedGain ?? this.gain
+      if (this.streaming && gain !== null) {
+        try {
+          this.decoder.reset()
+          this.emit('resumed', { outageMs: performance.now() - lostAt })
+          await this.startStream(conn, gain)
+          this.log('info', '📡 BLE streaming resumed')
+        } catch (err: any) {
+          this.log('error', `BLE stream resume failed: ${err.message}`)
+          this.setStreaming(false)
+        }
+      }
+      if (this.deviceInfo.battery === null || this.deviceInfo.firmware === null) void this.refreshInfo()
+      return
+    }
+
+    this.reconnecting = false
+    device.removeEventListener('gattserverdisconnected', this.handleDisconnected)
+    this.device = null
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.log('error', `❌ BLE reconnection failed after ${RECONNECT_MAX_ATTEMPTS} attempts`)
+    this.emit('status', 'disconnected')
+    if (this.streaming) this.setStreaming(false)
+  }
+}
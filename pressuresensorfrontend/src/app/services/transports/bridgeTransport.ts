@@ -0,0 +1,345 @@
+import { BaseTransport, EMPTY_DEVICE_INFO, sleep, type DeviceHandle, type RawFormat } from './deviceTransport'
+import { BLE_SEQ_MODULO, SERIAL_SEQ_MODULO } from '../ps02Protocol'
+import {
+  getDeviceStatus,
+  setDeviceGain,
+  startMeasurement,
+  stopMeasurement,
+  streamUrl,
+  updateCsvConfig,
+  type BridgeLink,
+  type BridgeResult,
+} from '../deviceApi'
+
+/* =========================
+   Types
+========================= */
+
+export interface BridgeOptions {
+  /** Base URL of the acquisition backend */
+  url: string
+  /** Which of the backend's device links to stream from */
+  link: BridgeLink
+  /** Let the backend write its own CSV next to ours */
+  backendCsv: boolean
+}
+
+export const DEFAULT_BRIDGE_OPTIONS: BridgeOptions = {
+  url: 'http://localhost:5000',
+  link: 'usb',
+  backendCsv: false,
+}
+
+const STORAGE_KEY = 'ps02-bridge-options'
+
+const SOCKET_OPEN_TIMEOUT_MS = 5000
+
+/** Backoff for reopening a dropped stream: 0.5 s, 1 s, 2 s … capped at 8 s */
+const RECONNECT_INITIAL_DELAY_MS = 500
+const RECONNECT_MAX_DELAY_MS = 8000
+const RECONNECT_MAX_ATTEMPTS = 10
+
+/** One message on the backend's stream socket */
+interface BridgeMessage {
+  seq: number
+  samples: number[]
+}
+
+export function loadBridgeOptions(): BridgeOptions {
+  try {
+    return { ...DEFAULT_BRIDGE_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') }
+  } catch {
+    return DEFAULT_BRIDGE_OPTIONS
+  }
+}
+
+export const saveBridgeOptions = (options: BridgeOptions) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(options))
+
+const isBridgeMessage = (value: any): value is BridgeMessage =>
+  typeof value?.seq === 'number' && Array.isArray(value.samples)
+
+/* =========================
+   BRIDGE TRANSPORT
+   A helper process on the machine owns the PS02 and does the decoding;
+   control goes over its REST API and frames arrive as JSON over a
+   WebSocket. Needs neither Web Serial nor Web Bluetooth, so it also
+   works in Firefox and Safari.
+========================= */
+
+export class BridgeTransport extends BaseTransport {
+  readonly mode = 'bridge' as const
+  readonly rawFormat: RawFormat = 'ascii'
+  readonly handle: DeviceHandle | null = null
+
+  private connected = false
+  private remoteName: string | null = null
+  private socket: WebSocket | null = null
+  /** Bumped to abandon a running reconnect loop */
+  private reconnectGeneration = 0
+
+  constructor(private bridgeOptions: BridgeOptions = DEFAULT_BRIDGE_OPTIONS) {
+    super()
+  }
+
+  get isSupported() {
+    return 'WebSocket' in window
+  }
+
+  get isConnected() {
+    return this.connected
+  }
+
+  get deviceName() {
+    if (!this.connected) return null
+    return `Bridge · ${this.remoteName ?? this.bridgeOptions.link}`
+  }
+
+  get options() {
+    return this.bridgeOptions
+  }
+
+  /** Takes effect on the next connect */
+  configure(options: Partial<BridgeOptions>) {
+    this.bridgeOptions = { ...this.bridgeOptions, ...options }
+  }
+
+  async connect() {
+    const { url, link, backendCsv } = this.bridgeOptions
+
+    try {
+      if (this.connected) await this.disconnect()
+
+      this.log('info', `Contacting backend at ${url}...`)
+      const status = await getDeviceStatus(url)
+      this.remoteName = status.device_name ?? status.port ?? null
+
+      if (!status.connected) {
+        this.log('warning', `⚠️ Backend is up but reports no device on its ${link} link yet`)
+      }
+
+      try {
+        await updateCsvConfig(url, backendCsv)
+      } catch (err: any) {
+        this.log('warning', `Backend CSV setting not applied: ${err.message}`)
+      }
+
+      this.connected = true
+      this.updateInfo({ ...EMPTY_DEVICE_INFO, connectedAt: Date.now() })
+      this.emit('status', 'connected')
+      this.log('info', `✅ Connected to backend (${link})`)
+    } catch (err: any) {
+      this.log('error', `Backend unreachable at ${url}: ${err.message}`)
+      this.emit('status', 'error')
+    }
+  }
+
+  async disconnect() {
+    if (!this.connected) return
+
+    if (this.streaming) await this.stop()
+    this.reconnectGeneration++
+    this.closeSocket()
+    this.connected = false
+    this.remoteName = null
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.emit('status', 'disconnected')
+    this.log('info', 'Backend disconnected')
+  }
+
+  async start(gain: number) {
+    if (!this.connected) {
+      this.log('error', 'No backend connected')
+      return
+    }
+
+    const { url, link } = this.bridgeOptions
+
+    try {
+      // 🔑 SET GAIN FIRST
+      await this.applyGain(gain)
+
+      // ▶️ START STREAM
+      this.request(`POST /${link}/start`)
+      await startMeasurement(url, link)
+      this.socket = await this.openSocket()
+
+      this.setStreaming(true)
+      this.log('info', '📡 Bridge streaming started')
+    } catch (err: any) {
+      this.log('error', `Bridge streaming failed: ${err.message}`)
+      this.closeSocket()
+      this.setStreaming(false)
+    }
+  }
+
+  async stop() {
+    if (!this.connected) return
+
+    const { url, link } = this.bridgeOptions
+    this.reconnectGeneration++
+
+    try {
+      this.request(`POST /${link}/stop`)
+      await stopMeasurement(url, link)
+      this.log('info', '🛑 Bridge streaming stopped')
+    } catch (err: any) {
+      this.log('error', `Bridge stop error: ${err.message}`)
+    }
+    // The socket goes regardless, so no stray frames reach the page
+    this.closeSocket()
+    this.setStreaming(false)
+  }
+
+  async setGain(gain: number) {
+    if (!this.connected) throw new Error('No backend connected')
+    await this.applyGain(gain)
+  }
+
+  /** The backend reports no firmware or battery; re-checks its device link */
+  async refreshInfo() {
+    if (!this.connected) return
+
+    try {
+      const status = await getDeviceStatus(this.bridgeOptions.url)
+      this.remoteName = status.device_name ?? status.port ?? null
+      this.log('info', status.connected ? `Backend device: ${this.deviceName}` : '⚠️ Backend reports no device')
+      this.updateInfo({})
+    } catch (err: any) {
+      this.log('warning', `Backend status failed: ${err.message}`)
+    }
+  }
+
+  async sendRaw() {
+    throw new Error('Raw commands are not supported over the bridge')
+  }
+
+  private async applyGain(gain: number) {
+    const { url, link } = this.bridgeOptions
+
+    this.request(`POST /${link}/gain ${JSON.stringify({ gain })}`)
+    const result: BridgeResult = await setDeviceGain(url, link, gain)
+    if (result.status && result.status !== 'ok' && result.status !== 'queued') {
+      throw new Error(`Backend rejected gain ${gain} (${result.status})`)
+    }
+
+    this.gainConfirmed(gain)
+    this.log('info', `🎚 Bridge gain ${result.status === 'queued' ? 'queued' : 'set'} to ${gain}`)
+  }
+
+  /** Shows a REST call in the traffic console */
+  private request(line: string) {
+    this.sent(new TextEncoder().encode(`${line}\n`))
+  }
+
+  private openSocket() {
+    const { url, link } = this.bridgeOptions
+
+    return new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(streamUrl(url, link))
+      const timeout = setTimeout(() => {
+        socket.close()
+        reject(new Error('Stream socket did not open'))
+      }, SOCKET_OPEN_TIMEOUT_MS)
+
+      socket.onopen = () => {
+        clearTimeout(timeout)
+        socket.onclose = () => this.handleSocketClosed(socket)
+        resolve(socket)
+      }
+      socket.onerror = () => {
+        clearTimeout(timeout)
+        reject(new Error('Stream socket failed'))
+      }
+      socket.onmessage = event => this.handleMessage(socket, event)
+    })
+  }
+
+  private closeSocket() {
+    const socket = this.socket
+    if (!socket) return
+
+    this.socket = null
+    socket.onclose = null
+    socket.onmessage = null
+    socket.close()
+  }
+
+  private handleMessage(socket: WebSocket, event: MessageEvent) {
+    if (socket !== this.socket || !this.streaming || typeof event.data !== 'string') return
+
+    const receivedAt = performance.now()
+    this.emit('traffic', { direction: 'rx', bytes: new TextEncoder().encode(event.data), at: Date.now() })
+
+    let message: unknown
+    try {
+      message = JSON.parse(event.data)
+    } catch {
+      return
+    }
+    if (!isBridgeMessage(message)) return
+
+    this.emit('frame', {
+      mode: this.mode,
+      seq: message.seq,
+      seqModulo: this.bridgeOptions.link === 'bluetooth' ? BLE_SEQ_MODULO : SERIAL_SEQ_MODULO,
+      samples: message.samples,
+      receivedAt,
+    })
+  }
+
+  private handleSocketClosed(socket: WebSocket) {
+    if (socket !== this.socket) return
+
+    this.socket = null
+    if (!this.streaming) return
+
+    this.log('warning', '⚠️ Bridge stream closed unexpectedly')
+    void this.reconnect()
+  }
+
+  /**
+   * Reopens the stream socket with exponential backoff. Streaming stays
+   * "on" throughout, so the recording carries on and the outage shows
+   * up as a gap once frames resume.
+   */
+  private async reconnect() {
+    const generation = ++this.reconnectGeneration
+    const lostAt = performance.now()
+    this.emit('status', 'reconnecting')
+
+    for (let attempt = 1; attempt <= RECONNECT_MAX_ATTEMPTS; attempt++) {
+      const delay = Math.min(RECONNECT_INITIAL_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS)
+      this.log('info', `🔄 Reopening stream in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${RECONNECT_MAX_ATTEMPTS})`)
+      await sleep(delay)
+      if (generation !== this.reconnectGeneration) return
+
+      let socket: WebSocket
+      try {
+        socket = await this.openSocket()
+      } catch (err: any) {
+        this.log('warning', `Reopen attempt ${attempt} failed: ${err.message}`)
+        continue
+      }
+
+      if (generation !== this.reconnectGeneration) {
+        socket.onclose = null
+        socket.close()
+        return
+      }
+
+      this.emit('resumed', { outageMs: performance.now() - lostAt })
+      this.socket = socket
+      this.emit('status', 'connected')
+      this.log('info', `✅ Bridge stream resumed after ${((performance.now() - lostAt) / 1000).toFixed(1)}s`)
+      return
+    }
+
+    this.connected = false
+    this.remoteName = null
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.log('error', `❌ Bridge stream lost after ${RECONNECT_MAX_ATTEMPTS} attempts`)
+    this.emit('status', 'disconnected')
+    if (this.streaming) this.setStreaming(false)
+  }
+}
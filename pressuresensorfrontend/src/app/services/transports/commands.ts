@@ -0,0 +1,74 @@
+import { CMD_GAIN, CMD_INFO, CMD_START, CMD_STOP, type DeviceResponse } from '../ps02Protocol'
+
+/* =========================
+   Device commands
+   Every command is confirmed before the transport reports it as done:
+   by the device's acknowledgement or, where the firmware stays silent,
+   by its effect on the stream (frames start arriving after START and
+   stop arriving after STOP). Gain has no visible effect on the stream,
+   so it needs an acknowledgement. INFO is confirmed by its report.
+
+   Acknowledgements (OK:/ERR: lines, 0xFE replies) are an extension:
+   the original firmware protocol is fire-and-forget and never
+   answers. So the gain written with START is not waited for — the
+   stream starts regardless and the gain shows as unconfirmed until an
+   ack arrives, if one ever does. A gain change mid-stream does wait,
+   but ends up unconfirmed the same way when no answer comes back.
+========================= */
+
+export type DeviceCommand =
+  | { type: 'gain'; gain: number }
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'info' }
+
+export type CommandFailure = 'timeout' | 'rejected' | 'write'
+
+export class CommandError extends Error {
+  constructor(
+    readonly command: DeviceCommand,
+    readonly reason: CommandFailure,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'CommandError'
+  }
+}
+
+export interface CommandPolicy {
+  /** How long to wait for confirmation of one attempt */
+  timeoutMs: number
+  /** Extra attempts after the first times out */
+  retries: number
+}
+
+export const COMMAND_POLICIES: Record<DeviceCommand['type'], CommandPolicy> = {
+  gain: { timeoutMs: 500, retries: 2 },
+  start: { timeoutMs: 1000, retries: 2 },
+  stop: { timeoutMs: 800, retries: 2 },
+  // Older firmware never answers, so don't keep asking
+  info: { timeoutMs: 800, retries: 0 },
+}
+
+/** Silence on the stream that counts as a confirmed STOP */
+export const STOP_QUIET_MS = 250
+
+export const describeCommand = (command: DeviceCommand) =>
+  command.type === 'gain' ? `SET_GAIN ${command.gain}` : command.type.toUpperCase()
+
+const COMMAND_CODES: Record<DeviceCommand['type'], number> = {
+  gain: CMD_GAIN,
+  start: CMD_START,
+  stop: CMD_STOP,
+  info: CMD_INFO,
+}
+
+/** true/false if a response accepts/rejects this command; null if it is about something else */
+export function matchResponse(command: DeviceCommand, response: DeviceResponse): boolean | null {
+  if (response.cmd !== COMMAND_CODES[command.type]) return null
+  // A rejection may not echo the value we sent
+  if (!response.ok) return false
+  // A late ack for an earlier gain
+  if (command.type === 'gain' && response.value !== command.gain) return null
+  return true
+}
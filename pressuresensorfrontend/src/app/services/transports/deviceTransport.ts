@@ -0,0 +1,435 @@
+import { FrameDecoder, type FrameSource } from '../frameDecoder'
+import type { DeviceInfoReport, DeviceResponse } from '../ps02Protocol'
+import type { ParseStats } from '../ps02Parser'
+import {
+  COMMAND_POLICIES,
+  CommandError,
+  STOP_QUIET_MS,
+  describeCommand,
+  matchResponse,
+  type DeviceCommand,
+} from './commands'
+
+/* =========================
+   Types
+========================= */
+
+export type ConnectionMode = 'serial' | 'usb' | 'bluetooth' | 'simulator' | 'bridge'
+/** 'reconnecting' means the link dropped and the transport is trying to restore it */
+export type ConnStatus = 'disconnected' | 'connected' | 'reconnecting' | 'error'
+export type LogLevel = 'info' | 'command' | 'response' | 'error' | 'warning'
+
+/** A port or device the browser has already granted this origin */
+export type DeviceHandle =
+  | { mode: 'serial'; port: SerialPort }
+  | { mode: 'usb'; device: USBDevice }
+  | { mode: 'bluetooth'; device: BluetoothDevice }
+
+export interface SampleFrame {
+  mode: ConnectionMode
+  seq: number
+  seqModulo: number
+  samples: number[]
+  receivedAt: number
+}
+
+/** GATT service or characteristic in use, for the device info panel */
+export interface GattUuid {
+  role: string
+  uuid: string
+}
+
+/** What the device has told us about itself; fields stay null until reported */
+export interface DeviceInfo {
+  firmware: string | null
+  /** Percent, 0–100 */
+  battery: number | null
+  /** Where the battery and firmware came from */
+  source: 'gatt' | 'query' | null
+  /** Wall-clock ms the current link came up; null while disconnected */
+  connectedAt: number | null
+  /** BLE only */
+  uuids: GattUuid[]
+}
+
+export const EMPTY_DEVICE_INFO: DeviceInfo = {
+  firmware: null,
+  battery: null,
+  source: null,
+  connectedAt: null,
+  uuids: [],
+}
+
+/** Battery level that warrants a warning before a session */
+export const LOW_BATTERY_PERCENT = 20
+
+export const isBatteryLow = (info: DeviceInfo) => info.battery !== null && info.battery <= LOW_BATTERY_PERCENT
+
+/** How raw console input is written: text lines (serial) or byte frames (BLE) */
+export type RawFormat = 'ascii' | 'bytes'
+
+/** Bytes on the wire, in either direction */
+export interface TrafficEvent {
+  direction: 'tx' | 'rx'
+  bytes: Uint8Array
+  /** Wall-clock ms */
+  at: number
+}
+
+export interface TransportLog {
+  type: LogLevel
+  message: string
+}
+
+export interface TransportEventMap {
+  frame: SampleFrame
+  status: ConnStatus
+  streaming: boolean
+  /** Emitted just before streaming restarts after the link dropped mid-stream */
+  resumed: { outageMs: number }
+  /** Gain the device has confirmed */
+  gain: number
+  /** Gain written at stream start without waiting for an ack; 'gain' follows if one arrives */
+  gainUnconfirmed: number
+  info: DeviceInfo
+  traffic: TrafficEvent
+  log: TransportLog
+}
+
+type Listener<T> = (payload: T) => void
+
+/**
+ * A connection to a PS02 device. Implementations own the underlying
+ * port/device handles and report everything else through events, so the
+ * same UI can drive any transport.
+ */
+export interface DeviceTransport {
+  readonly mode: ConnectionMode
+  readonly isSupported: boolean
+  readonly isConnected: boolean
+  readonly isStreaming: boolean
+  /** Human-readable name of the connected device, if any */
+  readonly deviceName: string | null
+  /** Handle of the connected port/device, for remembering it */
+  readonly handle: DeviceHandle | null
+  readonly rawFormat: RawFormat
+  readonly info: DeviceInfo
+  /** Frame parser counters since the link came up; zero in bridge mode, where the backend decodes */
+  readonly parseStats: ParseStats
+
+  /** Opens the given granted device, or asks the user to pick one */
+  connect(handle?: DeviceHandle): Promise<void>
+  disconnect(): Promise<void>
+  start(gain: number): Promise<void>
+  stop(): Promise<void>
+  /**
+   * Resolves once the device confirms, or once it is clear the firmware
+   * won't ('gainUnconfirmed'); rejects with a CommandError otherwise
+   */
+  setGain(gain: number): Promise<void>
+  /** Writes bytes as-is, bypassing the command layer (developer console) */
+  sendRaw(bytes: Uint8Array): Promise<void>
+  /** Re-reads battery and firmware */
+  refreshInfo(): Promise<void>
+
+  on<K extends keyof TransportEventMap>(type: K, listener: Listener<TransportEventMap[K]>): () => void
+}
+
+/* =========================
+   Base implementation
+========================= */
+
+export const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+type CommandOutcome = 'confirmed' | 'rejected' | 'timeout' | 'aborted'
+
+interface PendingCommand {
+  command: DeviceCommand
+  settle: (outcome: CommandOutcome) => void
+}
+
+export abstract class BaseTransport implements DeviceTransport {
+  abstract readonly mode: ConnectionMode
+  abstract readonly isSupported: boolean
+  abstract readonly isConnected: boolean
+  abstract readonly deviceName: string | null
+  abstract readonly handle: DeviceHandle | null
+  abstract readonly rawFormat: RawFormat
+
+  protected streaming = false
+  /** Gain last confirmed by the device */
+  protected gain: number | null = null
+  /** Gain sent with START and not (yet) acknowledged */
+  protected unconfirmedGain: number | null = null
+  protected deviceInfo: DeviceInfo = EMPTY_DEVICE_INFO
+
+  private pending: PendingCommand | null = null
+  private lastFrameAt = 0
+  // Serializes commands so an ack can't be credited to the wrong one
+  private commandQueue: Promise<unknown> = Promise.resolve()
+
+  /** Decodes raw device bytes off the main thread and re-emits them as frames */
+  protected decoder = new FrameDecoder(batch => {
+    for (const response of batch.responses) this.handleResponse(response)
+    for (const report of batch.reports) this.handleReport(report)
+    if (batch.frames.length === 0) return
+
+    this.lastFrameAt = performance.now()
+    // Firmware that doesn't ack START confirms it with these frames, which are the stream's first
+    const confirmsStart = this.pending?.command.type === 'start'
+    if (confirmsStart) this.pending!.settle('confirmed')
+
+    // Other frames outside a confirmed stream are dropped
+    if (!this.streaming && !confirmsStart) return
+
+    for (const frame of batch.frames) {
+      this.emit('frame', {
+        mode: this.mode,
+        seq: frame.seq,
+        seqModulo: batch.seqModulo,
+        samples: frame.samples,
+        receivedAt: batch.receivedAt,
+      })
+    }
+  })
+
+  private listeners = new Map<keyof TransportEventMap, Set<Listener<any>>>()
+
+  get isStreaming() {
+    return this.streaming
+  }
+
+  get info() {
+    return this.deviceInfo
+  }
+
+  get parseStats() {
+    return this.decoder.stats
+  }
+
+  abstract connect(handle?: DeviceHandle): Promise<void>
+  abstract disconnect(): Promise<void>
+  abstract start(gain: number): Promise<void>
+  abstract stop(): Promise<void>
+  abstract setGain(gain: number): Promise<void>
+  abstract sendRaw(bytes: Uint8Array): Promise<void>
+  abstract refreshInfo(): Promise<void>
+
+  on<K extends keyof TransportEventMap>(type: K, listener: Listener<TransportEventMap[K]>) {
+    let set = this.listeners.get(type)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(type, set)
+    }
+    set.add(listener)
+    return () => {
+      set.delete(listener)
+    }
+  }
+
+  protected emit<K extends keyof TransportEventMap>(type: K, payload: TransportEventMap[K]) {
+    this.listeners.get(type)?.forEach(listener => listener(payload))
+  }
+
+  /** Hands device bytes to the decoder, and to anyone watching the traffic */
+  protected receive(source: FrameSource, bytes: Uint8Array, receivedAt = performance.now()) {
+    this.emit('traffic', { direction: 'rx', bytes, at: Date.now() })
+    this.decoder.feed(source, bytes, receivedAt)
+  }
+
+  /** Reports bytes just written to the device */
+  protected sent(bytes: Uint8Array) {
+    this.emit('traffic', { direction: 'tx', bytes, at: Date.now() })
+  }
+
+  protected log(type: LogLevel, message: string) {
+    this.emit('log', { type, message })
+  }
+
+  protected updateInfo(patch: Partial<DeviceInfo>) {
+    this.deviceInfo = { ...this.deviceInfo, ...patch }
+    this.emit('info', this.deviceInfo)
+  }
+
+  /**
+   * Asks the firmware for its version and battery level. Firmware
+   * without the query stays silent, which is not an error.
+   */
+  protected async queryInfo(write: () => Promise<void>) {
+    try {
+      await this.command({ type: 'info' }, write)
+    } catch (err) {
+      if (err instanceof CommandError && err.reason !== 'write') {
+        this.log('info', 'Device did not answer the info query (older firmware?)')
+      } else {
+        this.log('warning', `Info query failed: ${(err as Error).message}`)
+      }
+    }
+  }
+
+  protected gainConfirmed(gain: number) {
+    this.gain = gain
+    this.unconfirmedGain = null
+    this.emit('gain', gain)
+  }
+
+  /**
+   * Writes the gain that goes with START without waiting for an ack.
+   * Firmware before command acks never sends one, and the stream must
+   * not hang on it; a late ack still confirms the gain. Throws a
+   * CommandError only if the bytes can't be written.
+   */
+  protected async sendStartGain(gain: number, write: () => Promise<void>) {
+    const command: DeviceCommand = { type: 'gain', gain }
+    // Queued behind any command in flight so its ack can't be mistaken for this one's
+    const run = this.commandQueue.then(async () => {
+      // Set first: an inline decoder can answer while the write is still pending
+      this.unconfirmedGain = gain
+      try {
+        await write()
+      } catch (err: any) {
+        this.unconfirmedGain = null
+        throw new CommandError(command, 'write', `${describeCommand(command)} could not be sent: ${err.message}`)
+      }
+      // Unless an ack already came back
+      if (this.unconfirmedGain === gain) this.emit('gainUnconfirmed', gain)
+    })
+    this.commandQueue = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * Sets the gain and waits for the ack. If nothing at all comes back,
+   * the firmware most likely predates acks and applied it anyway, so
+   * the gain shows as unconfirmed, as with START's, rather than the
+   * old one staying in use. Resolves false then; a late ack still
+   * confirms it. Throws a CommandError if it is rejected or can't be
+   * written.
+   */
+  protected async sendGain(gain: number, write: () => Promise<void>) {
+    try {
+      await this.command({ type: 'gain', gain }, write)
+      return true
+    } catch (err) {
+      if (!(err instanceof CommandError) || err.reason !== 'timeout') throw err
+    }
+
+    this.unconfirmedGain = gain
+    this.emit('gainUnconfirmed', gain)
+    this.log('warning', `⚠️ SET_GAIN ${gain} not acknowledged (older firmware?); assuming the device applied it`)
+    return false
+  }
+
+  protected setStreaming(value: boolean) {
+    this.streaming = value
+    this.emit('streaming', value)
+  }
+
+  /**
+   * Writes a command and waits for the device to confirm it, retrying
+   * on timeout. Throws a CommandError if it is rejected, can't be
+   * written, or is never confirmed.
+   */
+  protected command(command: DeviceCommand, write: () => Promise<void>): Promise<void> {
+    const run = this.commandQueue.then(() => this.runCommand(command, write))
+    this.commandQueue = run.catch(() => {})
+    return run
+  }
+
+  private async runCommand(command: DeviceCommand, write: () => Promise<void>) {
+    const { timeoutMs, retries } = COMMAND_POLICIES[command.type]
+    const name = describeCommand(command)
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) this.log('warning', `⏳ ${name} not confirmed, retrying (${attempt}/${retries})`)
+
+      // Listen before writing: an inline decoder can answer synchronously
+      const outcome = this.awaitConfirmation(command, timeoutMs)
+      try {
+        await write()
+      } catch (err: any) {
+        this.pending?.settle('aborted')
+        throw new CommandError(command, 'write', `${name} could not be sent: ${err.message}`)
+      }
+
+      switch (await outcome) {
+        case 'confirmed':
+          if (command.type === 'gain') this.gainConfirmed(command.gain)
+          return
+        case 'rejected':
+          throw new CommandError(command, 'rejected', `Device rejected ${name}`)
+        case 'aborted':
+          throw new CommandError(command, 'write', `${name} was interrupted`)
+      }
+    }
+
+    throw new CommandError(command, 'timeout', `${name} not confirmed after ${retries + 1} attempts`)
+  }
+
+  private awaitConfirmation(command: DeviceCommand, timeoutMs: number) {
+    this.pending?.settle('aborted')
+
+    return new Promise<CommandOutcome>(resolve => {
+      const sentAt = performance.now()
+      let quietTimer: ReturnType<typeof setInterval> | null = null
+
+      const entry: PendingCommand = {
+        command,
+        settle: outcome => {
+          clearTimeout(timeout)
+          if (quietTimer) clearInterval(quietTimer)
+          if (this.pending === entry) this.pending = null
+          resolve(outcome)
+        },
+      }
+      this.pending = entry
+
+      const timeout = setTimeout(() => entry.settle('timeout'), timeoutMs)
+
+      // A silent firmware still confirms STOP by going quiet
+      if (command.type === 'stop') {
+        quietTimer = setInterval(() => {
+          if (performance.now() - Math.max(sentAt, this.lastFrameAt) >= STOP_QUIET_MS) entry.settle('confirmed')
+        }, 50)
+      }
+    })
+  }
+
+  private handleResponse(response: DeviceResponse) {
+    const pending = this.pending
+    const accepted = pending ? matchResponse(pending.command, response) : null
+    if (pending && accepted !== null) {
+      pending.settle(accepted ? 'confirmed' : 'rejected')
+      return
+    }
+
+    // A (late) answer to the gain sent with START
+    const sent = this.unconfirmedGain
+    if (sent === null) return
+    const gainAccepted = matchResponse({ type: 'gain', gain: sent }, response)
+    if (gainAccepted === null) return
+
+    if (gainAccepted) {
+      this.gainConfirmed(sent)
+    } else {
+      this.unconfirmedGain = null
+      this.log('warning', `⚠️ Device rejected SET_GAIN ${sent}; streaming at its previous gain`)
+    }
+  }
+
+  private handleReport(report: DeviceInfoReport) {
+    // GATT services are the better source where a device has them
+    const fromGatt = this.deviceInfo.source === 'gatt'
+    this.updateInfo({
+      firmware: (fromGatt && this.deviceInfo.firmware) || report.firmware || this.deviceInfo.firmware,
+      battery: (fromGatt ? this.deviceInfo.battery : null) ?? report.battery ?? this.deviceInfo.battery,
+      source: fromGatt ? 'gatt' : 'query',
+    })
+    if (this.pending?.command.type === 'info') this.pending.settle('confirmed')
+  }
+
+  /** Fails whatever command is waiting, e.g. because the link went away */
+  protected abortCommand() {
+    this.pending?.settle('aborted')
+  }
+}
@@ -0,0 +1,29 @@
+import type { ConnectionMode, DeviceTransport } from './deviceTransport'
+import { SerialTransport } from './serialTransport'
+import { UsbTransport } from './usbTransport'
+import { BleTransport } from './bleTransport'
+import { SimulatorTransport } from './simulatorTransport'
+import { BridgeTransport, loadBridgeOptions } from './bridgeTransport'
+
+export * from './deviceTransport'
+export * from './commands'
+export * from './serialTransport'
+export * from './usbTransport'
+export * from './bleTransport'
+export * from './simulatorTransport'
+export * from './bridgeTransport'
+
+export function createTransport(mode: ConnectionMode): DeviceTransport {
+  switch (mode) {
+    case 'serial':
+      return new SerialTransport()
+    case 'usb':
+      return new UsbTransport()
+    case 'bluetooth':
+      return new BleTransport()
+    case 'simulator':
+      return new SimulatorTransport()
+    case 'bridge':
+      return new BridgeTransport(loadBridgeOptions())
+  }
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeSerialPort, installFakeSerial } from '@/test/fakeSerial'
+import { SerialTransport } from './serialTransport'
+import type { SampleFrame, TransportLog } from './deviceTransport'
+
+describe('SerialTransport', () => {
+  let port: FakeSerialPort
+  let transport: SerialTransport
+  let frames: SampleFrame[]
+  let logs: TransportLog[]
+
+  beforeEach(async () => {
+    port = installFakeSerial()
+    transport = new SerialTransport()
+    frames = []
+    logs = []
+    transport.on('frame', frame => frames.push(frame))
+    transport.on('log', log => logs.push(log))
+
+    await transport.connect()
+    await vi.waitFor(() => expect(transport.info.firmware).toBe('1.2.0'))
+  })
+
+  afterEach(async () => {
+    await transport.disconnect()
+  })
+
+  it('connects and reads firmware and battery', () => {
+    expect(transport.isConnected).toBe(true)
+    expect(transport.deviceName).toBe('USB 1915:520F')
+    expect(transport.info.battery).toBe(76)
+    expect(port.replay.sent).toEqual(['I0'])
+  })
+
+  it('sets the gain before starting and streams the replayed frames', async () => {
+    await transport.start(5)
+    expect(transport.isStreaming).toBe(true)
+    expect(port.replay.sent).toEqual(['I0', 'G5', 'S0'])
+
+    await vi.waitFor(() => expect(frames).toHaveLength(10))
+    expect(frames.map(f => f.seq)).toEqual([...Array(10).keys()])
+    expect(frames[0].seqModulo).toBe(256)
+    expect(frames[0].samples.slice(0, 8)).toEqual([0, 0, -1, -2048, 2047, 2047, 308, 530])
+    expect(transport.parseStats).toMatchObject({ frames: 10, resyncs: 0 })
+  })
+
+  it('waits for the device to confirm a gain change', async () => {
+    const gains: number[] = []
+    transport.on('gain', gain => gains.push(gain))
+
+    await transport.setGain(15)
+    expect(port.replay.sent.at(-1)).toBe('GF')
+    expect(gains).toEqual([15])
+  })
+
+  it('stops on the device acknowledgement', async () => {
+    await transport.start(5)
+    await vi.waitFor(() => expect(frames).toHaveLength(10))
+
+    await transport.stop()
+    expect(transport.isStreaming).toBe(false)
+    expect(port.replay.sent.at(-1)).toBe('B0')
+    expect(logs.some(log => log.type === 'error')).toBe(false)
+  })
+})
@@ -0,0 +1,218 @@
+import { BaseTransport, EMPTY_DEVICE_INFO, type DeviceHandle, type RawFormat } from './deviceTransport'
+import {
+  SERIAL_BAUD_RATE,
+  SERIAL_INFO_COMMAND,
+  SERIAL_START_COMMAND,
+  SERIAL_STOP_COMMAND,
+  serialGainCommand,
+} from '../ps02Protocol'
+
+/** USB VID:PID of a serial port, or a generic name for non-USB ports */
+export function describeSerialPort(port: SerialPort) {
+  const { usbVendorId, usbProductId } = port.getInfo()
+  if (usbVendorId === undefined) return 'Serial port'
+  const hex = (n?: number) => (n ?? 0).toString(16).toUpperCase().padStart(4, '0')
+  return `USB ${hex(usbVendorId)}:${hex(usbProductId)}`
+}
+
+/* =========================
+   WEB SERIAL API TRANSPORT
+========================= */
+
+export class SerialTransport extends BaseTransport {
+  readonly mode = 'serial' as const
+  readonly rawFormat: RawFormat = 'ascii'
+
+  private port: SerialPort | null = null
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+
+  get isSupported() {
+    return 'serial' in navigator
+  }
+
+  get isConnected() {
+    return this.port !== null
+  }
+
+  get deviceName() {
+    return this.port ? describeSerialPort(this.port) : null
+  }
+
+  get handle(): DeviceHandle | null {
+    return this.port ? { mode: 'serial', port: this.port } : null
+  }
+
+  async connect(handle?: DeviceHandle) {
+    try {
+      if (!this.isSupported) {
+        this.log('error', 'Web Serial API not supported')
+        return
+      }
+
+      // Cleanup previous port
+      if (this.port) {
+        try {
+          if (this.streaming) this.setStreaming(false)
+          await this.cancelReader()
+          await this.port.close()
+        } catch {}
+        this.port = null
+      }
+
+      let port: SerialPort
+      if (handle?.mode === 'serial') {
+        port = handle.port
+        this.log('info', `Opening ${describeSerialPort(port)}...`)
+      } else {
+        this.log('info', 'Requesting serial port...')
+        port = await navigator.serial.requestPort()
+      }
+
+      await port.open({
+        baudRate: SERIAL_BAUD_RATE,
+        dataBits: 8,
+        stopBits: 1,
+        parity: 'none',
+        flowControl: 'none',
+      })
+
+      this.port = port
+      // Read from the start so command acknowledgements are seen
+      this.decoder.reset()
+      this.readLoop()
+
+      this.updateInfo({ ...EMPTY_DEVICE_INFO, connectedAt: Date.now() })
+      this.emit('status', 'connected')
+      this.log('info', '✅ Serial port connected')
+      void this.refreshInfo()
+    } catch (err: any) {
+      this.log('error', `Serial connect failed: ${err.message}`)
+      this.emit('status', 'error')
+    }
+  }
+
+  async disconnect() {
+    if (!this.port) return
+
+    try {
+      if (this.streaming) this.setStreaming(false)
+      this.abortCommand()
+      await this.cancelReader()
+      await this.port.close()
+      this.log('info', 'Serial port disconnected')
+    } catch (e) {
+      console.log('Error closing serial:', e)
+    }
+    this.decoder.dispose()
+    this.port = null
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.emit('status', 'disconnected')
+  }
+
+  async start(gain: number) {
+    const port = this.port
+    if (!port || !port.writable) {
+      this.log('error', 'Serial port not writable')
+      return
+    }
+
+    try {
+      // 🔑 SET GAIN FIRST (older firmware never acks it, so don't wait)
+      await this.sendStartGain(gain, () => this.write(serialGainCommand(gain)))
+      this.log('info', `🎚 Serial gain ${gain} sent`)
+
+      // ▶️ START STREAM
+      await this.command({ type: 'start' }, () => this.write(SERIAL_START_COMMAND))
+
+      this.setStreaming(true)
+      this.log('info', '📡 Serial streaming started')
+    } catch (err: any) {
+      this.log('error', `Serial start failed: ${err.message}`)
+      this.setStreaming(false)
+    }
+  }
+
+  async stop() {
+    const port = this.port
+    if (!port || !port.writable) return
+
+    try {
+      await this.command({ type: 'stop' }, () => this.write(SERIAL_STOP_COMMAND))
+      this.setStreaming(false)
+      this.log('info', '🛑 Serial streaming stopped')
+    } catch (err: any) {
+      this.log('error', `Serial stop error: ${err.message}`)
+    }
+  }
+
+  async setGain(gain: number) {
+    const port = this.port
+    if (!port || !port.writable) {
+      throw new Error('Serial port not writable')
+    }
+
+    if (await this.sendGain(gain, () => this.write(serialGainCommand(gain)))) {
+      this.log('info', `🎚 Serial gain set to ${gain}`)
+    }
+  }
+
+  async refreshInfo() {
+    if (!this.port?.writable) return
+    await this.queryInfo(() => this.write(SERIAL_INFO_COMMAND))
+  }
+
+  async sendRaw(bytes: Uint8Array) {
+    if (!this.port?.writable) throw new Error('Serial port not writable')
+    await this.writeBytes(bytes)
+  }
+
+  private write(text: string) {
+    return this.writeBytes(new TextEncoder().encode(text))
+  }
+
+  private async writeBytes(bytes: Uint8Array) {
+    const writer = this.port!.writable!.getWriter()
+    try {
+      await writer.write(bytes)
+      this.sent(bytes)
+    } finally {
+      writer.releaseLock()
+    }
+  }
+
+  /** Stops the read loop; the loop itself releases the reader lock. */
+  private async cancelReader() {
+    if (this.reader) {
+      await this.reader.cancel()
+      this.reader = null
+    }
+  }
+
+  private async readLoop() {
+    const port = this.port
+    if (!port || !port.readable) {
+      this.log('error', 'Serial port not readable')
+      return
+    }
+
+    if (this.reader) return
+
+    const reader = port.readable.getReader()
+    this.reader = reader
+
+    try {
+      while (this.port === port) {
+        const { value, done } = await reader.read()
+        if (done) break
+
+        // Line splitting and decoding happen in the decoder worker
+        if (value) this.receive('serial', value)
+      }
+    } catch (err: any) {
+      this.log('error', `Serial read error: ${err.message}`)
+    } finally {
+      reader.releaseLock()
+      if (this.reader === reader) this.reader = null
+    }
+  }
+}
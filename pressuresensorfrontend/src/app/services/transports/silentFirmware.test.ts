@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest'
+import { SILENT_FIRMWARE } from '@/test/silentFirmware'
+import { createTransport } from '.'
+import { COMMAND_POLICIES } from './commands'
+import type { SampleFrame, TransportLog } from './deviceTransport'
+
+describe.each(SILENT_FIRMWARE)('$mode transport with firmware that never acknowledges', ({ mode, install, info, start, gain }) => {
+  it('streams without waiting for a gain ack and shows the gain as unconfirmed', async () => {
+    const replay = install()
+    const transport = createTransport(mode)
+    const frames: SampleFrame[] = []
+    const logs: TransportLog[] = []
+    const confirmed: number[] = []
+    const unconfirmed: number[] = []
+    transport.on('frame', frame => frames.push(frame))
+    transport.on('log', log => logs.push(log))
+    transport.on('gain', gain => confirmed.push(gain))
+    transport.on('gainUnconfirmed', gain => unconfirmed.push(gain))
+
+    await transport.connect()
+    await vi.waitFor(() => expect(logs.some(log => log.message.includes('did not answer the info query'))).toBe(true))
+
+    const startedAt = performance.now()
+    await transport.start(5)
+    expect(transport.isStreaming).toBe(true)
+    // START is confirmed by frames, long before a gain ack could time out
+    expect(performance.now() - startedAt).toBeLessThan(COMMAND_POLICIES.gain.timeoutMs)
+    expect(replay.sent).toEqual([info, gain(5), start])
+    expect(unconfirmed).toEqual([5])
+    expect(confirmed).toEqual([])
+
+    await vi.waitFor(() => expect(frames).toHaveLength(10))
+
+    // A gain change mid-stream times out unanswered, and is then taken as applied
+    await transport.setGain(15)
+    expect(replay.sent.filter(command => command === gain(15))).toHaveLength(COMMAND_POLICIES.gain.retries + 1)
+    expect(unconfirmed).toEqual([5, 15])
+    expect(confirmed).toEqual([])
+
+    await transport.stop()
+    expect(transport.isStreaming).toBe(false)
+    expect(logs.some(log => log.type === 'error')).toBe(false)
+
+    await transport.disconnect()
+  })
+})
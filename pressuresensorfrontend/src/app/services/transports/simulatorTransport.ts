@@ -0,0 +1,341 @@
+import { BaseTransport, EMPTY_DEVICE_INFO, type DeviceHandle, type RawFormat } from './deviceTransport'
+import {
+  ADC_MAX,
+  ADC_MIN,
+  BLE_SEQ_MODULO,
+  CMD_GAIN,
+  CMD_INFO,
+  CMD_START,
+  CMD_STOP,
+  SAMPLES_PER_FRAME,
+  SERIAL_SEQ_MODULO,
+  SERIAL_INFO_COMMAND,
+  SERIAL_START_COMMAND,
+  SERIAL_STOP_COMMAND,
+  bleCommand,
+  encodeBleInfo,
+  encodeBleNotification,
+  encodeBleResponse,
+  encodeSerialInfo,
+  encodeSerialLine,
+  encodeSerialResponse,
+  serialGainCommand,
+  type DeviceResponse,
+} from '../ps02Protocol'
+
+/* =========================
+   Types
+========================= */
+
+export type SimWaveform = 'sine' | 'presses' | 'noise' | 'saturation'
+export type SimFrameFormat = 'serial' | 'ble'
+
+export interface SimulatorOptions {
+  waveform: SimWaveform
+  sampleRate: number
+  frameFormat: SimFrameFormat
+  /** Battery level the simulated firmware reports, percent */
+  battery: number
+  /** Append a CRC to every frame, like checksum-capable firmware */
+  crc: boolean
+}
+
+export const DEFAULT_SIMULATOR_OPTIONS: SimulatorOptions = {
+  waveform: 'presses',
+  sampleRate: 1000,
+  frameFormat: 'serial',
+  battery: 85,
+  crc: false,
+}
+
+const SIM_FIRMWARE = '1.0.0'
+
+const TICK_MS = 20
+/** Round trip before the simulated firmware acknowledges a command */
+const ACK_DELAY_MS = 5
+
+/* =========================
+   SIMULATED PS02
+   Accepts the same G/S/B/I commands as the firmware and emits encoded
+   frames (serial lines or BLE notifications) while streaming.
+========================= */
+
+class SimulatedPs02 {
+  gain = 15
+  streaming = false
+
+  private seq = 0
+  private sampleIndex = 0
+  private pressLevel = 0
+
+  constructor(public options: SimulatorOptions) {}
+
+  /**
+   * Handles one command written by the host and returns the
+   * acknowledgement, or null if the bytes weren't a command at all.
+   */
+  receive(data: string | Uint8Array): DeviceResponse | null {
+    let cmd: number
+    let value: number
+
+    if (typeof data === 'string') {
+      const match = data.trim().match(/^([GSBI])([0-9A-Fa-f]+)$/)
+      if (!match) return null
+      cmd = match[1].charCodeAt(0)
+      value = parseInt(match[2], 16)
+    } else {
+      if (data.length < 5 || data[0] !== 0xFE) return null
+      cmd = data[2]
+      value = data[3]
+    }
+
+    return { cmd, value, ok: this.apply(cmd, value) }
+  }
+
+  private apply(cmd: number, value: number) {
+    switch (cmd) {
+      case CMD_GAIN:
+        if (value > 15) return false
+        this.gain = value
+        return true
+      case CMD_START:
+        this.streaming = true
+        return true
+      case CMD_STOP:
+        this.streaming = false
+        return true
+      case CMD_INFO:
+        return true
+      default:
+        return false
+    }
+  }
+
+  nextFrame(): string | Uint8Array {
+    const samples: number[] = []
+    for (let i = 0; i < SAMPLES_PER_FRAME; i++) {
+      samples.push(this.nextSample())
+    }
+
+    const seq = this.seq
+    if (this.options.frameFormat === 'serial') {
+      this.seq = (this.seq + 1) % SERIAL_SEQ_MODULO
+      return encodeSerialLine(seq, samples, this.options.crc)
+    }
+    this.seq = (this.seq + 1) % BLE_SEQ_MODULO
+    return encodeBleNotification(seq, samples, this.options.crc)
+  }
+
+  private nextSample() {
+    const { waveform, sampleRate } = this.options
+    const t = this.sampleIndex++ / sampleRate
+    const scale = (this.gain + 1) / 16
+    const noise = (Math.random() - 0.5) * 20
+
+    let value: number
+    switch (waveform) {
+      case 'sine':
+        value = Math.sin(2 * Math.PI * 0.5 * t) * 1200 * scale + noise
+        break
+      case 'presses': {
+        // 1 s press every 3 s, with a short first-order rise and fall
+        const target = t % 3 < 1 ? 1500 * scale : 0
+        this.pressLevel += (target - this.pressLevel) * Math.min(1, 40 / sampleRate)
+        value = this.pressLevel + noise
+        break
+      }
+      case 'noise':
+        value = (Math.random() - 0.5) * 400 * scale
+        break
+      case 'saturation':
+        value = Math.sin(2 * Math.PI * 0.3 * t) * 3000 * scale + noise
+        break
+    }
+
+    return Math.max(ADC_MIN, Math.min(ADC_MAX, Math.round(value)))
+  }
+}
+
+/* =========================
+   SIMULATOR TRANSPORT
+========================= */
+
+export class SimulatorTransport extends BaseTransport {
+  readonly mode = 'simulator' as const
+  readonly isSupported = true
+
+  private device: SimulatedPs02 | null = null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private lastTick = 0
+  private pendingFrames = 0
+  private options: SimulatorOptions
+  /** Acknowledgements still on their way back, cleared on disconnect */
+  private ackTimers = new Set<ReturnType<typeof setTimeout>>()
+
+  constructor(options: SimulatorOptions = DEFAULT_SIMULATOR_OPTIONS) {
+    super()
+    this.options = { ...options }
+  }
+
+  get isConnected() {
+    return this.device !== null
+  }
+
+  get deviceName() {
+    return this.device ? 'PS02 Simulator' : null
+  }
+
+  get rawFormat(): RawFormat {
+    return this.options.frameFormat === 'serial' ? 'ascii' : 'bytes'
+  }
+
+  /** Nothing for the browser to remember */
+  get handle(): DeviceHandle | null {
+    return null
+  }
+
+  configure(options: Partial<SimulatorOptions>) {
+    this.options = { ...this.options, ...options }
+    if (this.device) this.device.options = this.options
+  }
+
+  async connect() {
+    this.device = new SimulatedPs02(this.options)
+    this.decoder.reset()
+    this.timer = setInterval(this.tick, TICK_MS)
+    this.updateInfo({ ...EMPTY_DEVICE_INFO, connectedAt: Date.now() })
+    this.emit('status', 'connected')
+    this.log('info', `✅ Simulator connected (${this.options.frameFormat.toUpperCase()} frames, ${this.options.sampleRate} Hz)`)
+    void this.refreshInfo()
+  }
+
+  async disconnect() {
+    if (!this.device) return
+
+    this.stopTimer()
+    this.ackTimers.forEach(clearTimeout)
+    this.ackTimers.clear()
+    this.abortCommand()
+    if (this.streaming) this.setStreaming(false)
+    this.device = null
+    this.decoder.dispose()
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.log('info', 'Simulator disconnected')
+    this.emit('status', 'disconnected')
+  }
+
+  async start(gain: number) {
+    if (!this.device) {
+      this.log('error', 'Simulator not connected')
+      return
+    }
+
+    try {
+      // 🔑 SET GAIN FIRST (older firmware never acks it, so don't wait)
+      await this.sendStartGain(gain, () => this.send(this.gainCommand(gain)))
+      this.log('info', `🎚 Simulator gain ${gain} sent`)
+
+      // ▶️ START STREAM
+      const start = this.options.frameFormat === 'serial' ? SERIAL_START_COMMAND : bleCommand(CMD_START)
+      await this.command({ type: 'start' }, () => this.send(start))
+
+      this.setStreaming(true)
+      this.log('info', '📡 Simulator streaming started')
+    } catch (err: any) {
+      this.log('error', `Simulator start failed: ${err.message}`)
+      this.setStreaming(false)
+    }
+  }
+
+  async stop() {
+    if (!this.device) return
+
+    try {
+      const stop = this.options.frameFormat === 'serial' ? SERIAL_STOP_COMMAND : bleCommand(CMD_STOP)
+      await this.command({ type: 'stop' }, () => this.send(stop))
+      this.setStreaming(false)
+      this.log('info', '🛑 Simulator streaming stopped')
+    } catch (err: any) {
+      this.log('error', `Simulator stop error: ${err.message}`)
+    }
+  }
+
+  async setGain(gain: number) {
+    if (!this.device) throw new Error('Simulator not connected')
+
+    if (await this.sendGain(gain, () => this.send(this.gainCommand(gain)))) {
+      this.log('info', `🎚 Simulator gain set to ${gain}`)
+    }
+  }
+
+  async refreshInfo() {
+    if (!this.device) return
+    const query = this.options.frameFormat === 'serial' ? SERIAL_INFO_COMMAND : bleCommand(CMD_INFO)
+    await this.queryInfo(() => this.send(query))
+  }
+
+  private gainCommand(gain: number) {
+    return this.options.frameFormat === 'serial' ? serialGainCommand(gain) : bleCommand(CMD_GAIN, gain)
+  }
+
+  async sendRaw(bytes: Uint8Array) {
+    if (!this.device) throw new Error('Simulator not connected')
+    // Anything the firmware wouldn't understand is silently ignored, like the real one
+    await this.send(this.rawFormat === 'ascii' ? new TextDecoder().decode(bytes) : bytes).catch(() => {})
+  }
+
+  /** Delivers a command and feeds the acknowledgement (or info report) back through the decoder */
+  private async send(data: string | Uint8Array) {
+    this.sent(typeof data === 'string' ? new TextEncoder().encode(data) : data)
+
+    const response = this.device?.receive(data)
+    if (!response) throw new Error('Simulator did not understand the command')
+
+    const report = response.cmd === CMD_INFO ? { firmware: SIM_FIRMWARE, battery: this.options.battery } : null
+
+    const timer = setTimeout(() => {
+      this.ackTimers.delete(timer)
+      // Disconnected meanwhile: the decoder is gone
+      if (!this.device) return
+      if (this.options.frameFormat === 'serial') {
+        const line = report ? encodeSerialInfo(report) : encodeSerialResponse(response)
+        this.receive('serial', new TextEncoder().encode(line))
+      } else {
+        this.receive('ble', report ? encodeBleInfo(report) : encodeBleResponse(response))
+      }
+    }, ACK_DELAY_MS)
+    this.ackTimers.add(timer)
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private tick = () => {
+    const device = this.device
+    const now = performance.now()
+    if (!device || !device.streaming) {
+      this.lastTick = now
+      this.pendingFrames = 0
+      return
+    }
+
+    this.pendingFrames += ((now - this.lastTick) / 1000) * (this.options.sampleRate / SAMPLES_PER_FRAME)
+    this.lastTick = now
+
+    while (this.pendingFrames >= 1) {
+      this.pendingFrames -= 1
+
+      // Round-trip through the real decoder, just like device bytes
+      const encoded = device.nextFrame()
+      if (typeof encoded === 'string') {
+        this.receive('serial', new TextEncoder().encode(encoded), now)
+      } else {
+        this.receive('ble', encoded, now)
+      }
+    }
+  }
+}
@@ -0,0 +1,260 @@
+import { BaseTransport, EMPTY_DEVICE_INFO, sleep, type DeviceHandle, type RawFormat } from './deviceTransport'
+import {
+  SERIAL_INFO_COMMAND,
+  SERIAL_START_COMMAND,
+  SERIAL_STOP_COMMAND,
+  serialGainCommand,
+} from '../ps02Protocol'
+
+/* =========================
+   CONSTANTS
+   The PS02 speaks the same ASCII protocol over its vendor bulk
+   interface as over CDC serial, which sidesteps CDC driver conflicts.
+========================= */
+
+export const USB_VENDOR_ID = 0x1915
+export const USB_PRODUCT_ID = 0x521A
+
+const USB_INTERFACE = 0
+const USB_ENDPOINT_IN = 1
+const USB_ENDPOINT_OUT = 2
+/** Bulk packet size; one frame line spans several packets */
+const USB_PACKET_BYTES = 64
+
+/** Product name where the device reports one, else VID:PID */
+export function describeUsbDevice(device: USBDevice) {
+  if (device.productName) return device.productName
+  const hex = (n: number) => n.toString(16).toUpperCase().padStart(4, '0')
+  return `USB ${hex(device.vendorId)}:${hex(device.productId)}`
+}
+
+/* =========================
+   WEBUSB TRANSPORT
+========================= */
+
+export class UsbTransport extends BaseTransport {
+  readonly mode = 'usb' as const
+  readonly rawFormat: RawFormat = 'ascii'
+
+  private device: USBDevice | null = null
+
+  get isSupported() {
+    return 'usb' in navigator
+  }
+
+  get isConnected() {
+    return this.device !== null
+  }
+
+  get deviceName() {
+    return this.device ? describeUsbDevice(this.device) : null
+  }
+
+  get handle(): DeviceHandle | null {
+    return this.device ? { mode: 'usb', device: this.device } : null
+  }
+
+  async connect(handle?: DeviceHandle) {
+    try {
+      if (!this.isSupported) {
+        this.log('error', 'WebUSB not supported. Use Chrome/Edge/Opera')
+        return
+      }
+
+      // Close existing connection if any
+      if (this.device) {
+        try {
+          if (this.streaming) this.setStreaming(false)
+          await this.close(this.device)
+        } catch (e) {
+          console.log('Previous USB device already closed')
+        }
+        this.device = null
+      }
+
+      let device: USBDevice
+      if (handle?.mode === 'usb') {
+        device = handle.device
+        this.log('info', `Opening ${describeUsbDevice(device)}...`)
+      } else {
+        this.log('info', 'Requesting USB device...')
+        device = await navigator.usb.requestDevice({
+          filters: [{ vendorId: USB_VENDOR_ID, productId: USB_PRODUCT_ID }]
+        })
+      }
+
+      await device.open()
+
+      if (!device.configuration) {
+        await device.selectConfiguration(1)
+      }
+
+      // Try to claim interface, release first if needed
+      try {
+        await device.claimInterface(USB_INTERFACE)
+      } catch (err: any) {
+        if (!err.message.includes('Unable to claim interface')) throw err
+
+        this.log('info', 'Interface already claimed, attempting to release and reclaim...')
+        try {
+          await device.releaseInterface(USB_INTERFACE)
+          await sleep(100)
+          await device.claimInterface(USB_INTERFACE)
+        } catch (reclaimErr: any) {
+          throw new Error(`Failed to claim interface: ${reclaimErr.message}`)
+        }
+      }
+
+      this.device = device
+      navigator.usb.addEventListener('disconnect', this.handleUnplugged)
+      // Read from the start so command acknowledgements are seen
+      this.decoder.reset()
+      this.readLoop(device)
+
+      this.updateInfo({ ...EMPTY_DEVICE_INFO, connectedAt: Date.now() })
+      this.emit('status', 'connected')
+      this.log('info', '✅ USB device connected')
+      void this.refreshInfo()
+    } catch (err: any) {
+      this.log('error', `USB connection failed: ${err.message}`)
+      this.emit('status', 'error')
+    }
+  }
+
+  async disconnect() {
+    const device = this.device
+    if (!device) return
+
+    try {
+      if (this.streaming) this.setStreaming(false)
+      this.abortCommand()
+      this.device = null
+      await this.close(device)
+      this.log('info', 'USB device disconnected')
+    } catch (e) {
+      console.log('Error closing USB:', e)
+    }
+    this.released()
+  }
+
+  async start(gain: number) {
+    if (!this.device) {
+      this.log('error', 'No USB device connected')
+      return
+    }
+
+    try {
+      // 🔑 SET GAIN FIRST (older firmware never acks it, so don't wait)
+      await this.sendStartGain(gain, () => this.write(serialGainCommand(gain)))
+      this.log('info', `🎚 USB gain ${gain} sent`)
+
+      // ▶️ START STREAM
+      await this.command({ type: 'start' }, () => this.write(SERIAL_START_COMMAND))
+
+      this.setStreaming(true)
+      this.log('info', '📡 USB streaming started')
+    } catch (err: any) {
+      this.log('error', `USB streaming failed: ${err.message}`)
+      this.setStreaming(false)
+    }
+  }
+
+  async stop() {
+    if (!this.device) return
+
+    try {
+      await this.command({ type: 'stop' }, () => this.write(SERIAL_STOP_COMMAND))
+      this.setStreaming(false)
+      this.log('info', '🛑 USB streaming stopped')
+    } catch (err: any) {
+      this.log('error', `USB stop error: ${err.message}`)
+    }
+  }
+
+  async setGain(gain: number) {
+    if (!this.device) throw new Error('No USB device connected')
+
+    if (await this.sendGain(gain, () => this.write(serialGainCommand(gain)))) {
+      this.log('info', `🎚 USB gain set to ${gain}`)
+    }
+  }
+
+  async refreshInfo() {
+    if (!this.device) return
+    await this.queryInfo(() => this.write(SERIAL_INFO_COMMAND))
+  }
+
+  async sendRaw(bytes: Uint8Array) {
+    if (!this.device) throw new Error('No USB device connected')
+    await this.writeBytes(bytes)
+  }
+
+  private write(text: string) {
+    return this.writeBytes(new TextEncoder().encode(text))
+  }
+
+  private async writeBytes(bytes: Uint8Array) {
+    const device = this.device
+    if (!device) throw new Error('No USB device connected')
+
+    // Copy: transferOut wants a plain ArrayBuffer-backed view
+    const result = await device.transferOut(USB_ENDPOINT_OUT, new Uint8Array(bytes))
+    if (result.status !== 'ok') throw new Error(`USB write ${result.status}`)
+    this.sent(bytes)
+  }
+
+  /**
+   * Polls the bulk IN endpoint for as long as this device stays open.
+   * Closing the device fails the pending transfer, which ends the loop.
+   */
+  private async readLoop(device: USBDevice) {
+    try {
+      while (this.device === device) {
+        const result = await device.transferIn(USB_ENDPOINT_IN, USB_PACKET_BYTES)
+
+        if (result.status === 'stall') {
+          await device.clearHalt('in', USB_ENDPOINT_IN)
+          continue
+        }
+
+        // Line splitting and decoding happen in the decoder worker
+        const data = result.data
+        if (data && data.byteLength > 0) {
+          this.receive('serial', new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)))
+        }
+      }
+    } catch (err: any) {
+      if (this.device === device) {
+        this.log('error', `USB read error: ${err.message}`)
+        await this.disconnect()
+      }
+    }
+  }
+
+  private async close(device: USBDevice) {
+    navigator.usb.removeEventListener('disconnect', this.handleUnplugged)
+    try {
+      await device.releaseInterface(USB_INTERFACE)
+    } catch {
+      // Already released, or the device is gone
+    }
+    await device.close()
+  }
+
+  private released() {
+    this.decoder.dispose()
+    this.updateInfo(EMPTY_DEVICE_INFO)
+    this.emit('status', 'disconnected')
+  }
+
+  private handleUnplugged = (event: USBConnectionEvent) => {
+    if (event.device !== this.device) return
+
+    navigator.usb.removeEventListener('disconnect', this.handleUnplugged)
+    this.device = null
+    this.abortCommand()
+    if (this.streaming) this.setStreaming(false)
+    this.log('warning', '⚠️ USB device unplugged')
+    this.released()
+  }
+}
@@ -0,0 +1,93 @@
+import { BLE_RX_CHAR_UUID, BLE_SERVICE_UUID, BLE_TX_CHAR_UUID } from '@/app/services/transports'
+import { CaptureReplay, fromHex, loadCapture, toHex } from './replay'
+
+/* =========================
+   Fake Web Bluetooth
+   A PS02 exposing only the Nordic UART service; writes to its TX
+   characteristic are answered with notifications from a scripted
+   capture. Battery and Device Information services are missing, so
+   the transport falls back to the PS02 info query as older units do.
+========================= */
+
+class FakeCharacteristic extends EventTarget {
+  value: DataView | null = null
+
+  constructor(
+    readonly uuid: string,
+    private onWrite: (bytes: Uint8Array) => void = () => {},
+  ) {
+    super()
+  }
+
+  async startNotifications() {
+    return this
+  }
+
+  async stopNotifications() {
+    return this
+  }
+
+  async writeValue(data: BufferSource) {
+    this.onWrite(new Uint8Array(data as ArrayBuffer))
+  }
+
+  notify(bytes: Uint8Array) {
+    this.value = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    this.dispatchEvent(new Event('characteristicvaluechanged'))
+  }
+}
+
+export class FakeBluetoothDevice extends EventTarget {
+  readonly id = 'fake-ps02'
+  readonly name = 'PS02-TEST'
+  readonly replay: CaptureReplay
+  readonly rx = new FakeCharacteristic(BLE_RX_CHAR_UUID)
+  readonly tx = new FakeCharacteristic(BLE_TX_CHAR_UUID, bytes => this.handleWrite(bytes))
+
+  readonly gatt = {
+    connected: false,
+    connect: async () => {
+      this.gatt.connected = true
+      return this.gatt
+    },
+    disconnect: () => {
+      if (!this.gatt.connected) return
+      this.gatt.connected = false
+      this.dispatchEvent(new Event('gattserverdisconnected'))
+    },
+    getPrimaryService: async (uuid: string) => {
+      if (uuid !== BLE_SERVICE_UUID) throw new DOMException('No such service', 'NotFoundError')
+      return {
+        uuid,
+        getCharacteristic: async (char: string) => {
+          if (char === BLE_RX_CHAR_UUID) return this.rx
+          if (char === BLE_TX_CHAR_UUID) return this.tx
+          throw new DOMException('No such characteristic', 'NotFoundError')
+        },
+      }
+    },
+  }
+
+  constructor(capture = loadCapture('ble-acks')) {
+    super()
+    this.replay = new CaptureReplay(capture, 'hex')
+  }
+
+  private handleWrite(bytes: Uint8Array) {
+    const replies = this.replay.respond(toHex(bytes))
+    // One notification per captured packet, after the write resolves
+    replies.forEach((packet, i) => setTimeout(() => this.rx.notify(fromHex(packet)), 1 + i))
+  }
+}
+
+/** Installs navigator.bluetooth with `device` as the one the user picks */
+export function installFakeBluetooth(device = new FakeBluetoothDevice()) {
+  Object.defineProperty(navigator, 'bluetooth', {
+    configurable: true,
+    value: {
+      requestDevice: async () => device,
+      getDevices: async () => [],
+    },
+  })
+  return device
+}
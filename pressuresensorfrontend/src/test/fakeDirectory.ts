@@ -0,0 +1,62 @@
+/* =========================
+   Fake File System Access
+   An in-memory folder for the CSV sink: enough of
+   FileSystemDirectoryHandle and createWritable() to append and
+   rewrite (and remove) files, with the contents readable back as text.
+========================= */
+
+export class FakeDirectory {
+  readonly files = new Map<string, Uint8Array>()
+
+  constructor(readonly name = 'recordings') {}
+
+  text(filename: string) {
+    return new TextDecoder().decode(this.files.get(filename) ?? new Uint8Array())
+  }
+
+  async removeEntry(filename: string) {
+    if (!this.files.delete(filename)) throw new DOMException(`${filename} not found`, 'NotFoundError')
+  }
+
+  async getFileHandle(filename: string, options?: { create?: boolean }) {
+    if (!this.files.has(filename)) {
+      if (!options?.create) throw new DOMException(`${filename} not found`, 'NotFoundError')
+      this.files.set(filename, new Uint8Array())
+    }
+
+    return {
+      name: filename,
+      createWritable: async (writableOptions?: { keepExistingData?: boolean }) => {
+        let data = writableOptions?.keepExistingData ? this.files.get(filename)! : new Uint8Array()
+        let position = 0
+
+        return {
+          seek: async (offset: number) => {
+            position = offset
+          },
+          write: async (chunk: string | Uint8Array) => {
+            const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk
+            const next = new Uint8Array(Math.max(data.length, position + bytes.length))
+            next.set(data)
+            next.set(bytes, position)
+            data = next
+            position += bytes.length
+          },
+          // Like the real API, nothing is visible until close()
+          close: async () => {
+            this.files.set(filename, data)
+          },
+        }
+      },
+    }
+  }
+}
+
+/** Installs window.showDirectoryPicker, resolving to `directory` */
+export function installFakeDirectoryPicker(directory = new FakeDirectory()) {
+  Object.defineProperty(window, 'showDirectoryPicker', {
+    configurable: true,
+    value: async () => directory,
+  })
+  return directory
+}
@@ -0,0 +1,78 @@
+import { CaptureReplay, loadCapture } from './replay'
+
+/* =========================
+   Fake Web Serial
+   A port that answers writes from a scripted capture. Replies are
+   delivered in small chunks, like a USB CDC link, so lines arrive
+   split across reads.
+========================= */
+
+/** Bytes per read; a frame line takes two */
+const CHUNK_BYTES = 64
+
+export class FakeSerialPort {
+  readable: ReadableStream<Uint8Array> | null = null
+  writable: WritableStream<Uint8Array> | null = null
+  readonly replay: CaptureReplay
+
+  private controller: ReadableStreamDefaultController<Uint8Array> | null = null
+
+  constructor(capture = loadCapture('serial-acks')) {
+    this.replay = new CaptureReplay(capture, 'text')
+  }
+
+  getInfo() {
+    return { usbVendorId: 0x1915, usbProductId: 0x520F }
+  }
+
+  async open() {
+    this.readable = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller
+      },
+      cancel: () => {
+        this.controller = null
+      },
+    })
+    this.writable = new WritableStream<Uint8Array>({
+      write: chunk => this.handleWrite(chunk),
+    })
+  }
+
+  async close() {
+    this.controller = null
+    this.readable = null
+    this.writable = null
+  }
+
+  /** Sends bytes as if the device had written them */
+  push(text: string) {
+    const bytes = new TextEncoder().encode(text)
+    for (let i = 0; i < bytes.length; i += CHUNK_BYTES) {
+      this.controller?.enqueue(bytes.slice(i, i + CHUNK_BYTES))
+    }
+  }
+
+  private handleWrite(chunk: Uint8Array) {
+    for (const line of new TextDecoder().decode(chunk).split(/\r?\n/)) {
+      if (!line.trim()) continue
+      const replies = this.replay.respond(line)
+      // One line per tick after the write resolves, like a real round trip
+      replies.forEach((reply, i) => setTimeout(() => this.push(`${reply}\r\n`), 1 + i))
+    }
+  }
+}
+
+/** Installs navigator.serial with `port` as the one the user picks */
+export function installFakeSerial(port = new FakeSerialPort()) {
+  Object.defineProperty(navigator, 'serial', {
+    configurable: true,
+    value: {
+      requestPort: async () => port,
+      getPorts: async () => [],
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    },
+  })
+  return port
+}
@@ -0,0 +1,77 @@
+/// <reference types="vite/client" />
+import serialAcks from './fixtures/serial-acks.synthetic.log?raw'
+import serialSilent from './fixtures/serial-silent.synthetic.log?raw'
+import bleAcks from './fixtures/ble-acks.synthetic.log?raw'
+import bleSilent from './fixtures/ble-silent.synthetic.log?raw'
+
+/* =========================
+   Scripted traffic replay
+   A capture lists what the host wrote (`> …`) and what the device sent
+   back (`< …`) until the next write. The captures in fixtures/ are
+   synthetic — hand-written around the golden frames, not recorded from
+   a PS02. `*-acks` script firmware that acknowledges commands;
+   `*-silent` scripts the original fire-and-forget firmware, which
+   never answers and only streams after START. Serial captures hold text lines,
+   BLE captures one packet of hex bytes per line. Replaying answers
+   each write with what followed it in the capture; a command recorded
+   more than once plays its recordings in turn.
+========================= */
+
+export type CaptureFormat = 'text' | 'hex'
+
+const CAPTURES = {
+  'serial-acks': serialAcks,
+  'serial-silent': serialSilent,
+  'ble-acks': bleAcks,
+  'ble-silent': bleSilent,
+}
+
+export const loadCapture = (name: keyof typeof CAPTURES) => CAPTURES[name]
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ')
+
+export const fromHex = (hex: string) =>
+  new Uint8Array(hex.trim().split(/\s+/).map(b => parseInt(b, 16)))
+
+export class CaptureReplay {
+  /** Every write the host made, normalised like the capture */
+  readonly sent: string[] = []
+
+  private replies = new Map<string, string[][]>()
+  private played = new Map<string, number>()
+
+  constructor(capture: string, private format: CaptureFormat) {
+    let current: string[] | null = null
+
+    for (const raw of capture.split('\n')) {
+      const line = raw.trim()
+      if (!line || line.startsWith('#')) continue
+
+      const body = this.normalise(line.slice(1))
+      if (line.startsWith('>')) {
+        current = []
+        this.replies.set(body, [...(this.replies.get(body) ?? []), current])
+      } else if (line.startsWith('<') && current) {
+        current.push(body)
+      }
+    }
+  }
+
+  /** What the device answered to `command` in the capture; nothing if it never saw it */
+  respond(command: string): string[] {
+    const key = this.normalise(command)
+    this.sent.push(key)
+
+    const recordings = this.replies.get(key)
+    if (!recordings) return []
+
+    const turn = this.played.get(key) ?? 0
+    this.played.set(key, turn + 1)
+    return recordings[turn % recordings.length]
+  }
+
+  private normalise(text: string) {
+    return this.format === 'hex' ? text.trim().toUpperCase().split(/\s+/).join(' ') : text.trim()
+  }
+}
@@ -0,0 +1,38 @@
+import { bleCommand, CMD_GAIN, CMD_INFO, CMD_START, serialGainCommand, SERIAL_INFO_COMMAND, SERIAL_START_COMMAND } from '@/app/services/ps02Protocol'
+import { FakeBluetoothDevice, installFakeBluetooth } from './fakeBluetooth'
+import { FakeSerialPort, installFakeSerial } from './fakeSerial'
+import { loadCapture, toHex, type CaptureReplay } from './replay'
+
+/* =========================
+   Firmware that never acknowledges
+   The original fire-and-forget firmware on each link it ships with,
+   for tests that must hold on both: installs the fake device playing
+   the `*-silent` capture and spells commands the way its replay
+   records the host's writes.
+========================= */
+
+export interface SilentFirmwareCase {
+  mode: 'serial' | 'bluetooth'
+  /** Installs the fake device; its replay records what the host wrote */
+  install: () => CaptureReplay
+  info: string
+  start: string
+  gain: (gain: number) => string
+}
+
+export const SILENT_FIRMWARE: SilentFirmwareCase[] = [
+  {
+    mode: 'serial',
+    install: () => installFakeSerial(new FakeSerialPort(loadCapture('serial-silent'))).replay,
+    info: SERIAL_INFO_COMMAND.trim(),
+    start: SERIAL_START_COMMAND.trim(),
+    gain: gain => serialGainCommand(gain).trim(),
+  },
+  {
+    mode: 'bluetooth',
+    install: () => installFakeBluetooth(new FakeBluetoothDevice(loadCapture('ble-silent'))).replay,
+    info: toHex(bleCommand(CMD_INFO)),
+    start: toHex(bleCommand(CMD_START)),
+    gain: gain => toHex(bleCommand(CMD_GAIN, gain)),
+  },
+]